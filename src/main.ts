@@ -10,7 +10,41 @@ import { FinanceSettings, DEFAULT_SETTINGS } from './settings';
 import { SummaryService } from './services/SummaryService';
 import { FinanceSummaryView, FINANCE_SUMMARY_VIEW } from './views/FinanceSummaryView';
 import { SummaryQueryService } from './services/SummaryQueryService';
+import { LinkedTransactionsService } from './services/LinkedTransactionsService';
+import { LedgerWatcher } from './services/LedgerWatcher';
+import { TransactionStorage } from './services/TransactionStore';
+import { EventBus, EVENT_TYPES } from './services/EventBus';
+import { FinanceBlockRenderChild } from './views/FinanceBlockRenderChild';
+import { ValidationService } from './services/ValidationService';
+import { HistoryService } from './services/HistoryService';
+import { TrashService } from './services/TrashService';
+import { MerchantService } from './services/MerchantService';
+import { AccountService } from './services/AccountService';
+import { formatLedgerDate, parseLedgerDate } from './services/LedgerSchemas';
+import { RenameService } from './services/RenameService';
+import { AddMerchantModal } from './modals/AddMerchantModal';
+import { AccountModal } from './modals/AccountModal';
+import { ReconcileModal } from './modals/ReconcileModal';
+import { ApplyRulesModal } from './modals/ApplyRulesModal';
+import { DuplicatesModal } from './modals/DuplicatesModal';
+import { RuleModal } from './modals/RuleModal';
+import { ManageNamesModal } from './modals/ManageNamesModal';
+import { describeRule } from './utils/rules';
+import { describeTransaction } from './utils/duplicates';
+import { ValidationView, VALIDATION_VIEW } from './views/ValidationView';
 import { MarkdownRenderer } from 'obsidian';
+import { parseMoney, requireMoney } from './utils/money';
+import { formatTags, parseTags } from './utils/tags';
+import { TagSuggest } from './modals/TagSuggest';
+import { SplitEditor } from './modals/SplitEditor';
+import { TransferEditor } from './modals/TransferEditor';
+import { AttachmentEditor, isAttachmentFile } from './modals/AttachmentEditor';
+import { LinkSuggest } from './modals/LinkSuggest';
+import { PayeeSuggest } from './modals/PayeeSuggest';
+import { parseLinks } from './utils/links';
+import { Transaction, TransactionType } from './types/Transaction';
+import { TransactionRule } from './types/TransactionRule';
+import { CATEGORY_SEPARATOR, buildCategoryTree, formatCategoryOption, getCategoryDepth, getCategoryPath, isCategoryWithin, normalizeCategory } from './utils/categories';
 
 export default class FinancePlugin extends Plugin {
 	settings: FinanceSettings;
@@ -21,15 +55,39 @@ export default class FinancePlugin extends Plugin {
 	excelService: ExcelService;
 	summaryService: SummaryService;
 	summaryQueryService: SummaryQueryService;
+	linkedTransactionsService: LinkedTransactionsService;
+	ledgerWatcher: LedgerWatcher;
+	validationService: ValidationService;
+	historyService: HistoryService;
+	trashService: TrashService;
+	merchantService: MerchantService;
+	accountService: AccountService;
+	renameService: RenameService;
 	private chartView: ChartView;
 
 	async onload() {
 		await this.loadSettings();
 
 		// 创建服务实例
-		this.transactionService = new TransactionService(this.app, this.settings);
-		this.budgetService = new BudgetService(this.app, this.settings);
-		this.recurringTransactionService = new RecurringTransactionService(this.app, this.settings);
+		this.historyService = new HistoryService();
+		this.trashService = new TrashService(this.app, this.settings);
+		this.merchantService = new MerchantService(this.app, this.settings);
+		this.accountService = new AccountService(this.app, this.settings);
+		this.transactionService = new TransactionService(
+			this.app,
+			this.settings,
+			this.historyService,
+			this.trashService,
+			this.merchantService,
+			this.accountService
+		);
+		this.budgetService = new BudgetService(this.app, this.settings, this.historyService, this.trashService);
+		this.recurringTransactionService = new RecurringTransactionService(
+			this.app,
+			this.settings,
+			this.historyService,
+			this.trashService
+		);
 		this.chartService = new ChartService(this.app, this.transactionService);
 		this.excelService = new ExcelService(
 			this.app,
@@ -40,12 +98,45 @@ export default class FinancePlugin extends Plugin {
 		);
 		this.summaryService = new SummaryService(this.app, this.settings, this.transactionService);
 		this.summaryQueryService = new SummaryQueryService(this.app, this.summaryService);
+		this.linkedTransactionsService = new LinkedTransactionsService(this.app, this.transactionService);
+		this.validationService = new ValidationService(
+			this.app,
+			this.settings,
+			this.transactionService,
+			this.budgetService,
+			this.recurringTransactionService,
+			this.accountService,
+			this.merchantService,
+			this.trashService
+		);
+		this.renameService = new RenameService(
+			this.app,
+			this.settings,
+			this.transactionService,
+			this.budgetService,
+			this.recurringTransactionService,
+			this.accountService,
+			this.historyService,
+			() => this.saveSettings()
+		);
+		this.ledgerWatcher = new LedgerWatcher(
+			this.app,
+			this.transactionService,
+			this.budgetService,
+			this.recurringTransactionService,
+			this.trashService,
+			this.merchantService,
+			this.accountService
+		);
 
 		// 初始化服务
 		await Promise.all([
 			this.transactionService.initialize(),
 			this.budgetService.initialize(),
-			this.recurringTransactionService.initialize()
+			this.recurringTransactionService.initialize(),
+			this.trashService.initialize(),
+			this.merchantService.initialize(),
+			this.accountService.initialize()
 		]);
 
 		// 注册视图
@@ -56,7 +147,9 @@ export default class FinancePlugin extends Plugin {
 				this.transactionService,
 				this.budgetService,
 				this.recurringTransactionService,
-				this.excelService
+				this.excelService,
+				this.trashService,
+				this.accountService
 			)
 		);
 
@@ -72,6 +165,12 @@ export default class FinancePlugin extends Plugin {
 			(leaf) => new FinanceSummaryView(leaf, this.summaryService)
 		);
 
+		// 注册账本校验结果视图
+		this.registerView(
+			VALIDATION_VIEW,
+			(leaf) => new ValidationView(leaf, this.validationService)
+		);
+
 		// 添加命令
 		this.addCommand({
 			id: 'finance:show-finance-table',
@@ -89,6 +188,22 @@ export default class FinancePlugin extends Plugin {
 			}
 		});
 
+		// 以当前打开的收据图片或 PDF 作为附件添加交易
+		this.addCommand({
+			id: 'finance:add-transaction-from-attachment',
+			name: 'Add Transaction from Current File',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !isAttachmentFile(file)) {
+					return false;
+				}
+				if (!checking) {
+					new AddTransactionModal(this.app, this.transactionService, [file.path]).open();
+				}
+				return true;
+			}
+		});
+
 		this.addCommand({
 			id: 'finance:add-recurring-transaction',
 			name: 'Add Recurring Transaction',
@@ -105,6 +220,114 @@ export default class FinancePlugin extends Plugin {
 			}
 		});
 
+		// 商户目录：添加商户，或打开目录文件直接编辑
+		this.addCommand({
+			id: 'finance:add-merchant',
+			name: 'Add Merchant',
+			callback: () => {
+				new AddMerchantModal(this.app, this.merchantService).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'finance:open-merchant-directory',
+			name: 'Open Merchant Directory',
+			callback: async () => {
+				const path = this.merchantService.getFilePath();
+				if (!this.app.vault.getAbstractFileByPath(path)) {
+					new Notice('No merchants yet, use Add Merchant first');
+					return;
+				}
+				await this.app.workspace.openLinkText(path, '', true);
+			}
+		});
+
+		// 账户目录：添加账户，余额和归档在表格视图的 Accounts 中管理
+		this.addCommand({
+			id: 'finance:add-account',
+			name: 'Add Account',
+			callback: () => {
+				new AccountModal(this.app, this.accountService, this.settings.currencies).open();
+			}
+		});
+
+		// 按对账单核对账户中的交易
+		this.addCommand({
+			id: 'finance:reconcile-account',
+			name: 'Reconcile Account',
+			callback: () => {
+				new ReconcileModal(this.app, this.transactionService, this.accountService).open();
+			}
+		});
+
+		// 在所有年份的账本中改名、合并或删除分类和账户
+		this.addCommand({
+			id: 'finance:manage-categories',
+			name: 'Manage Categories',
+			callback: () => {
+				new ManageNamesModal(this.app, this.renameService, 'category').open();
+			}
+		});
+
+		this.addCommand({
+			id: 'finance:manage-accounts',
+			name: 'Manage Accounts',
+			callback: () => {
+				new ManageNamesModal(this.app, this.renameService, 'account').open();
+			}
+		});
+
+		// 对已有交易重新应用自动分类规则，确认前预览变化
+		this.addCommand({
+			id: 'finance:apply-rules',
+			name: 'Apply Rules to Existing Transactions',
+			callback: () => {
+				new ApplyRulesModal(this.app, this.transactionService).open();
+			}
+		});
+
+		// 列出疑似重复的交易对并合并
+		this.addCommand({
+			id: 'finance:find-duplicates',
+			name: 'Find Duplicate Transactions',
+			callback: () => {
+				new DuplicatesModal(this.app, this.transactionService).open();
+			}
+		});
+
+		// 撤销/重做交易、预算和定期交易的修改
+		this.addCommand({
+			id: 'finance:undo',
+			name: 'Undo Last Finance Change',
+			callback: () => this.applyHistory('undo')
+		});
+
+		this.addCommand({
+			id: 'finance:redo',
+			name: 'Redo Finance Change',
+			callback: () => this.applyHistory('redo')
+		});
+
+		// 在账本文件和交易笔记两种存储之间迁移
+		this.addCommand({
+			id: 'finance:convert-transactions-to-notes',
+			name: 'Convert Transactions to Notes',
+			callback: () => this.migrateTransactionStorage('notes')
+		});
+
+		this.addCommand({
+			id: 'finance:convert-transactions-to-ledger',
+			name: 'Convert Transactions to Ledger Files',
+			callback: () => this.migrateTransactionStorage('ledger')
+		});
+
+		// 检查所有账本文件并列出问题
+		this.addCommand({
+			id: 'finance:validate-files',
+			name: 'Validate Finance Files',
+			callback: () => this.activateValidationView()
+		});
+
 		// 添加图表命令
 		this.addCommand({
 			id: 'show-finance-chart',
@@ -137,21 +360,53 @@ export default class FinancePlugin extends Plugin {
 		// 添加设置标签页
 		this.addSettingTab(new FinanceSettingTab(this.app, this));
 
-		// 注册图表代码块
-		this.registerMarkdownCodeBlockProcessor('finance', async (source, el, ctx) => {
-			const chart = await this.chartService.generateChart(source);
-			el.appendChild(chart);
+		// 注册图表代码块，交易数据变化时自动刷新
+		this.registerMarkdownCodeBlockProcessor('finance', (source, el, ctx) => {
+			ctx.addChild(new FinanceBlockRenderChild(
+				el,
+				[EVENT_TYPES.TRANSACTION_CHANGED, EVENT_TYPES.ACCOUNT_CHANGED],
+				async (container) => {
+					const chart = await this.chartService.generateChart(source);
+					container.appendChild(chart);
+				},
+				(container) => {
+					container.querySelectorAll('canvas').forEach(canvas => {
+						this.chartService.destroyChart(canvas);
+					});
+				}
+			));
+		});
+
+		// 注册财务摘要代码块，交易数据变化时自动刷新
+		this.registerMarkdownCodeBlockProcessor('finance-summary', (source, el, ctx) => {
+			ctx.addChild(new FinanceBlockRenderChild(
+				el,
+				[EVENT_TYPES.TRANSACTION_CHANGED, EVENT_TYPES.ACCOUNT_CHANGED],
+				async (container) => {
+					const markdown = await this.summaryQueryService.processQuery(source);
+					const markdownContainer = container.createDiv('markdown-preview-view markdown-rendered');
+					await MarkdownRenderer.renderMarkdown(markdown, markdownContainer, ctx.sourcePath, this);
+				}
+			));
 		});
 
-		// 注册财务摘要代码块
-		this.registerMarkdownCodeBlockProcessor('finance-summary', async (source, el, ctx) => {
-			const markdown = await this.summaryQueryService.processQuery(source);
-			const container = el.createDiv('markdown-preview-view markdown-rendered');
-			await MarkdownRenderer.renderMarkdown(markdown, container, '', this);
+		// 注册关联交易代码块，列出链接到当前笔记的交易
+		this.registerMarkdownCodeBlockProcessor('finance-linked', (source, el, ctx) => {
+			ctx.addChild(new FinanceBlockRenderChild(
+				el,
+				[EVENT_TYPES.TRANSACTION_CHANGED],
+				async (container) => {
+					const markdown = await this.linkedTransactionsService.processQuery(source, ctx.sourcePath);
+					const markdownContainer = container.createDiv('markdown-preview-view markdown-rendered');
+					await MarkdownRenderer.renderMarkdown(markdown, markdownContainer, ctx.sourcePath, this);
+				}
+			));
 		});
 
 		// 在插件加载时自动添加 Finance Table 到右侧边栏
 		this.app.workspace.onLayoutReady(() => {
+			// 布局就绪后再监听文件变动，避免启动时的大量 create 事件
+			this.ledgerWatcher.register(this);
 			this.activateView();
 		});
 	}
@@ -159,6 +414,7 @@ export default class FinancePlugin extends Plugin {
 	async onunload() {
 		// 清理资源
 		this.app.workspace.detachLeavesOfType(FINANCE_SUMMARY_VIEW);
+		this.app.workspace.detachLeavesOfType(VALIDATION_VIEW);
 	}
 
 	private async activateView() {
@@ -181,6 +437,45 @@ export default class FinancePlugin extends Plugin {
 		}
 	}
 
+	private async applyHistory(action: 'undo' | 'redo') {
+		try {
+			const entry = action === 'undo'
+				? await this.historyService.undo()
+				: await this.historyService.redo();
+			if (!entry) {
+				new Notice(action === 'undo' ? 'Nothing to undo' : 'Nothing to redo');
+				return;
+			}
+			new Notice(`${action === 'undo' ? 'Undone' : 'Redone'}: ${entry.label}`);
+		} catch (error) {
+			console.error(`Failed to ${action}:`, error);
+			new Notice(`Failed to ${action}: ${error.message}`);
+		}
+	}
+
+	private async activateValidationView() {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VALIDATION_VIEW)[0];
+
+		if (leaf) {
+			// 已打开时重新校验
+			await (leaf.view as ValidationView).refresh();
+		} else {
+			const newLeaf = workspace.getRightLeaf(false);
+			if (newLeaf) {
+				await newLeaf.setViewState({
+					type: VALIDATION_VIEW,
+					active: true,
+				});
+				leaf = newLeaf;
+			}
+		}
+
+		if (leaf) {
+			workspace.revealLeaf(leaf);
+		}
+	}
+
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
 	}
@@ -189,6 +484,20 @@ export default class FinancePlugin extends Plugin {
 		await this.saveData(this.settings);
 	}
 
+	private async migrateTransactionStorage(target: TransactionStorage) {
+		if (this.settings.transactionStorage === target) {
+			new Notice(`Transactions are already stored as ${target === 'notes' ? 'notes' : 'ledger files'}`);
+			return;
+		}
+		try {
+			const migrated = await this.transactionService.migrateStorage(target);
+			await this.saveSettings();
+			new Notice(`Converted ${migrated} transactions. The original files were kept.`);
+		} catch (error) {
+			new Notice('Failed to convert transactions: ' + error.message);
+		}
+	}
+
 	// 添加图表渲染方法
 	async renderChart(query: string) {
 		if (this.chartView) {
@@ -234,17 +543,6 @@ class FinanceSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
-		new Setting(containerEl)
-			.setName('Categories')
-			.setDesc('Default categories for transactions')
-			.addText(text => text
-				.setPlaceholder('Enter categories separated by commas')
-				.setValue(this.plugin.settings.defaultCategories.join(', '))
-				.onChange(async (value) => {
-					this.plugin.settings.defaultCategories = value.split(',').map(c => c.trim());
-					await this.plugin.saveSettings();
-				}));
-
 		new Setting(containerEl)
 			.setName('Finance Note File Path')
 			.setDesc('Default path for finance note files')
@@ -268,6 +566,184 @@ class FinanceSettingTab extends PluginSettingTab {
 					this.plugin.settings.financeFilePath = value;
 					await this.plugin.saveSettings();
 				}));
+
+		new Setting(containerEl)
+			.setName('Transaction Storage')
+			.setDesc('Store transactions as blocks in yearly ledger files, or as one note per transaction with frontmatter properties. Switching does not move existing data; use the "Convert Transactions" commands for that.')
+			.addDropdown(dropdown => dropdown
+				.addOption('ledger', 'Ledger files')
+				.addOption('notes', 'One note per transaction')
+				.setValue(this.plugin.settings.transactionStorage)
+				.onChange(async (value) => {
+					await this.plugin.transactionService.setStorage(value as TransactionStorage);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Inline Transactions')
+			.setDesc('Include lines like "- 💸 35.00 CNY #餐饮 @现金 lunch" (💰 for income) from any note, e.g. daily notes')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.inlineTransactions)
+				.onChange(async (value) => {
+					this.plugin.settings.inlineTransactions = value;
+					await this.plugin.saveSettings();
+					EventBus.getInstance().emit(EVENT_TYPES.TRANSACTION_CHANGED);
+				}));
+
+		new Setting(containerEl)
+			.setName('Transaction Notes Folder')
+			.setDesc('Folder for transaction notes when using one note per transaction')
+			.addText(text => text
+				.setPlaceholder('Finance/Transactions')
+				.setValue(this.plugin.settings.transactionNotesPath)
+				.onChange(async (value) => {
+					this.plugin.settings.transactionNotesPath = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Trash Retention (days)')
+			.setDesc('How long deleted records are kept in the trash before they are removed (0 disables the trash)')
+			.addText(text => text
+				.setPlaceholder('30')
+				.setValue(this.plugin.settings.trashRetentionDays.toString())
+				.onChange(async (value) => {
+					const days = parseInt(value);
+					if (!isNaN(days) && days >= 0) {
+						this.plugin.settings.trashRetentionDays = days;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		this.displayCategories(containerEl);
+		this.displayRules(containerEl);
+	}
+
+	// 默认分类树：以冒号分隔层级，可以添加下级分类，删除分类时一并删除其下级
+	private displayCategories(containerEl: HTMLElement) {
+		containerEl.createEl('h3', {text: 'Categories'});
+
+		let input: HTMLInputElement;
+		const addCategory = async () => {
+			const category = normalizeCategory(input.value);
+			if (!category) {
+				return;
+			}
+			if (!this.plugin.settings.defaultCategories.includes(category)) {
+				this.plugin.settings.defaultCategories = [...this.plugin.settings.defaultCategories, category];
+				await this.plugin.saveSettings();
+			}
+			this.display();
+		};
+		new Setting(containerEl)
+			.setDesc('Default categories for transactions. Use "parent:child" for subcategories, e.g. 餐饮:午餐; parent totals include their subcategories.')
+			.addText(text => {
+				text.setPlaceholder('餐饮:午餐');
+				input = text.inputEl;
+				input.addEventListener('keydown', (event) => {
+					if (event.key === 'Enter') {
+						addCategory();
+					}
+				});
+			})
+			.addButton(button => button
+				.setButtonText('Add Category')
+				.onClick(addCategory));
+
+		for (const category of buildCategoryTree(this.plugin.settings.defaultCategories)) {
+			const setting = new Setting(containerEl)
+				.setName(getCategoryPath(category).pop() ?? category)
+				.setClass('finance-category-node')
+				.addExtraButton(button => button
+					.setIcon('plus')
+					.setTooltip('Add subcategory')
+					.onClick(() => {
+						input.value = `${category}${CATEGORY_SEPARATOR}`;
+						input.focus();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete category and its subcategories')
+					.onClick(async () => {
+						this.plugin.settings.defaultCategories = this.plugin.settings.defaultCategories
+							.filter(c => !isCategoryWithin(normalizeCategory(c), category));
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+			setting.settingEl.style.setProperty('--finance-category-depth', String(getCategoryDepth(category) - 1));
+		}
+	}
+
+	// 自动分类规则：按顺序应用，可以调整顺序、停用、编辑和删除
+	private displayRules(containerEl: HTMLElement) {
+		containerEl.createEl('h3', {text: 'Rules'});
+
+		new Setting(containerEl)
+			.setDesc('Rules fill in category, tags, account and type when transactions are added or imported. Earlier rules take precedence. Use "Apply Rules to Existing Transactions" to update older transactions.')
+			.addButton(button => button
+				.setButtonText('Add Rule')
+				.onClick(() => this.openRuleModal()));
+
+		const rules = this.plugin.settings.rules;
+		rules.forEach((rule, index) => {
+			new Setting(containerEl)
+				.setName(rule.name)
+				.setDesc(describeRule(rule))
+				.addToggle(toggle => toggle
+					.setTooltip('Enabled')
+					.setValue(rule.enabled)
+					.onChange(async (value) => {
+						await this.saveRules(this.plugin.settings.rules.map(r => r.id === rule.id ? {...r, enabled: value} : r));
+					}))
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip('Move up')
+					.setDisabled(index === 0)
+					.onClick(() => this.moveRule(index, -1)))
+				.addExtraButton(button => button
+					.setIcon('arrow-down')
+					.setTooltip('Move down')
+					.setDisabled(index === rules.length - 1)
+					.onClick(() => this.moveRule(index, 1)))
+				.addExtraButton(button => button
+					.setIcon('pencil')
+					.setTooltip('Edit rule')
+					.onClick(() => this.openRuleModal(rule)))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete rule')
+					.onClick(async () => {
+						await this.saveRules(this.plugin.settings.rules.filter(r => r.id !== rule.id));
+						this.display();
+					}));
+		});
+	}
+
+	private openRuleModal(rule?: TransactionRule) {
+		const {transactionService} = this.plugin;
+		new RuleModal(this.app, {
+			categories: transactionService.getCategories(),
+			accounts: transactionService.getAccounts(),
+			currencies: this.plugin.settings.currencies,
+			getTags: () => transactionService.getTags()
+		}, rule, async (saved) => {
+			const rules = this.plugin.settings.rules;
+			await this.saveRules(rule ? rules.map(r => r.id === saved.id ? saved : r) : [...rules, saved]);
+			this.display();
+		}).open();
+	}
+
+	private async moveRule(index: number, offset: number) {
+		const rules = [...this.plugin.settings.rules];
+		const [rule] = rules.splice(index, 1);
+		rules.splice(index + offset, 0, rule);
+		await this.saveRules(rules);
+		this.display();
+	}
+
+	private async saveRules(rules: TransactionRule[]) {
+		this.plugin.settings.rules = rules;
+		await this.plugin.saveSettings();
 	}
 }
 
@@ -279,12 +755,25 @@ class AddTransactionModal extends Modal {
 	private categorySelect: HTMLSelectElement;
 	private accountSelect: HTMLSelectElement;
 	private descriptionInput: HTMLInputElement;
+	private payeeInput: HTMLInputElement;
+	private tagsInput: HTMLInputElement;
+	private linksInput: HTMLInputElement;
 	private dateInput: HTMLInputElement;
 	private currencySelect: HTMLSelectElement;
-
-	constructor(app: App, transactionService: TransactionService) {
+	private splitEditor: SplitEditor;
+	private transferEditor: TransferEditor;
+	private attachmentEditor: AttachmentEditor;
+	private attachments: string[];
+	private duplicateWarning: HTMLElement;
+	// 已追加过标签的规则，用户删除的标签不再加回
+	private taggedRules: Set<string> = new Set();
+	// 已提示过重复时，再次点击添加即确认添加
+	private duplicateConfirmed = false;
+
+	constructor(app: App, transactionService: TransactionService, attachments: string[] = []) {
 		super(app);
 		this.transactionService = transactionService;
+		this.attachments = attachments;
 	}
 
 	onOpen() {
@@ -297,13 +786,20 @@ class AddTransactionModal extends Modal {
 		// 创建表单
 		const form = contentEl.createEl('form');
 		form.addClass('finance-form');
+		// 拆分区域中的按钮不提交表单
+		form.addEventListener('submit', e => e.preventDefault());
+		// 修改任一字段后重新检查重复，之前的确认不再有效
+		form.addEventListener('input', () => {
+			this.duplicateConfirmed = false;
+			this.duplicateWarning?.empty();
+		});
 
 		// 日期
 		const dateGroup = form.createEl('div', {cls: 'form-group'});
 		dateGroup.createEl('label', {text: 'Date'});
 		this.dateInput = dateGroup.createEl('input', {
 			type: 'date',
-			value: new Date().toISOString().split('T')[0]
+			value: formatLedgerDate(new Date())
 		});
 
 		// 金额
@@ -323,6 +819,7 @@ class AddTransactionModal extends Modal {
 		this.typeSelect = typeGroup.createEl('select');
 		this.typeSelect.createEl('option', {text: 'Income', value: 'income'});
 		this.typeSelect.createEl('option', {text: 'Expense', value: 'expense'});
+		this.typeSelect.createEl('option', {text: 'Transfer', value: 'transfer'});
 
 		// 分类
 		const categoryGroup = form.createEl('div', {cls: 'form-group'});
@@ -330,9 +827,18 @@ class AddTransactionModal extends Modal {
 		this.categorySelect = categoryGroup.createEl('select');
 		const categories = this.transactionService.getCategories();
 		categories.forEach(category => {
-			this.categorySelect.createEl('option', {text: category, value: category});
+			this.categorySelect.createEl('option', {text: formatCategoryOption(category), value: category});
 		});
 
+		// 拆分到多个分类
+		this.splitEditor = new SplitEditor(
+			form.createEl('div', {cls: 'form-group'}),
+			categories,
+			() => parseMoney(this.amountInput.value, this.currencySelect.value)
+		);
+		this.splitEditor.render();
+		this.amountInput.addEventListener('input', () => this.splitEditor.refresh());
+
 		// 账户
 		const accountGroup = form.createEl('div', {cls: 'form-group'});
 		accountGroup.createEl('label', {text: 'Account'});
@@ -342,6 +848,21 @@ class AddTransactionModal extends Modal {
 			this.accountSelect.createEl('option', {text: account, value: account});
 		});
 
+		// 转账的转入账户、手续费和转入金额，只在转账时显示
+		this.transferEditor = new TransferEditor(
+			form.createEl('div', {cls: 'form-group'}),
+			accounts,
+			this.transactionService.getSettings().currencies
+		);
+		this.transferEditor.render();
+		const updateTypeFields = () => {
+			const isTransfer = this.typeSelect.value === 'transfer';
+			this.splitEditor.setVisible(!isTransfer);
+			this.transferEditor.setVisible(isTransfer);
+		};
+		this.typeSelect.addEventListener('change', updateTypeFields);
+		updateTypeFields();
+
 		// 描述
 		const descriptionGroup = form.createEl('div', {cls: 'form-group'});
 		descriptionGroup.createEl('label', {text: 'Description'});
@@ -349,6 +870,39 @@ class AddTransactionModal extends Modal {
 			type: 'text'
 		});
 
+		// 收款方，未填写时按商户目录识别描述中的商户
+		const payeeGroup = form.createEl('div', {cls: 'form-group'});
+		payeeGroup.createEl('label', {text: 'Payee'});
+		this.payeeInput = payeeGroup.createEl('input', {
+			type: 'text'
+		});
+		new PayeeSuggest(this.app, this.payeeInput, () => this.transactionService.getPayees());
+		this.descriptionInput.addEventListener('input', () => {
+			this.payeeInput.placeholder = this.transactionService.findPayee(this.descriptionInput.value) ?? '';
+		});
+
+		// 标签
+		const tagsGroup = form.createEl('div', {cls: 'form-group'});
+		tagsGroup.createEl('label', {text: 'Tags'});
+		this.tagsInput = tagsGroup.createEl('input', {
+			type: 'text',
+			placeholder: '#trip-japan #reimbursable'
+		});
+		new TagSuggest(this.app, this.tagsInput, () => this.transactionService.getTags());
+
+		// 相关笔记
+		const linksGroup = form.createEl('div', {cls: 'form-group'});
+		linksGroup.createEl('label', {text: 'Links'});
+		this.linksInput = linksGroup.createEl('input', {
+			type: 'text',
+			placeholder: '[[Japan Trip]] [[Alice]]'
+		});
+		new LinkSuggest(this.app, this.linksInput);
+
+		// 附件
+		this.attachmentEditor = new AttachmentEditor(this.app, form.createEl('div', {cls: 'form-group'}), this.attachments);
+		this.attachmentEditor.render();
+
 		// 货币
 		const currencyGroup = form.createEl('div', {cls: 'form-group'});
 		currencyGroup.createEl('label', {text: 'Currency'});
@@ -358,6 +912,16 @@ class AddTransactionModal extends Modal {
 			this.currencySelect.createEl('option', {text: currency, value: currency});
 		});
 		this.currencySelect.value = settings.defaultCurrency;
+		this.currencySelect.addEventListener('change', () => this.splitEditor.refresh());
+
+		// 描述、收款方、金额或货币变化后按规则填入分类、标签、账户和类型
+		[this.amountInput, this.descriptionInput, this.payeeInput].forEach(input => {
+			input.addEventListener('input', () => this.applyRules());
+		});
+		this.currencySelect.addEventListener('change', () => this.applyRules());
+
+		// 重复提示
+		this.duplicateWarning = form.createEl('div', {cls: 'finance-duplicate-warning'});
 
 		// 提交按钮
 		const buttonGroup = form.createEl('div', {cls: 'form-group'});
@@ -369,16 +933,34 @@ class AddTransactionModal extends Modal {
 		submitButton.addEventListener('click', async (e) => {
 			e.preventDefault();
 			try {
+				const type = this.typeSelect.value as TransactionType;
+				const splits = type === 'transfer' ? undefined : this.splitEditor.getSplits(this.currencySelect.value);
+				const transfer = type === 'transfer' ? this.transferEditor.getTransfer(this.currencySelect.value) : undefined;
 				const transaction = {
-					date: new Date(this.dateInput.value),
-					amount: parseFloat(this.amountInput.value),
-					type: this.typeSelect.value as 'income' | 'expense',
-					category: this.categorySelect.value,
+					date: parseLedgerDate(this.dateInput.value),
+					amount: requireMoney(this.amountInput.value, this.currencySelect.value),
+					type,
+					category: splits ? splits[0].category : this.categorySelect.value,
+					splits,
 					account: this.accountSelect.value,
+					toAccount: transfer?.toAccount,
+					toAmount: transfer?.toAmount,
+					fee: transfer?.fee,
 					description: this.descriptionInput.value,
-					currency: this.currencySelect.value
+					payee: this.payeeInput.value.trim() || undefined,
+					tags: parseTags(this.tagsInput.value),
+					links: parseLinks(this.linksInput.value),
+					attachments: this.attachmentEditor.getAttachments()
 				};
 
+				if (!this.duplicateConfirmed) {
+					const [matches] = await this.transactionService.findDuplicates([transaction]);
+					if (matches.length > 0) {
+						this.showDuplicateWarning(matches);
+						return;
+					}
+				}
+
 				await this.transactionService.addTransaction(transaction);
 				new Notice('Transaction added successfully');
 				this.close();
@@ -388,6 +970,46 @@ class AddTransactionModal extends Modal {
 		});
 	}
 
+	private showDuplicateWarning(matches: Transaction[]) {
+		this.duplicateConfirmed = true;
+		this.duplicateWarning.empty();
+		this.duplicateWarning.createEl('p', {text: 'This looks like a duplicate of:'});
+		const list = this.duplicateWarning.createEl('ul', {cls: 'finance-duplicate-matches'});
+		matches.forEach(match => list.createEl('li', {text: describeTransaction(match)}));
+		this.duplicateWarning.createEl('p', {text: 'Click Add Transaction again to add it anyway.'});
+	}
+
+	// 规则的结果只是预填，之后仍可手动修改
+	private applyRules() {
+		const amount = parseMoney(this.amountInput.value, this.currencySelect.value);
+		if (!amount) {
+			return;
+		}
+		const tags = parseTags(this.tagsInput.value);
+		const transaction: Omit<Transaction, 'id'> = {
+			date: parseLedgerDate(this.dateInput.value),
+			amount,
+			type: this.typeSelect.value as TransactionType,
+			category: this.categorySelect.value,
+			account: this.accountSelect.value,
+			description: this.descriptionInput.value || undefined,
+			payee: this.payeeInput.value.trim() || undefined,
+			tags
+		};
+		const result = this.transactionService.applyRules(transaction);
+		const ruleTags = this.transactionService.applyRuleTags(transaction, this.taggedRules);
+		if (result.type !== this.typeSelect.value) {
+			this.typeSelect.value = result.type;
+			// 触发转账字段的显示切换
+			this.typeSelect.dispatchEvent(new Event('change'));
+		}
+		this.categorySelect.value = result.category;
+		this.accountSelect.value = result.account;
+		if (ruleTags.length !== tags.length) {
+			this.tagsInput.value = `${formatTags(ruleTags)} `;
+		}
+	}
+
 	onClose() {
 		const {contentEl} = this;
 		contentEl.empty();
@@ -483,7 +1105,7 @@ class AddRecurringTransactionModal extends Modal {
 		startDateGroup.createEl('label', {text: 'Start Date'});
 		this.startDateInput = startDateGroup.createEl('input', {
 			type: 'date',
-			value: new Date().toISOString().split('T')[0]
+			value: formatLedgerDate(new Date())
 		});
 
 		// 结束日期
@@ -514,15 +1136,14 @@ class AddRecurringTransactionModal extends Modal {
 			e.preventDefault();
 			try {
 				await this.recurringTransactionService.addRecurringTransaction({
-					amount: parseFloat(this.amountInput.value),
+					amount: requireMoney(this.amountInput.value, this.currencySelect.value),
 					type: this.typeSelect.value as 'income' | 'expense',
 					category: this.categoryInput.value,
 					account: this.accountInput.value,
 					description: this.descriptionInput.value,
 					frequency: this.frequencySelect.value as 'daily' | 'weekly' | 'monthly' | 'yearly',
-					startDate: new Date(this.startDateInput.value),
-					endDate: this.endDateInput.value ? new Date(this.endDateInput.value) : undefined,
-					currency: this.currencySelect.value
+					startDate: parseLedgerDate(this.startDateInput.value),
+					endDate: this.endDateInput.value ? parseLedgerDate(this.endDateInput.value) : undefined
 				});
 				new Notice('Recurring transaction added successfully');
 				this.close();
@@ -663,11 +1284,10 @@ class AddBudgetModal extends Modal {
 				const quarter = period === 'quarter' ? parseInt(this.quarterInput.value) : undefined;
 
 				await this.budgetService.addBudget({
-					amount: parseFloat(this.amountInput.value),
+					amount: requireMoney(this.amountInput.value, this.currencySelect.value),
 					category: this.categoryInput.value,
 					period: this.periodSelect.value === 'month' ? 'monthly' : 'yearly',
-					description: this.descriptionInput.value,
-					currency: this.currencySelect.value
+					description: this.descriptionInput.value
 				});
 				new Notice('Budget added successfully');
 				this.close();
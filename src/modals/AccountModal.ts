@@ -0,0 +1,152 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { format } from 'date-fns';
+import { AccountService } from '../services/AccountService';
+import { ACCOUNT_KINDS, Account, AccountKind } from '../types/Account';
+import { formatMoney, parseMoney, zeroMoney } from '../utils/money';
+import { parseLedgerDate } from '../services/LedgerSchemas';
+
+/**
+ * 添加或编辑账户目录中的账户；account 带有 ID 时为编辑，名称被交易引用，编辑时不能修改。
+ * 不带 ID 时以其中的值预填，例如把交易中使用过的账户加入目录。
+ */
+export class AccountModal extends Modal {
+    private accountService: AccountService;
+    private currencies: string[];
+    private account: Account | undefined;
+    private name: string;
+    private kind: AccountKind;
+    private currency: string;
+    private openingBalance: string;
+    private openingDate: string;
+    private description: string;
+    private archived: boolean;
+
+    constructor(app: App, accountService: AccountService, currencies: string[], account?: Partial<Account>) {
+        super(app);
+        this.accountService = accountService;
+        this.currencies = currencies;
+        this.account = account?.id ? account as Account : undefined;
+        this.name = account?.name ?? '';
+        this.kind = account?.kind ?? 'asset';
+        this.currency = account?.currency ?? currencies[0] ?? '';
+        this.openingBalance = account?.openingBalance?.minor ? formatMoney(account.openingBalance) : '';
+        this.openingDate = account?.openingDate ? format(account.openingDate, 'yyyy-MM-dd') : '';
+        this.description = account?.description ?? '';
+        this.archived = account?.archived ?? false;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('finance-modal');
+
+        contentEl.createEl('h2', { text: this.account ? 'Edit Account' : 'Add Account' });
+
+        new Setting(contentEl)
+            .setName('Name')
+            .addText(text => {
+                text.setValue(this.name)
+                    .onChange(value => this.name = value);
+                text.setDisabled(!!this.account);
+            });
+
+        new Setting(contentEl)
+            .setName('Kind')
+            .addDropdown(dropdown => {
+                ACCOUNT_KINDS.forEach(kind => dropdown.addOption(kind, kind.charAt(0).toUpperCase() + kind.slice(1)));
+                dropdown.setValue(this.kind);
+                dropdown.onChange(value => this.kind = value as AccountKind);
+            });
+
+        new Setting(contentEl)
+            .setName('Currency')
+            .addDropdown(dropdown => {
+                this.currencies.forEach(currency => dropdown.addOption(currency, currency));
+                if (this.currency && !this.currencies.includes(this.currency)) {
+                    dropdown.addOption(this.currency, this.currency);
+                }
+                dropdown.setValue(this.currency);
+                dropdown.onChange(value => this.currency = value);
+            });
+
+        new Setting(contentEl)
+            .setName('Opening Balance')
+            .setDesc('Balance at the start of the opening date; negative for money owed')
+            .addText(text => {
+                text.setPlaceholder('0.00')
+                    .setValue(this.openingBalance)
+                    .onChange(value => this.openingBalance = value);
+                text.inputEl.setAttribute('type', 'number');
+                text.inputEl.setAttribute('step', 'any');
+            });
+
+        new Setting(contentEl)
+            .setName('Opening Date')
+            .setDesc('Transactions before this date are left out of the balance')
+            .addText(text => {
+                text.setValue(this.openingDate)
+                    .onChange(value => this.openingDate = value);
+                text.inputEl.setAttribute('type', 'date');
+            });
+
+        new Setting(contentEl)
+            .setName('Description')
+            .addText(text => text
+                .setValue(this.description)
+                .onChange(value => this.description = value));
+
+        if (this.account) {
+            new Setting(contentEl)
+                .setName('Archived')
+                .setDesc('Archived accounts are hidden from account pickers')
+                .addToggle(toggle => toggle
+                    .setValue(this.archived)
+                    .onChange(value => this.archived = value));
+        }
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(this.account ? 'Save' : 'Add')
+                .setCta()
+                .onClick(async () => {
+                    const name = this.name.trim();
+                    if (!name || !this.currency) {
+                        new Notice('Please fill in all required fields');
+                        return;
+                    }
+                    const openingBalance = this.openingBalance.trim()
+                        ? parseMoney(this.openingBalance, this.currency)
+                        : zeroMoney(this.currency);
+                    if (!openingBalance) {
+                        new Notice(`Invalid amount: ${this.openingBalance}`);
+                        return;
+                    }
+                    const values: Omit<Account, 'id'> = {
+                        name,
+                        kind: this.kind,
+                        currency: this.currency,
+                        openingBalance,
+                        openingDate: this.openingDate ? parseLedgerDate(this.openingDate) : undefined,
+                        archived: this.archived,
+                        description: this.description.trim() || undefined
+                    };
+                    try {
+                        if (this.account) {
+                            await this.accountService.updateAccount({ ...values, id: this.account.id });
+                            new Notice('Account updated successfully');
+                        } else {
+                            await this.accountService.addAccount(values);
+                            new Notice('Account added successfully');
+                        }
+                        this.close();
+                    } catch (error) {
+                        new Notice('Failed to save account: ' + error.message);
+                    }
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -2,6 +2,8 @@ import { App, Modal, Notice } from 'obsidian';
 import { BudgetService } from '../services/BudgetService';
 import { TransactionService } from '../services/TransactionService';
 import { Budget } from '../types/Budget';
+import { requireMoney } from '../utils/money';
+import { formatCategoryOption } from '../utils/categories';
 
 export class AddBudgetModal extends Modal {
     private budgetService: BudgetService;
@@ -38,7 +40,7 @@ export class AddBudgetModal extends Modal {
         this.categorySelect = categoryGroup.createEl('select');
         const categories = this.transactionService.getCategories();
         categories.forEach(category => {
-            this.categorySelect.createEl('option', {text: category, value: category});
+            this.categorySelect.createEl('option', {text: formatCategoryOption(category), value: category});
         });
 
         // 金额
@@ -127,11 +129,10 @@ export class AddBudgetModal extends Modal {
                 const quarter = period === 'quarter' ? parseInt(this.quarterInput.value) : undefined;
 
                 await this.budgetService.addBudget({
-                    amount: parseFloat(this.amountInput.value),
+                    amount: requireMoney(this.amountInput.value, this.currencySelect.value),
                     category: this.categorySelect.value,
                     period: this.periodSelect.value === 'month' ? 'monthly' : 'yearly',
-                    description: this.descriptionInput.value,
-                    currency: this.currencySelect.value
+                    description: this.descriptionInput.value
                 });
                 new Notice('Budget added successfully');
                         this.close();
@@ -0,0 +1,82 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { MerchantService } from '../services/MerchantService';
+import { compilePattern, parseAliases } from '../utils/merchants';
+
+export class AddMerchantModal extends Modal {
+    private merchantService: MerchantService;
+    private name: string = '';
+    private aliases: string = '';
+    private patterns: string = '';
+
+    constructor(app: App, merchantService: MerchantService) {
+        super(app);
+        this.merchantService = merchantService;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('finance-modal');
+
+        contentEl.createEl('h2', { text: 'Add Merchant' });
+
+        // 名称
+        new Setting(contentEl)
+            .setName('Name')
+            .setDesc('The payee shown in reports, e.g. Starbucks')
+            .addText(text => text
+                .setValue(this.name)
+                .onChange(value => this.name = value));
+
+        // 别名
+        new Setting(contentEl)
+            .setName('Aliases')
+            .setDesc('Other spellings matched exactly, separated by semicolons, e.g. 星巴克; Starbucks Coffee')
+            .addText(text => text
+                .setValue(this.aliases)
+                .onChange(value => this.aliases = value));
+
+        // 正则表达式
+        new Setting(contentEl)
+            .setName('Patterns')
+            .setDesc('Case-insensitive regular expressions for bank descriptions, one per line, e.g. ^STARBUCKS\\b')
+            .addTextArea(text => text
+                .setValue(this.patterns)
+                .onChange(value => this.patterns = value));
+
+        // 提交按钮
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Add')
+                .setCta()
+                .onClick(async () => {
+                    const name = this.name.trim();
+                    if (!name) {
+                        new Notice('Please enter a name');
+                        return;
+                    }
+                    const patterns = this.patterns.split('\n').map(p => p.trim()).filter(p => p);
+                    const invalid = patterns.find(pattern => !compilePattern(pattern));
+                    if (invalid) {
+                        new Notice(`Invalid pattern: ${invalid}`);
+                        return;
+                    }
+                    try {
+                        await this.merchantService.addMerchant({
+                            name,
+                            aliases: parseAliases(this.aliases),
+                            patterns
+                        });
+                        new Notice('Merchant added successfully');
+                        this.close();
+                    } catch (error) {
+                        new Notice('Failed to add merchant: ' + error.message);
+                    }
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
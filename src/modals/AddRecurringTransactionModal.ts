@@ -2,6 +2,9 @@ import { App, Modal, Setting, Notice } from 'obsidian';
 import { RecurringTransactionService } from '../services/RecurringTransactionService';
 import { RecurringTransaction } from '../types/RecurringTransaction';
 import { TransactionService } from '../services/TransactionService';
+import { formatLedgerDate, parseLedgerDate } from '../services/LedgerSchemas';
+import { requireMoney } from '../utils/money';
+import { formatCategoryOption } from '../utils/categories';
 
 export class AddRecurringTransactionModal extends Modal {
     private recurringTransactionService: RecurringTransactionService;
@@ -57,7 +60,7 @@ export class AddRecurringTransactionModal extends Modal {
         this.categorySelect = categoryGroup.createEl('select');
         const categories = this.transactionService.getCategories();
         categories.forEach(category => {
-            this.categorySelect.createEl('option', {text: category, value: category});
+            this.categorySelect.createEl('option', {text: formatCategoryOption(category), value: category});
         });
 
         // 账户
@@ -90,7 +93,7 @@ export class AddRecurringTransactionModal extends Modal {
         startDateGroup.createEl('label', {text: 'Start Date'});
         this.startDateInput = startDateGroup.createEl('input', {
             type: 'date',
-            value: new Date().toISOString().split('T')[0]
+            value: formatLedgerDate(new Date())
         });
 
         // 结束日期
@@ -121,15 +124,14 @@ export class AddRecurringTransactionModal extends Modal {
             e.preventDefault();
                     try {
                 const recurringTransaction = {
-                    amount: parseFloat(this.amountInput.value),
+                    amount: requireMoney(this.amountInput.value, this.currencySelect.value),
                     type: this.typeSelect.value as 'income' | 'expense',
                     category: this.categorySelect.value,
                     account: this.accountSelect.value,
                     description: this.descriptionInput.value,
                     frequency: this.frequencySelect.value as 'daily' | 'weekly' | 'monthly' | 'yearly',
-                    startDate: new Date(this.startDateInput.value),
-                    endDate: this.endDateInput.value ? new Date(this.endDateInput.value) : undefined,
-                    currency: this.currencySelect.value
+                    startDate: parseLedgerDate(this.startDateInput.value),
+                    endDate: this.endDateInput.value ? parseLedgerDate(this.endDateInput.value) : undefined
                         };
 
                         await this.recurringTransactionService.addRecurringTransaction(recurringTransaction);
@@ -1,21 +1,53 @@
-import { App, Modal, Setting, Notice } from 'obsidian';
+import { App, DropdownComponent, Modal, Setting, Notice, TextComponent } from 'obsidian';
+import { format } from 'date-fns';
+import { parseLedgerDate } from '../services/LedgerSchemas';
 import { TransactionService } from '../services/TransactionService';
-import { Transaction } from '../types/Transaction';
+import { Transaction, TransactionType } from '../types/Transaction';
+import { parseMoney } from '../utils/money';
 import { FinanceSettings } from '../settings';
+import { formatTags, parseTags } from '../utils/tags';
+import { TagSuggest } from './TagSuggest';
+import { SplitEditor } from './SplitEditor';
+import { TransferEditor } from './TransferEditor';
+import { AttachmentEditor } from './AttachmentEditor';
+import { LinkSuggest } from './LinkSuggest';
+import { PayeeSuggest } from './PayeeSuggest';
+import { parseLinks } from '../utils/links';
+import { describeTransaction } from '../utils/duplicates';
+import { formatCategoryOption } from '../utils/categories';
 
 export class AddTransactionModal extends Modal {
     private transactionService: TransactionService;
-    private date: string = new Date().toISOString().split('T')[0];
-    private amount: number = 0;
-    private type: 'income' | 'expense' = 'expense';
+    private date: string = format(new Date(), 'yyyy-MM-dd');
+    private amount: string = '';
+    private type: TransactionType = 'expense';
     private category: string = '';
     private account: string = '';
     private description: string = '';
+    private payee: string = '';
+    private payeeInput: HTMLInputElement | null = null;
+    private typeDropdown: DropdownComponent | null = null;
+    private categoryDropdown: DropdownComponent | null = null;
+    private accountDropdown: DropdownComponent | null = null;
+    private tagsText: TextComponent | null = null;
+    private links: string = '';
+    private tags: string = '';
+    private splitEditor: SplitEditor | null = null;
+    private transferEditor: TransferEditor | null = null;
+    private attachmentEditor: AttachmentEditor | null = null;
     private currency: string = '';
+    private attachments: string[];
+    private duplicateWarning: HTMLElement | null = null;
+    // 已追加过标签的规则，用户删除的标签不再加回
+    private taggedRules: Set<string> = new Set();
+    // 已提示过重复时，再次点击添加即确认添加
+    private duplicateConfirmed = false;
 
-    constructor(app: App, transactionService: TransactionService) {
+    // attachments 为预先附加的文件，例如从当前打开的收据创建交易时
+    constructor(app: App, transactionService: TransactionService, attachments: string[] = []) {
         super(app);
         this.transactionService = transactionService;
+        this.attachments = attachments;
         // 初始化默认值
         const categories = this.transactionService.getCategories();
         const accounts = this.transactionService.getAccounts();
@@ -37,7 +69,10 @@ export class AddTransactionModal extends Modal {
             .setName('Date')
             .addText(text => {
                 text.setValue(this.date)
-                    .onChange(value => this.date = value);
+                    .onChange(value => {
+                        this.date = value;
+                        this.resetDuplicateWarning();
+                    });
                 text.inputEl.setAttribute('type', 'date');
             });
 
@@ -45,21 +80,31 @@ export class AddTransactionModal extends Modal {
         new Setting(contentEl)
             .setName('Amount')
             .addText(text => {
-                text.setValue(this.amount.toString())
-                    .onChange(value => this.amount = parseFloat(value) || 0);
+                text.setValue(this.amount)
+                    .onChange(value => {
+                        this.amount = value;
+                        this.resetDuplicateWarning();
+                        this.splitEditor?.refresh();
+                        this.applyRules();
+                    });
                 text.inputEl.setAttribute('type', 'number');
-                text.inputEl.setAttribute('step', '0.01');
+                text.inputEl.setAttribute('step', 'any');
                 text.inputEl.setAttribute('required', 'true');
             });
 
         // 类型
         new Setting(contentEl)
             .setName('Type')
-            .addDropdown(dropdown => dropdown
+            .addDropdown(dropdown => this.typeDropdown = dropdown
                 .addOption('income', 'Income')
                 .addOption('expense', 'Expense')
+                .addOption('transfer', 'Transfer')
                 .setValue(this.type)
-                .onChange(value => this.type = value as 'income' | 'expense'));
+                .onChange(value => {
+                    this.type = value as TransactionType;
+                    this.resetDuplicateWarning();
+                    this.updateTypeFields();
+                }));
 
         // 分类
         new Setting(contentEl)
@@ -67,12 +112,24 @@ export class AddTransactionModal extends Modal {
             .addDropdown(dropdown => {
                 const categories = this.transactionService.getCategories();
                 categories.forEach(category => {
-                    dropdown.addOption(category, category);
+                    dropdown.addOption(category, formatCategoryOption(category));
                 });
                 dropdown.setValue(this.category);
-                dropdown.onChange(value => this.category = value);
+                dropdown.onChange(value => {
+                    this.category = value;
+                    this.resetDuplicateWarning();
+                });
+                this.categoryDropdown = dropdown;
             });
 
+        // 拆分到多个分类
+        this.splitEditor = new SplitEditor(
+            contentEl.createDiv(),
+            this.transactionService.getCategories(),
+            () => parseMoney(this.amount, this.currency)
+        );
+        this.splitEditor.render();
+
         // 账户
         new Setting(contentEl)
             .setName('Account')
@@ -82,15 +139,80 @@ export class AddTransactionModal extends Modal {
                     dropdown.addOption(account, account);
                 });
                 dropdown.setValue(this.account);
-                dropdown.onChange(value => this.account = value);
+                dropdown.onChange(value => {
+                    this.account = value;
+                    this.resetDuplicateWarning();
+                });
+                this.accountDropdown = dropdown;
             });
 
+        // 转账的转入账户、手续费和转入金额
+        this.transferEditor = new TransferEditor(
+            contentEl.createDiv(),
+            this.transactionService.getAccounts(),
+            this.transactionService.getSettings().currencies
+        );
+        this.transferEditor.render();
+        this.updateTypeFields();
+
         // 描述
         new Setting(contentEl)
             .setName('Description')
             .addText(text => text
                 .setValue(this.description)
-                .onChange(value => this.description = value));
+                .onChange(value => {
+                    this.description = value;
+                    this.resetDuplicateWarning();
+                    // 未填写收款方时按商户目录识别描述中的商户
+                    this.payeeInput?.setAttribute('placeholder', this.transactionService.findPayee(value) ?? '');
+                    this.applyRules();
+                }));
+
+        // 收款方
+        new Setting(contentEl)
+            .setName('Payee')
+            .setDesc('Leave empty to recognize the merchant from the description')
+            .addText(text => {
+                text.setValue(this.payee)
+                    .onChange(value => {
+                        this.payee = value;
+                        this.resetDuplicateWarning();
+                        this.applyRules();
+                    });
+                this.payeeInput = text.inputEl;
+                new PayeeSuggest(this.app, text.inputEl, () => this.transactionService.getPayees());
+            });
+
+        // 标签
+        new Setting(contentEl)
+            .setName('Tags')
+            .setDesc('Separate tags with spaces, e.g. #trip-japan #reimbursable')
+            .addText(text => {
+                text.setValue(this.tags)
+                    .onChange(value => {
+                        this.tags = value;
+                        this.resetDuplicateWarning();
+                    });
+                this.tagsText = text;
+                new TagSuggest(this.app, text.inputEl, () => this.transactionService.getTags());
+            });
+
+        // 相关笔记
+        new Setting(contentEl)
+            .setName('Links')
+            .setDesc('Related notes, e.g. [[Japan Trip]] [[Alice]]')
+            .addText(text => {
+                text.setValue(this.links)
+                    .onChange(value => {
+                        this.links = value;
+                        this.resetDuplicateWarning();
+                    });
+                new LinkSuggest(this.app, text.inputEl);
+            });
+
+        // 附件
+        this.attachmentEditor = new AttachmentEditor(this.app, contentEl.createDiv(), this.attachments);
+        this.attachmentEditor.render();
 
         // 货币
         new Setting(contentEl)
@@ -101,29 +223,55 @@ export class AddTransactionModal extends Modal {
                     dropdown.addOption(currency, currency);
                 });
                 dropdown.setValue(this.currency);
-                dropdown.onChange(value => this.currency = value);
+                dropdown.onChange(value => {
+                    this.currency = value;
+                    this.resetDuplicateWarning();
+                    this.splitEditor?.refresh();
+                    this.applyRules();
+                });
             });
 
+        // 重复提示
+        this.duplicateWarning = contentEl.createDiv('finance-duplicate-warning');
+
         // 提交按钮
         new Setting(contentEl)
             .addButton(button => button
                 .setButtonText('Add')
                 .setCta()
                 .onClick(async () => {
-                    if (!this.amount || !this.category || !this.account || !this.currency) {
+                    const amount = parseMoney(this.amount, this.currency);
+                    if (!amount || !amount.minor || !this.category || !this.account || !this.currency) {
                         new Notice('Please fill in all required fields');
                         return;
                     }
                     try {
+                        // 转账不能拆分，其他类型没有转账字段
+                        const splits = this.type === 'transfer' ? undefined : this.splitEditor?.getSplits(this.currency);
+                        const transfer = this.type === 'transfer' ? this.transferEditor?.getTransfer(this.currency) : undefined;
                         const transaction: Omit<Transaction, 'id'> = {
-                            date: new Date(this.date),
-                            amount: this.amount,
+                            date: parseLedgerDate(this.date),
+                            amount,
                             type: this.type,
-                            category: this.category,
+                            category: splits ? splits[0].category : this.category,
+                            splits,
                             account: this.account,
+                            toAccount: transfer?.toAccount,
+                            toAmount: transfer?.toAmount,
+                            fee: transfer?.fee,
                             description: this.description || undefined,
-                            currency: this.currency
+                            payee: this.payee.trim() || undefined,
+                            tags: parseTags(this.tags),
+                            links: this.getLinks(),
+                            attachments: this.attachmentEditor?.getAttachments()
                         };
+                        if (!this.duplicateConfirmed) {
+                            const [matches] = await this.transactionService.findDuplicates([transaction]);
+                            if (matches.length > 0) {
+                                this.showDuplicateWarning(matches);
+                                return;
+                            }
+                        }
                         await this.transactionService.addTransaction(transaction);
                         new Notice('Transaction added successfully');
                         this.close();
@@ -133,6 +281,74 @@ export class AddTransactionModal extends Modal {
                 }));
     }
 
+    private showDuplicateWarning(matches: Transaction[]): void {
+        if (!this.duplicateWarning) {
+            return;
+        }
+        this.duplicateConfirmed = true;
+        this.duplicateWarning.empty();
+        this.duplicateWarning.createEl('p', { text: 'This looks like a duplicate of:' });
+        const list = this.duplicateWarning.createEl('ul', { cls: 'finance-duplicate-matches' });
+        matches.forEach(match => list.createEl('li', { text: describeTransaction(match) }));
+        this.duplicateWarning.createEl('p', { text: 'Click Add again to add it anyway.' });
+    }
+
+    // 修改任一字段后重新检查重复，之前的确认不再有效
+    private resetDuplicateWarning(): void {
+        this.duplicateConfirmed = false;
+        this.duplicateWarning?.empty();
+    }
+
+    // 没有链接时为 undefined
+    private getLinks(): string[] | undefined {
+        const links = parseLinks(this.links);
+        return links.length > 0 ? links : undefined;
+    }
+
+    // 描述、收款方、金额或货币变化后按规则填入分类、标签、账户和类型，之后仍可手动修改
+    private applyRules(): void {
+        const amount = parseMoney(this.amount, this.currency);
+        if (!amount) {
+            return;
+        }
+        const tags = parseTags(this.tags);
+        const transaction: Omit<Transaction, 'id'> = {
+            date: parseLedgerDate(this.date),
+            amount,
+            type: this.type,
+            category: this.category,
+            account: this.account,
+            description: this.description || undefined,
+            payee: this.payee.trim() || undefined,
+            tags
+        };
+        const result = this.transactionService.applyRules(transaction);
+        const ruleTags = this.transactionService.applyRuleTags(transaction, this.taggedRules);
+        if (result.type !== this.type) {
+            this.type = result.type;
+            this.typeDropdown?.setValue(result.type);
+            this.updateTypeFields();
+        }
+        if (result.category !== this.category) {
+            this.category = result.category;
+            this.categoryDropdown?.setValue(result.category);
+        }
+        if (result.account !== this.account) {
+            this.account = result.account;
+            this.accountDropdown?.setValue(result.account);
+        }
+        if (ruleTags.length !== tags.length) {
+            this.tags = `${formatTags(ruleTags)} `;
+            this.tagsText?.setValue(this.tags);
+        }
+    }
+
+    // 转账时显示转账字段并隐藏拆分
+    private updateTypeFields(): void {
+        this.splitEditor?.setVisible(this.type !== 'transfer');
+        this.transferEditor?.setVisible(this.type === 'transfer');
+    }
+
     onClose() {
         const { contentEl } = this;
         contentEl.empty();
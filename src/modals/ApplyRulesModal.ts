@@ -0,0 +1,106 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { format } from 'date-fns';
+import { RuleChange, TransactionService } from '../services/TransactionService';
+import { Transaction } from '../types/Transaction';
+import { formatMoney } from '../utils/money';
+import { formatTags } from '../utils/tags';
+
+// 字段在预览中的显示值
+function formatField(transaction: Transaction, field: string): string {
+    return field === 'tags' ? formatTags(transaction.tags) : String(transaction[field as keyof Transaction] ?? '');
+}
+
+/**
+ * 对已有交易重新应用规则：先列出每条交易将要发生的变化，
+ * 确认后把选中的修改一次写入，可以整体撤销。
+ */
+export class ApplyRulesModal extends Modal {
+    private transactionService: TransactionService;
+    private selected: Set<string> = new Set();
+
+    constructor(app: App, transactionService: TransactionService) {
+        super(app);
+        this.transactionService = transactionService;
+    }
+
+    async onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('finance-modal');
+        contentEl.addClass('finance-history-modal');
+
+        contentEl.createEl('h2', { text: 'Apply Rules' });
+
+        let changes: RuleChange[];
+        try {
+            changes = await this.transactionService.getRuleChanges();
+        } catch (error) {
+            console.error('Failed to preview rules:', error);
+            contentEl.createEl('p', { text: 'Failed to preview rules: ' + error.message });
+            return;
+        }
+        if (changes.length === 0) {
+            contentEl.createEl('p', { text: 'Rules do not change any existing transaction.' });
+            return;
+        }
+
+        changes.forEach(change => this.selected.add(change.before.id));
+        new Setting(contentEl)
+            .setDesc(`${changes.length} transactions will change. Uncheck the ones to leave as they are.`)
+            .addButton(button => button
+                .setButtonText('Apply')
+                .setCta()
+                .onClick(async () => {
+                    const updates = changes.filter(c => this.selected.has(c.before.id)).map(c => c.after);
+                    if (updates.length === 0) {
+                        new Notice('No transactions selected');
+                        return;
+                    }
+                    try {
+                        await this.transactionService.updateTransactions(updates);
+                        new Notice(`Rules applied to ${updates.length} transactions`);
+                        this.close();
+                    } catch (error) {
+                        new Notice('Failed to apply rules: ' + error.message);
+                    }
+                }));
+
+        for (const change of changes) {
+            this.renderChange(contentEl, change);
+        }
+    }
+
+    private renderChange(container: HTMLElement, change: RuleChange): void {
+        const { before, after } = change;
+        const item = container.createDiv('finance-history-entry');
+        new Setting(item)
+            .setName(`${format(before.date, 'yyyy-MM-dd')} · ${formatMoney(before.amount)} ${before.amount.currency}`)
+            .setDesc(before.payee || before.description || '')
+            .addToggle(toggle => toggle
+                .setValue(true)
+                .onChange(value => {
+                    if (value) {
+                        this.selected.add(before.id);
+                    } else {
+                        this.selected.delete(before.id);
+                    }
+                }));
+
+        const list = item.createEl('ul', { cls: 'finance-history-changes' });
+        for (const field of change.fields) {
+            const row = list.createEl('li');
+            row.createEl('strong', { text: `${field}: ` });
+            const oldValue = formatField(before, field);
+            if (oldValue) {
+                row.createEl('del', { text: oldValue });
+                row.appendText(' → ');
+            }
+            row.createEl('ins', { text: formatField(after, field) });
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
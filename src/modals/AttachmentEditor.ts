@@ -0,0 +1,141 @@
+import { App, FuzzySuggestModal, Notice, Setting, TFile, normalizePath } from 'obsidian';
+import { parseLinks } from '../utils/links';
+
+// 可以作为收据或发票附加到交易的文件类型
+export const ATTACHMENT_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp', 'svg', 'heic', 'pdf'];
+
+export function isAttachmentFile(file: TFile): boolean {
+    return ATTACHMENT_EXTENSIONS.includes(file.extension.toLowerCase());
+}
+
+class AttachmentPickerModal extends FuzzySuggestModal<TFile> {
+    private onChoose: (file: TFile) => void;
+
+    constructor(app: App, onChoose: (file: TFile) => void) {
+        super(app);
+        this.onChoose = onChoose;
+        this.setPlaceholder('Choose a receipt or document');
+    }
+
+    getItems(): TFile[] {
+        return this.app.vault.getFiles().filter(isAttachmentFile);
+    }
+
+    getItemText(file: TFile): string {
+        return file.path;
+    }
+
+    onChooseItem(file: TFile): void {
+        this.onChoose(file);
+    }
+}
+
+/**
+ * 添加和编辑交易时的附件区域：从库中选择文件，或把文件拖放到区域中。
+ * 从系统拖入的文件按 Obsidian 的附件设置保存到库中。
+ */
+export class AttachmentEditor {
+    private app: App;
+    private containerEl: HTMLElement;
+    private attachments: string[];
+
+    constructor(app: App, containerEl: HTMLElement, attachments: string[] = []) {
+        this.app = app;
+        this.containerEl = containerEl;
+        this.attachments = [...attachments];
+        this.containerEl.addClass('finance-attachment-editor');
+    }
+
+    render(): void {
+        this.containerEl.empty();
+        new Setting(this.containerEl)
+            .setName('Attachments')
+            .setDesc('Receipts, invoices or other documents')
+            .addButton(button => button
+                .setButtonText('Add File')
+                .onClick(() => new AttachmentPickerModal(this.app, file => this.add(file.path)).open()));
+
+        for (const link of this.attachments) {
+            new Setting(this.containerEl)
+                .setClass('finance-attachment-row')
+                .setName(link)
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove attachment')
+                    .onClick(() => {
+                        this.attachments = this.attachments.filter(a => a !== link);
+                        this.render();
+                    }));
+        }
+
+        const dropZone = this.containerEl.createDiv({ cls: 'finance-attachment-drop', text: 'Drop files here' });
+        dropZone.addEventListener('dragover', e => {
+            e.preventDefault();
+            dropZone.addClass('is-dragover');
+        });
+        dropZone.addEventListener('dragleave', () => dropZone.removeClass('is-dragover'));
+        dropZone.addEventListener('drop', async e => {
+            e.preventDefault();
+            dropZone.removeClass('is-dragover');
+            try {
+                await this.handleDrop(e.dataTransfer);
+            } catch (error) {
+                console.error('Failed to attach file:', error);
+                new Notice('Failed to attach file: ' + error.message);
+            }
+        });
+    }
+
+    // 没有附件时返回 undefined
+    getAttachments(): string[] | undefined {
+        return this.attachments.length > 0 ? [...this.attachments] : undefined;
+    }
+
+    private add(path: string): void {
+        if (!this.attachments.includes(path)) {
+            this.attachments.push(path);
+        }
+        this.render();
+    }
+
+    // 保存到新建文件的默认位置，重名时在文件名后加序号
+    private getAvailablePath(fileName: string): string {
+        const folder = this.app.fileManager.getNewFileParent('');
+        const dot = fileName.lastIndexOf('.');
+        const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+        const extension = dot > 0 ? fileName.slice(dot) : '';
+        let path = normalizePath(`${folder.path}/${fileName}`);
+        for (let i = 1; this.app.vault.getAbstractFileByPath(path); i++) {
+            path = normalizePath(`${folder.path}/${base} ${i}${extension}`);
+        }
+        return path;
+    }
+
+    private async handleDrop(data: DataTransfer | null): Promise<void> {
+        if (!data) {
+            return;
+        }
+        // 从系统拖入的文件先保存到库中
+        if (data.files.length > 0) {
+            for (const file of Array.from(data.files)) {
+                const path = this.getAvailablePath(file.name);
+                const created = await this.app.vault.createBinary(path, await file.arrayBuffer());
+                this.add(created.path);
+            }
+            return;
+        }
+        // 从文件列表拖入时得到 wikilink 或 obsidian://open 链接
+        const text = data.getData('text/plain');
+        const links = parseLinks(text);
+        const url = text.match(/^obsidian:\/\/open\?.*\bfile=([^&]+)/);
+        if (url) {
+            links.push(decodeURIComponent(url[1]));
+        }
+        for (const link of links) {
+            const file = this.app.metadataCache.getFirstLinkpathDest(link, '');
+            if (file) {
+                this.add(file.path);
+            }
+        }
+    }
+}
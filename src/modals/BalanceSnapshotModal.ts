@@ -0,0 +1,109 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { format } from 'date-fns';
+import { AccountService } from '../services/AccountService';
+import { parseLedgerDate } from '../services/LedgerSchemas';
+import { Account } from '../types/Account';
+import { formatMoney, parseMoney } from '../utils/money';
+
+/**
+ * 手工记录账户在某一天结束时的余额，例如房产估值或养老金对账单；
+ * 余额和净资产从该日起以记录为准。下方列出账户已有的记录，可以删除。
+ */
+export class BalanceSnapshotModal extends Modal {
+    private accountService: AccountService;
+    private account: Account;
+    private date: string = format(new Date(), 'yyyy-MM-dd');
+    private balance: string = '';
+    private note: string = '';
+
+    constructor(app: App, accountService: AccountService, account: Account) {
+        super(app);
+        this.accountService = accountService;
+        this.account = account;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('finance-modal');
+
+        contentEl.createEl('h2', { text: `Record Balance: ${this.account.name}` });
+
+        new Setting(contentEl)
+            .setName('Date')
+            .addText(text => {
+                text.setValue(this.date)
+                    .onChange(value => this.date = value);
+                text.inputEl.setAttribute('type', 'date');
+            });
+
+        new Setting(contentEl)
+            .setName('Balance')
+            .setDesc(`Balance in ${this.account.currency} at the end of the day; negative for money owed`)
+            .addText(text => {
+                text.setPlaceholder('0.00')
+                    .setValue(this.balance)
+                    .onChange(value => this.balance = value);
+                text.inputEl.setAttribute('type', 'number');
+                text.inputEl.setAttribute('step', 'any');
+            });
+
+        new Setting(contentEl)
+            .setName('Note')
+            .addText(text => text
+                .setValue(this.note)
+                .onChange(value => this.note = value));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Record')
+                .setCta()
+                .onClick(async () => {
+                    const date = parseLedgerDate(this.date);
+                    const balance = parseMoney(this.balance, this.account.currency);
+                    if (isNaN(date.getTime()) || !balance) {
+                        new Notice('Please enter a valid date and balance');
+                        return;
+                    }
+                    try {
+                        await this.accountService.addSnapshot({
+                            account: this.account.name,
+                            date,
+                            balance,
+                            note: this.note.trim() || undefined
+                        });
+                        new Notice('Balance recorded');
+                        this.close();
+                    } catch (error) {
+                        new Notice('Failed to record balance: ' + error.message);
+                    }
+                }));
+
+        const snapshots = this.accountService.getSnapshots(this.account.name);
+        if (snapshots.length > 0) {
+            contentEl.createEl('h3', { text: 'Recorded Balances' });
+            // 最近的记录在前
+            for (const snapshot of [...snapshots].reverse()) {
+                const setting = new Setting(contentEl)
+                    .setName(`${format(snapshot.date, 'yyyy-MM-dd')} · ${formatMoney(snapshot.balance)} ${snapshot.balance.currency}`)
+                    .setDesc(snapshot.note ?? '')
+                    .addExtraButton(button => button
+                        .setIcon('trash')
+                        .setTooltip('Delete')
+                        .onClick(async () => {
+                            try {
+                                await this.accountService.removeSnapshot(snapshot.id);
+                                setting.settingEl.remove();
+                            } catch (error) {
+                                new Notice('Failed to delete balance: ' + error.message);
+                            }
+                        }));
+            }
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
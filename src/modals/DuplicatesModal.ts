@@ -0,0 +1,85 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { TransactionService } from '../services/TransactionService';
+import { Transaction } from '../types/Transaction';
+import { describeTransaction } from '../utils/duplicates';
+
+/**
+ * 列出账本中疑似重复的交易对。合并时保留选中的一条，
+ * 另一条的标签、链接和附件并入后移入回收站；不是重复时可以忽略该对。
+ */
+export class DuplicatesModal extends Modal {
+    private transactionService: TransactionService;
+    // 每个交易对的列表项，合并后移除涉及已删除交易的项
+    private items: { element: HTMLElement; ids: string[] }[] = [];
+
+    constructor(app: App, transactionService: TransactionService) {
+        super(app);
+        this.transactionService = transactionService;
+    }
+
+    async onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('finance-modal');
+        contentEl.addClass('finance-duplicates-modal');
+
+        contentEl.createEl('h2', { text: 'Duplicate Transactions' });
+
+        let pairs: [Transaction, Transaction][];
+        try {
+            pairs = await this.transactionService.getDuplicatePairs();
+        } catch (error) {
+            console.error('Failed to find duplicates:', error);
+            contentEl.createEl('p', { text: 'Failed to find duplicates: ' + error.message });
+            return;
+        }
+        if (pairs.length === 0) {
+            contentEl.createEl('p', { text: 'No duplicate transactions found.' });
+            return;
+        }
+
+        contentEl.createEl('p', { text: `${pairs.length} possible duplicate pairs.` });
+        for (const pair of pairs) {
+            this.renderPair(contentEl, pair);
+        }
+    }
+
+    private renderPair(container: HTMLElement, [first, second]: [Transaction, Transaction]): void {
+        const item = container.createDiv('finance-history-entry');
+        this.items.push({ element: item, ids: [first.id, second.id] });
+        const list = item.createEl('ul', { cls: 'finance-duplicate-matches' });
+        list.createEl('li', { text: describeTransaction(first) });
+        list.createEl('li', { text: describeTransaction(second) });
+
+        new Setting(item)
+            .addButton(button => button
+                .setButtonText('Keep first')
+                .setTooltip('Merge the second transaction into the first')
+                .onClick(() => this.merge(first, second)))
+            .addButton(button => button
+                .setButtonText('Keep second')
+                .setTooltip('Merge the first transaction into the second')
+                .onClick(() => this.merge(second, first)))
+            .addExtraButton(button => button
+                .setIcon('cross')
+                .setTooltip('Not a duplicate')
+                .onClick(() => item.remove()));
+    }
+
+    private async merge(keep: Transaction, duplicate: Transaction): Promise<void> {
+        try {
+            await this.transactionService.mergeTransactions(keep.id, duplicate.id);
+            new Notice('Transactions merged');
+            this.items
+                .filter(item => item.ids.includes(duplicate.id))
+                .forEach(item => item.element.remove());
+        } catch (error) {
+            new Notice('Failed to merge transactions: ' + error.message);
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
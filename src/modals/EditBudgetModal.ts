@@ -2,12 +2,14 @@ import { App, Modal, Setting, Notice } from 'obsidian';
 import { BudgetService } from '../services/BudgetService';
 import { TransactionService } from '../services/TransactionService';
 import { Budget } from '../types/Budget';
+import { formatMoney, parseMoney } from '../utils/money';
+import { formatCategoryOption } from '../utils/categories';
 
 export class EditBudgetModal extends Modal {
     private budgetService: BudgetService;
     private transactionService: TransactionService;
     private budget: Budget;
-    private amount: number;
+    private amount: string;
     private category: string;
     private period: 'monthly' | 'yearly';
     private description: string;
@@ -18,11 +20,11 @@ export class EditBudgetModal extends Modal {
         this.budgetService = budgetService;
         this.transactionService = transactionService;
         this.budget = budget;
-        this.amount = budget.amount;
+        this.amount = formatMoney(budget.amount);
         this.category = budget.category;
         this.period = budget.period;
         this.description = budget.description || '';
-        this.currency = budget.currency;
+        this.currency = budget.amount.currency;
     }
 
     onOpen() {
@@ -36,10 +38,10 @@ export class EditBudgetModal extends Modal {
         new Setting(contentEl)
             .setName('Amount')
             .addText(text => {
-                text.setValue(this.amount.toString())
-                    .onChange(value => this.amount = parseFloat(value) || 0);
+                text.setValue(this.amount)
+                    .onChange(value => this.amount = value);
                 text.inputEl.setAttribute('type', 'number');
-                text.inputEl.setAttribute('step', '0.01');
+                text.inputEl.setAttribute('step', 'any');
                 text.inputEl.setAttribute('required', 'true');
         });
 
@@ -49,7 +51,7 @@ export class EditBudgetModal extends Modal {
             .addDropdown(dropdown => {
                 const categories = this.transactionService.getCategories();
                 categories.forEach(category => {
-                    dropdown.addOption(category, category);
+                    dropdown.addOption(category, formatCategoryOption(category));
                 });
                 dropdown.setValue(this.category);
                 dropdown.onChange(value => this.category = value);
@@ -89,18 +91,18 @@ export class EditBudgetModal extends Modal {
                 .setButtonText('Save')
                 .setCta()
                 .onClick(async () => {
-                    if (!this.amount || !this.category || !this.currency) {
+                    const amount = parseMoney(this.amount, this.currency);
+                    if (!amount || !amount.minor || !this.category || !this.currency) {
                         new Notice('Please fill in all required fields');
                         return;
                     }
                     try {
                         const updatedBudget: Budget = {
                     ...this.budget,
-                            amount: this.amount,
+                            amount,
                             category: this.category,
                             period: this.period,
-                            description: this.description || undefined,
-                            currency: this.currency
+                            description: this.description || undefined
                         };
                         await this.budgetService.updateBudget(updatedBudget);
                 new Notice('Budget updated successfully');
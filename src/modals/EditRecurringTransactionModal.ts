@@ -1,7 +1,11 @@
 import { App, Modal, Notice } from 'obsidian';
+import { format } from 'date-fns';
+import { parseLedgerDate } from '../services/LedgerSchemas';
 import { RecurringTransactionService } from '../services/RecurringTransactionService';
 import { TransactionService } from '../services/TransactionService';
 import { RecurringTransaction } from '../types/RecurringTransaction';
+import { formatMoney, requireMoney } from '../utils/money';
+import { formatCategoryOption } from '../utils/categories';
 
 export class EditRecurringTransactionModal extends Modal {
     private recurringTransactionService: RecurringTransactionService;
@@ -44,7 +48,7 @@ export class EditRecurringTransactionModal extends Modal {
                 step: '0.01',
                 required: 'true'
             },
-            value: this.recurringTransaction.amount.toString()
+            value: formatMoney(this.recurringTransaction.amount)
         });
 
         // 类型
@@ -61,7 +65,7 @@ export class EditRecurringTransactionModal extends Modal {
         this.categorySelect = categoryGroup.createEl('select');
         const categories = this.transactionService.getCategories();
         categories.forEach(category => {
-            this.categorySelect.createEl('option', {text: category, value: category});
+            this.categorySelect.createEl('option', {text: formatCategoryOption(category), value: category});
         });
         this.categorySelect.value = this.recurringTransaction.category;
 
@@ -69,7 +73,7 @@ export class EditRecurringTransactionModal extends Modal {
         const accountGroup = form.createEl('div', {cls: 'form-group'});
         accountGroup.createEl('label', {text: 'Account'});
         this.accountSelect = accountGroup.createEl('select');
-        const accounts = this.transactionService.getAccounts();
+        const accounts = this.transactionService.getAccounts([this.recurringTransaction.account]);
         accounts.forEach(account => {
             this.accountSelect.createEl('option', {text: account, value: account});
         });
@@ -98,7 +102,7 @@ export class EditRecurringTransactionModal extends Modal {
         startDateGroup.createEl('label', {text: 'Start Date'});
         this.startDateInput = startDateGroup.createEl('input', {
             type: 'date',
-            value: new Date(this.recurringTransaction.startDate).toISOString().split('T')[0]
+            value: format(this.recurringTransaction.startDate, 'yyyy-MM-dd')
         });
 
         // 结束日期
@@ -106,7 +110,7 @@ export class EditRecurringTransactionModal extends Modal {
         endDateGroup.createEl('label', {text: 'End Date (Optional)'});
         this.endDateInput = endDateGroup.createEl('input', {
             type: 'date',
-            value: this.recurringTransaction.endDate ? new Date(this.recurringTransaction.endDate).toISOString().split('T')[0] : ''
+            value: this.recurringTransaction.endDate ? format(this.recurringTransaction.endDate, 'yyyy-MM-dd') : ''
         });
 
         // 货币
@@ -117,7 +121,7 @@ export class EditRecurringTransactionModal extends Modal {
         settings.currencies.forEach(currency => {
             this.currencySelect.createEl('option', {text: currency, value: currency});
         });
-        this.currencySelect.value = this.recurringTransaction.currency || settings.defaultCurrency;
+        this.currencySelect.value = this.recurringTransaction.amount.currency;
 
         // 提交按钮
         const buttonGroup = form.createEl('div', {cls: 'form-group'});
@@ -131,15 +135,14 @@ export class EditRecurringTransactionModal extends Modal {
             try {
                 await this.recurringTransactionService.updateRecurringTransaction({
                     ...this.recurringTransaction,
-                    amount: parseFloat(this.amountInput.value),
+                    amount: requireMoney(this.amountInput.value, this.currencySelect.value),
                     type: this.typeSelect.value as 'income' | 'expense',
                     category: this.categorySelect.value,
                     account: this.accountSelect.value,
                     description: this.descriptionInput.value,
                     frequency: this.frequencySelect.value as 'daily' | 'weekly' | 'monthly' | 'yearly',
-                    startDate: new Date(this.startDateInput.value),
-                    endDate: this.endDateInput.value ? new Date(this.endDateInput.value) : undefined,
-                    currency: this.currencySelect.value
+                    startDate: parseLedgerDate(this.startDateInput.value),
+                    endDate: this.endDateInput.value ? parseLedgerDate(this.endDateInput.value) : undefined
                 });
                 new Notice('Recurring transaction updated successfully');
                 this.close();
@@ -1,29 +1,58 @@
 import { App, Modal, Setting, Notice } from 'obsidian';
+import { format } from 'date-fns';
+import { parseLedgerDate } from '../services/LedgerSchemas';
 import { TransactionService } from '../services/TransactionService';
-import { Transaction } from '../types/Transaction';
+import { ClearedStatus, Transaction, TransactionType } from '../types/Transaction';
+import { formatMoney, parseMoney } from '../utils/money';
+import { TransactionHistoryModal } from './TransactionHistoryModal';
+import { TagSuggest } from './TagSuggest';
+import { SplitEditor } from './SplitEditor';
+import { TransferEditor } from './TransferEditor';
+import { AttachmentEditor } from './AttachmentEditor';
+import { LinkSuggest } from './LinkSuggest';
+import { PayeeSuggest } from './PayeeSuggest';
+import { formatLinks, parseLinks } from '../utils/links';
+import { formatTags, parseTags } from '../utils/tags';
+import { formatCategoryOption } from '../utils/categories';
 
 export class EditTransactionModal extends Modal {
     private transactionService: TransactionService;
     private transaction: Transaction;
     private date: string;
-    private amount: number;
-    private type: 'income' | 'expense';
+    private amount: string;
+    private type: TransactionType;
     private category: string;
     private account: string;
     private description: string;
+    private payee: string;
+    private links: string;
+    private tags: string;
+    private splitEditor: SplitEditor | null = null;
+    private transferEditor: TransferEditor | null = null;
+    private attachmentEditor: AttachmentEditor | null = null;
     private currency: string;
+    private status: ClearedStatus | undefined;
+    private toStatus: ClearedStatus | undefined;
+    private toStatusEl: HTMLElement | null = null;
+    // 已对账的交易需要先解锁才能编辑
+    private unlocked: boolean = false;
 
     constructor(app: App, transactionService: TransactionService, transaction: Transaction) {
         super(app);
         this.transactionService = transactionService;
         this.transaction = transaction;
-        this.date = new Date(transaction.date).toISOString().split('T')[0];
-        this.amount = transaction.amount;
+        this.date = format(transaction.date, 'yyyy-MM-dd');
+        this.amount = formatMoney(transaction.amount);
         this.type = transaction.type;
         this.category = transaction.category;
         this.account = transaction.account;
         this.description = transaction.description || '';
-        this.currency = transaction.currency;
+        this.payee = transaction.payee || '';
+        this.links = formatLinks(transaction.links ?? []);
+        this.tags = formatTags(transaction.tags);
+        this.currency = transaction.amount.currency;
+        this.status = transaction.status;
+        this.toStatus = transaction.toStatus;
     }
 
     onOpen() {
@@ -33,6 +62,18 @@ export class EditTransactionModal extends Modal {
 
         contentEl.createEl('h2', { text: 'Edit Transaction' });
 
+        const locked = (this.transaction.status === 'reconciled' || this.transaction.toStatus === 'reconciled') && !this.unlocked;
+        if (locked) {
+            new Setting(contentEl)
+                .setDesc('This transaction has been reconciled against a statement. Unlock it to make changes.')
+                .addButton(button => button
+                    .setButtonText('Unlock')
+                    .onClick(() => {
+                        this.unlocked = true;
+                        this.onOpen();
+                    }));
+        }
+
         // 日期
         new Setting(contentEl)
             .setName('Date')
@@ -46,10 +87,13 @@ export class EditTransactionModal extends Modal {
         new Setting(contentEl)
             .setName('Amount')
             .addText(text => {
-                text.setValue(this.amount.toString())
-                    .onChange(value => this.amount = parseFloat(value) || 0);
+                text.setValue(this.amount)
+                    .onChange(value => {
+                        this.amount = value;
+                        this.splitEditor?.refresh();
+                    });
                 text.inputEl.setAttribute('type', 'number');
-                text.inputEl.setAttribute('step', '0.01');
+                text.inputEl.setAttribute('step', 'any');
                 text.inputEl.setAttribute('required', 'true');
         });
 
@@ -59,8 +103,12 @@ export class EditTransactionModal extends Modal {
             .addDropdown(dropdown => dropdown
                 .addOption('income', 'Income')
                 .addOption('expense', 'Expense')
+                .addOption('transfer', 'Transfer')
                 .setValue(this.type)
-                .onChange(value => this.type = value as 'income' | 'expense'));
+                .onChange(value => {
+                    this.type = value as TransactionType;
+                    this.updateTypeFields();
+                }));
 
         // 分类
         new Setting(contentEl)
@@ -68,17 +116,26 @@ export class EditTransactionModal extends Modal {
             .addDropdown(dropdown => {
                 const categories = this.transactionService.getCategories();
                 categories.forEach(category => {
-                    dropdown.addOption(category, category);
+                    dropdown.addOption(category, formatCategoryOption(category));
                 });
                 dropdown.setValue(this.category);
                 dropdown.onChange(value => this.category = value);
         });
 
+        // 拆分到多个分类
+        this.splitEditor = new SplitEditor(
+            contentEl.createDiv(),
+            this.transactionService.getCategories(),
+            () => parseMoney(this.amount, this.currency),
+            this.transaction.splits
+        );
+        this.splitEditor.render();
+
         // 账户
         new Setting(contentEl)
             .setName('Account')
             .addDropdown(dropdown => {
-                const accounts = this.transactionService.getAccounts();
+                const accounts = this.transactionService.getAccounts([this.account]);
                 accounts.forEach(account => {
                     dropdown.addOption(account, account);
                 });
@@ -86,6 +143,16 @@ export class EditTransactionModal extends Modal {
                 dropdown.onChange(value => this.account = value);
         });
 
+        // 转账的转入账户、手续费和转入金额
+        this.transferEditor = new TransferEditor(
+            contentEl.createDiv(),
+            this.transactionService.getAccounts([this.transaction.toAccount]),
+            this.transactionService.getSettings().currencies,
+            this.transaction
+        );
+        this.transferEditor.render();
+        this.updateTypeFields();
+
         // 描述
         new Setting(contentEl)
             .setName('Description')
@@ -93,6 +160,39 @@ export class EditTransactionModal extends Modal {
                 .setValue(this.description)
                 .onChange(value => this.description = value));
 
+        // 收款方
+        new Setting(contentEl)
+            .setName('Payee')
+            .addText(text => {
+                text.setValue(this.payee)
+                    .onChange(value => this.payee = value);
+                new PayeeSuggest(this.app, text.inputEl, () => this.transactionService.getPayees());
+            });
+
+        // 标签
+        new Setting(contentEl)
+            .setName('Tags')
+            .setDesc('Separate tags with spaces, e.g. #trip-japan #reimbursable')
+            .addText(text => {
+                text.setValue(this.tags)
+                    .onChange(value => this.tags = value);
+                new TagSuggest(this.app, text.inputEl, () => this.transactionService.getTags());
+            });
+
+        // 相关笔记
+        new Setting(contentEl)
+            .setName('Links')
+            .setDesc('Related notes, e.g. [[Japan Trip]] [[Alice]]')
+            .addText(text => {
+                text.setValue(this.links)
+                    .onChange(value => this.links = value);
+                new LinkSuggest(this.app, text.inputEl);
+            });
+
+        // 附件
+        this.attachmentEditor = new AttachmentEditor(this.app, contentEl.createDiv(), this.transaction.attachments);
+        this.attachmentEditor.render();
+
         // 货币
         new Setting(contentEl)
             .setName('Currency')
@@ -102,29 +202,77 @@ export class EditTransactionModal extends Modal {
                     dropdown.addOption(currency, currency);
                 });
                 dropdown.setValue(this.currency);
-                dropdown.onChange(value => this.currency = value);
+                dropdown.onChange(value => {
+                    this.currency = value;
+                    this.splitEditor?.refresh();
+                });
         });
 
+        // 对账状态
+        new Setting(contentEl)
+            .setName('Status')
+            .addDropdown(dropdown => dropdown
+                .addOption('', 'Uncleared')
+                .addOption('cleared', 'Cleared')
+                .addOption('reconciled', 'Reconciled')
+                .setValue(this.status ?? '')
+                .onChange(value => this.status = (value || undefined) as ClearedStatus | undefined));
+
+        // 转账的转入账户单独对账
+        this.toStatusEl = new Setting(contentEl)
+            .setName('Destination Status')
+            .addDropdown(dropdown => dropdown
+                .addOption('', 'Uncleared')
+                .addOption('cleared', 'Cleared')
+                .addOption('reconciled', 'Reconciled')
+                .setValue(this.toStatus ?? '')
+                .onChange(value => this.toStatus = (value || undefined) as ClearedStatus | undefined))
+            .settingEl;
+        this.updateTypeFields();
+
+        // 锁定时只能查看，解锁按钮之后的字段全部禁用
+        const fieldsEnd = contentEl.children.length;
+
         // 提交按钮
         new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Show History')
+                .onClick(() => {
+                    // 恢复到历史版本后表单中的值已过期，一并关闭
+                    new TransactionHistoryModal(this.app, this.transactionService, this.transaction.id, () => this.close()).open();
+                }))
             .addButton(button => button
                 .setButtonText('Save')
                 .setCta()
+                .setDisabled(locked)
                 .onClick(async () => {
-                    if (!this.amount || !this.category || !this.account || !this.currency) {
+                    const amount = parseMoney(this.amount, this.currency);
+                    if (!amount || !amount.minor || !this.category || !this.account || !this.currency) {
                         new Notice('Please fill in all required fields');
                         return;
                     }
                     try {
+                        // 转账不能拆分，其他类型没有转账字段
+                        const splits = this.type === 'transfer' ? undefined : this.splitEditor?.getSplits(this.currency);
+                        const transfer = this.type === 'transfer' ? this.transferEditor?.getTransfer(this.currency) : undefined;
                         const updatedTransaction: Transaction = {
                     ...this.transaction,
-                            date: new Date(this.date),
-                            amount: this.amount,
+                            date: parseLedgerDate(this.date),
+                            amount,
                             type: this.type,
-                            category: this.category,
+                            category: splits ? splits[0].category : this.category,
+                            splits,
                             account: this.account,
+                            toAccount: transfer?.toAccount,
+                            toAmount: transfer?.toAmount,
+                            fee: transfer?.fee,
                             description: this.description || undefined,
-                            currency: this.currency
+                            payee: this.payee.trim() || undefined,
+                            tags: parseTags(this.tags),
+                            links: this.getLinks(),
+                            attachments: this.attachmentEditor?.getAttachments(),
+                            status: this.status,
+                            toStatus: this.type === 'transfer' ? this.toStatus : undefined
                         };
                         await this.transactionService.updateTransaction(updatedTransaction);
                 new Notice('Transaction updated successfully');
@@ -133,6 +281,31 @@ export class EditTransactionModal extends Modal {
                 new Notice('Failed to update transaction: ' + error.message);
             }
                 }));
+
+        if (locked) {
+            this.lockFields(Array.from(contentEl.children).slice(2, fieldsEnd) as HTMLElement[]);
+        }
+    }
+
+    private lockFields(elements: HTMLElement[]): void {
+        for (const element of elements) {
+            element.querySelectorAll('input, select, textarea, button').forEach(field => {
+                (field as HTMLInputElement).disabled = true;
+            });
+        }
+    }
+
+    // 没有链接时为 undefined
+    private getLinks(): string[] | undefined {
+        const links = parseLinks(this.links);
+        return links.length > 0 ? links : undefined;
+    }
+
+    // 转账时显示转账字段并隐藏拆分
+    private updateTypeFields(): void {
+        this.splitEditor?.setVisible(this.type !== 'transfer');
+        this.transferEditor?.setVisible(this.type === 'transfer');
+        this.toStatusEl?.toggle(this.type === 'transfer');
     }
 
     onClose() {
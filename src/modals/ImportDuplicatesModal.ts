@@ -0,0 +1,77 @@
+import { App, Modal, Setting } from 'obsidian';
+import { ImportDuplicate } from '../services/ExcelService';
+import { describeTransaction } from '../utils/duplicates';
+
+/**
+ * 导入前列出与已有交易或文件中前面的行疑似重复的行，逐行选择跳过或保留（默认跳过）。
+ * 确认后以保留的行调用 onChoose；直接关闭时以 null 调用，表示取消导入。
+ */
+export class ImportDuplicatesModal extends Modal {
+    private duplicates: ImportDuplicate[];
+    private onChoose: (kept: ImportDuplicate[] | null) => void;
+    private kept: Set<ImportDuplicate> = new Set();
+    private chosen: boolean = false;
+
+    constructor(app: App, duplicates: ImportDuplicate[], onChoose: (kept: ImportDuplicate[] | null) => void) {
+        super(app);
+        this.duplicates = duplicates;
+        this.onChoose = onChoose;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('finance-modal');
+        contentEl.addClass('finance-duplicates-modal');
+
+        contentEl.createEl('h2', { text: 'Possible Duplicates' });
+        contentEl.createEl('p', {
+            text: `${this.duplicates.length} imported rows look like transactions already in the ledger or earlier in the file.`
+        });
+
+        for (const duplicate of this.duplicates) {
+            const item = contentEl.createDiv('finance-history-entry');
+            new Setting(item)
+                .setName(describeTransaction(duplicate.transaction))
+                .addDropdown(dropdown => dropdown
+                    .addOption('skip', 'Skip')
+                    .addOption('keep', 'Keep')
+                    .setValue('skip')
+                    .onChange(value => {
+                        if (value === 'keep') {
+                            this.kept.add(duplicate);
+                        } else {
+                            this.kept.delete(duplicate);
+                        }
+                    }));
+            const list = item.createEl('ul', { cls: 'finance-duplicate-matches' });
+            for (const match of duplicate.matches) {
+                list.createEl('li', { text: `Existing: ${describeTransaction(match)}` });
+            }
+            for (const match of duplicate.fileMatches) {
+                list.createEl('li', { text: `Earlier in file: ${describeTransaction(match)}` });
+            }
+        }
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Import')
+                .setCta()
+                .onClick(() => {
+                    this.chosen = true;
+                    this.onChoose(this.duplicates.filter(d => this.kept.has(d)));
+                    this.close();
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        if (!this.chosen) {
+            this.onChoose(null);
+        }
+    }
+}
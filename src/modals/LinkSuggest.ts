@@ -0,0 +1,53 @@
+import { AbstractInputSuggest, App, TFile } from 'obsidian';
+
+/**
+ * 链接输入框的自动补全：按正在输入的最后一个链接（`[[` 之后的文字）匹配库中的笔记，
+ * 选中后替换为完整的 wikilink 并保留前面已输入的链接。
+ */
+export class LinkSuggest extends AbstractInputSuggest<TFile> {
+    private inputEl: HTMLInputElement;
+
+    constructor(app: App, inputEl: HTMLInputElement) {
+        super(app, inputEl);
+        this.inputEl = inputEl;
+    }
+
+    protected getSuggestions(query: string): TFile[] {
+        const current = this.getCurrentText(query).toLowerCase();
+        if (!current) {
+            return [];
+        }
+        return this.app.vault.getMarkdownFiles()
+            .filter(file => file.basename.toLowerCase().includes(current))
+            .slice(0, 50);
+    }
+
+    renderSuggestion(file: TFile, el: HTMLElement): void {
+        el.setText(file.basename);
+        el.createEl('small', { text: ` ${file.parent?.path ?? ''}`, cls: 'finance-suggestion-note' });
+    }
+
+    selectSuggestion(file: TFile): void {
+        const value = this.inputEl.value;
+        const start = this.getCurrentStart(value);
+        const link = this.app.metadataCache.fileToLinktext(file, '');
+        this.setValue(`${value.slice(0, start)}[[${link}]] `);
+        // 通知 Setting 的 onChange 和表单读取最新的值
+        this.inputEl.dispatchEvent(new Event('input'));
+        this.close();
+    }
+
+    // 最后一个未闭合的 [[ 之后的文字，没有 [[ 时取最后一个已完成链接之后的文字
+    private getCurrentText(value: string): string {
+        return value.slice(this.getCurrentStart(value)).replace(/^\[\[/, '').trim();
+    }
+
+    private getCurrentStart(value: string): number {
+        const open = value.lastIndexOf('[[');
+        const close = value.lastIndexOf(']]');
+        if (open > close) {
+            return open;
+        }
+        return close === -1 ? 0 : close + 2;
+    }
+}
@@ -0,0 +1,186 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { NameUsage, RenameKind, RenameMode, RenamePlan, RenameService } from '../services/RenameService';
+import { formatCategoryOption, isCategoryWithin } from '../utils/categories';
+
+const MODE_LABELS: Record<RenameMode, string> = {
+    rename: 'Rename',
+    merge: 'Merge',
+    delete: 'Delete'
+};
+
+// 预览中各类记录的改动数
+function describePlan(plan: RenamePlan): string {
+    const { counts } = plan;
+    const parts = [
+        `${counts.transactions} transactions`,
+        `${counts.budgets} budgets`,
+        `${counts.recurring} recurring transactions`
+    ];
+    if (plan.kind === 'account') {
+        parts.push(`${counts.accounts} account directory entries`);
+    }
+    parts.push(`${counts.rules} rules`);
+    return `Will update ${parts.join(', ')} in ${plan.files.length} files.`;
+}
+
+/**
+ * 管理分类和账户：列出每个名称在所有年份中的引用次数，
+ * 可以改名、并入另一个名称，或把记录改到另一个名称后删除。
+ * 确认前先预览受影响的记录数，确认后由 RenameService 一次改写所有账本文件。
+ */
+export class ManageNamesModal extends Modal {
+    private renameService: RenameService;
+    private kind: RenameKind;
+    private usage: NameUsage[] = [];
+    private panelEl: HTMLElement;
+    private listEl: HTMLElement;
+
+    constructor(app: App, renameService: RenameService, kind: RenameKind = 'category') {
+        super(app);
+        this.renameService = renameService;
+        this.kind = kind;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('finance-modal');
+        contentEl.addClass('finance-manage-names-modal');
+
+        contentEl.createEl('h2', { text: 'Manage Categories and Accounts' });
+
+        new Setting(contentEl)
+            .setName('Show')
+            .addDropdown(dropdown => dropdown
+                .addOption('category', 'Categories')
+                .addOption('account', 'Accounts')
+                .setValue(this.kind)
+                .onChange(value => {
+                    this.kind = value as RenameKind;
+                    this.panelEl.empty();
+                    this.load();
+                }));
+
+        this.panelEl = contentEl.createDiv('finance-manage-names-panel');
+        this.listEl = contentEl.createDiv('finance-manage-names-list');
+        this.load();
+    }
+
+    private async load(): Promise<void> {
+        this.listEl.empty();
+        try {
+            this.usage = await this.renameService.getUsage(this.kind);
+        } catch (error) {
+            console.error('Failed to count usage:', error);
+            this.listEl.createEl('p', { text: 'Failed to count usage: ' + error.message });
+            return;
+        }
+        if (this.usage.length === 0) {
+            this.listEl.createEl('p', { text: this.kind === 'category' ? 'No categories.' : 'No accounts.' });
+            return;
+        }
+        for (const entry of this.usage) {
+            new Setting(this.listEl)
+                .setName(this.kind === 'category' ? formatCategoryOption(entry.name) : entry.name)
+                .setDesc(`${entry.transactions} transactions · ${entry.budgets} budgets · ${entry.recurring} recurring`)
+                .addExtraButton(button => button
+                    .setIcon('pencil')
+                    .setTooltip('Rename')
+                    .onClick(() => this.renderOperation('rename', entry)))
+                .addExtraButton(button => button
+                    .setIcon('git-merge')
+                    .setTooltip('Merge into another')
+                    .onClick(() => this.renderOperation('merge', entry)))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Delete and reassign')
+                    .onClick(() => this.renderOperation('delete', entry)));
+        }
+    }
+
+    // 在列表上方显示所选操作的表单，预览后才能应用
+    private renderOperation(mode: RenameMode, entry: NameUsage): void {
+        const panel = this.panelEl;
+        panel.empty();
+        panel.createEl('h3', { text: `${MODE_LABELS[mode]} ${entry.name}` });
+
+        let target = mode === 'rename' ? entry.name : '';
+        let plan: RenamePlan | null = null;
+        let applyButton: HTMLButtonElement;
+        const previewEl = panel.createDiv('finance-manage-names-preview');
+        const invalidate = () => {
+            plan = null;
+            previewEl.empty();
+            applyButton.disabled = true;
+        };
+
+        const setting = new Setting(panel);
+        if (mode === 'rename') {
+            setting.setName('New name')
+                .setDesc(this.kind === 'category' ? 'Subcategories are renamed along with it' : '')
+                .addText(text => text
+                    .setValue(target)
+                    .onChange(value => {
+                        target = value;
+                        invalidate();
+                    }));
+        } else {
+            // 不能并入自己或自己的下级
+            const others = this.usage
+                .map(u => u.name)
+                .filter(name => this.kind === 'category' ? !isCategoryWithin(name, entry.name) : name !== entry.name);
+            setting.setName(mode === 'merge' ? 'Merge into' : 'Move records to')
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', mode === 'delete' ? '(none, only when unused)' : '');
+                    others.forEach(name => dropdown.addOption(name, this.kind === 'category' ? formatCategoryOption(name) : name));
+                    dropdown.onChange(value => {
+                        target = value;
+                        invalidate();
+                    });
+                });
+        }
+
+        new Setting(panel)
+            .addButton(button => button
+                .setButtonText('Preview')
+                .onClick(async () => {
+                    invalidate();
+                    try {
+                        plan = await this.renameService.planRename(this.kind, mode, entry.name, target);
+                    } catch (error) {
+                        previewEl.createEl('p', { text: error.message, cls: 'finance-manage-names-error' });
+                        return;
+                    }
+                    previewEl.createEl('p', { text: describePlan(plan) });
+                    applyButton.disabled = false;
+                }))
+            .addButton(button => {
+                button.setButtonText(MODE_LABELS[mode])
+                    .setCta()
+                    .onClick(async () => {
+                        if (!plan) {
+                            return;
+                        }
+                        try {
+                            await this.renameService.applyRename(plan);
+                            new Notice(`${MODE_LABELS[mode]}: ${entry.name}${plan.to ? ` → ${plan.to}` : ''}`);
+                            panel.empty();
+                            this.load();
+                        } catch (error) {
+                            new Notice(`Failed to ${mode} ${entry.name}: ` + error.message);
+                            invalidate();
+                        }
+                    });
+                applyButton = button.buttonEl;
+                applyButton.disabled = true;
+            })
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => panel.empty()));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
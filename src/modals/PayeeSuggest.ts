@@ -0,0 +1,31 @@
+import { AbstractInputSuggest, App } from 'obsidian';
+
+/**
+ * 收款方输入框的自动补全：匹配商户目录中的商户和已使用过的收款方。
+ */
+export class PayeeSuggest extends AbstractInputSuggest<string> {
+    private inputEl: HTMLInputElement;
+    private getPayees: () => string[];
+
+    constructor(app: App, inputEl: HTMLInputElement, getPayees: () => string[]) {
+        super(app, inputEl);
+        this.inputEl = inputEl;
+        this.getPayees = getPayees;
+    }
+
+    protected getSuggestions(query: string): string[] {
+        const current = query.trim().toLowerCase();
+        return this.getPayees().filter(payee => payee.toLowerCase().includes(current));
+    }
+
+    renderSuggestion(payee: string, el: HTMLElement): void {
+        el.setText(payee);
+    }
+
+    selectSuggestion(payee: string): void {
+        this.setValue(payee);
+        // 通知 Setting 的 onChange 和表单读取最新的值
+        this.inputEl.dispatchEvent(new Event('input'));
+        this.close();
+    }
+}
@@ -0,0 +1,238 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { format } from 'date-fns';
+import { AccountService } from '../services/AccountService';
+import { Reconciliation, TransactionService } from '../services/TransactionService';
+import { parseLedgerDate } from '../services/LedgerSchemas';
+import { Money } from '../types/Money';
+import { Transaction } from '../types/Transaction';
+import { formatMoney, parseMoney, subtractMoney, sumMoney } from '../utils/money';
+import { getAccountAmount, getPostingStatus } from '../utils/reconciliation';
+
+/**
+ * 按对账单对账：选择账户、对账单日期和期末余额，逐条勾选对账单上出现的交易，
+ * 已对账余额加上勾选的交易与期末余额之差为 0 时可以完成对账，勾选的交易被锁定。
+ * 未完成时可以保存进度，勾选的交易标记为已核对。
+ */
+export class ReconcileModal extends Modal {
+    private transactionService: TransactionService;
+    private accountService: AccountService;
+    private account: string;
+    private currency: string;
+    private statementDate: string = format(new Date(), 'yyyy-MM-dd');
+    private statementBalance: string = '';
+    private reconciliation: Reconciliation | null = null;
+    private ticked: Set<string> = new Set();
+    private listEl: HTMLElement;
+    private summaryEl: HTMLElement;
+    private finishButton: HTMLButtonElement | null = null;
+
+    constructor(app: App, transactionService: TransactionService, accountService: AccountService, account?: string) {
+        super(app);
+        this.transactionService = transactionService;
+        this.accountService = accountService;
+        this.account = account ?? transactionService.getAccounts()[0] ?? '';
+        this.currency = this.getAccountCurrency();
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('finance-modal');
+        contentEl.addClass('finance-reconcile-modal');
+
+        contentEl.createEl('h2', { text: 'Reconcile Account' });
+
+        const currencies = this.transactionService.getSettings().currencies;
+        new Setting(contentEl)
+            .setName('Account')
+            .addDropdown(dropdown => {
+                this.transactionService.getAccounts([this.account]).forEach(account => dropdown.addOption(account, account));
+                dropdown.setValue(this.account);
+                dropdown.onChange(value => {
+                    this.account = value;
+                    this.currency = this.getAccountCurrency();
+                    this.onOpen();
+                });
+            })
+            .addDropdown(dropdown => {
+                currencies.forEach(currency => dropdown.addOption(currency, currency));
+                if (!currencies.includes(this.currency)) {
+                    dropdown.addOption(this.currency, this.currency);
+                }
+                dropdown.setValue(this.currency);
+                dropdown.onChange(value => {
+                    this.currency = value;
+                    this.load();
+                });
+            });
+
+        new Setting(contentEl)
+            .setName('Statement Date')
+            .addText(text => {
+                text.setValue(this.statementDate)
+                    .onChange(value => {
+                        this.statementDate = value;
+                        this.load();
+                    });
+                text.inputEl.setAttribute('type', 'date');
+            });
+
+        new Setting(contentEl)
+            .setName('Statement Balance')
+            .setDesc('Ending balance on the statement; negative for money owed, e.g. a credit card')
+            .addText(text => {
+                text.setValue(this.statementBalance)
+                    .onChange(value => {
+                        this.statementBalance = value;
+                        this.updateSummary();
+                    });
+                text.inputEl.setAttribute('type', 'number');
+                text.inputEl.setAttribute('step', 'any');
+            });
+
+        this.summaryEl = contentEl.createDiv('finance-reconcile-summary');
+        this.listEl = contentEl.createDiv('finance-reconcile-list');
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Save Progress')
+                .setTooltip('Mark ticked transactions as cleared')
+                .onClick(() => this.save(false)))
+            .addButton(button => {
+                button.setButtonText('Finish')
+                    .setTooltip('Lock ticked transactions as reconciled')
+                    .setCta()
+                    .onClick(() => this.save(true));
+                this.finishButton = button.buttonEl;
+            });
+
+        this.load();
+    }
+
+    // 账户目录中的账户使用其货币，否则使用默认货币
+    private getAccountCurrency(): string {
+        return this.accountService.getAccount(this.account)?.currency
+            ?? this.transactionService.getSettings().defaultCurrency;
+    }
+
+    private async load(): Promise<void> {
+        const endDate = parseLedgerDate(this.statementDate);
+        if (!this.account || isNaN(endDate.getTime())) {
+            this.reconciliation = null;
+            this.renderList();
+            return;
+        }
+        endDate.setHours(23, 59, 59, 999);
+        try {
+            this.reconciliation = await this.transactionService.getReconciliation(this.account, this.currency, endDate);
+        } catch (error) {
+            console.error('Failed to load reconciliation:', error);
+            new Notice('Failed to load transactions: ' + error.message);
+            this.reconciliation = null;
+        }
+        // 已核对的交易默认勾选
+        this.ticked = new Set((this.reconciliation?.transactions ?? [])
+            .filter(t => getPostingStatus(t, this.account, this.currency) === 'cleared')
+            .map(t => t.id));
+        this.renderList();
+    }
+
+    private renderList(): void {
+        this.listEl.empty();
+        const transactions = this.reconciliation?.transactions ?? [];
+        if (transactions.length === 0) {
+            this.listEl.createEl('p', { text: 'No unreconciled transactions up to the statement date.' });
+        }
+        for (const transaction of transactions) {
+            this.renderTransaction(transaction);
+        }
+        const inline = this.reconciliation?.inlineTransactions.length ?? 0;
+        if (inline > 0) {
+            this.listEl.createEl('p', {
+                text: `${inline} inline transactions in notes cannot be reconciled and are left out.`,
+                cls: 'finance-reconcile-hint'
+            });
+        }
+        this.updateSummary();
+    }
+
+    private renderTransaction(transaction: Transaction): void {
+        const amount = getAccountAmount(transaction, this.account, this.currency);
+        new Setting(this.listEl)
+            .setName(`${format(transaction.date, 'yyyy-MM-dd')} · ${formatMoney(amount)}`)
+            .setDesc([transaction.payee, transaction.description].filter(Boolean).join(' · '))
+            .addToggle(toggle => toggle
+                .setValue(this.ticked.has(transaction.id))
+                .onChange(value => {
+                    if (value) {
+                        this.ticked.add(transaction.id);
+                    } else {
+                        this.ticked.delete(transaction.id);
+                    }
+                    this.updateSummary();
+                }));
+    }
+
+    // 已对账余额加上勾选的交易，与对账单余额之差
+    private getDifference(): { cleared: Money; difference: Money | null } | null {
+        if (!this.reconciliation) {
+            return null;
+        }
+        const cleared = sumMoney([
+            this.reconciliation.reconciledBalance,
+            ...this.reconciliation.transactions
+                .filter(t => this.ticked.has(t.id))
+                .map(t => getAccountAmount(t, this.account, this.currency))
+        ], this.currency);
+        const statement = parseMoney(this.statementBalance, this.currency);
+        return { cleared, difference: statement ? subtractMoney(statement, cleared) : null };
+    }
+
+    private updateSummary(): void {
+        this.summaryEl.empty();
+        const result = this.getDifference();
+        if (this.finishButton) {
+            this.finishButton.disabled = !result?.difference || result.difference.minor !== 0;
+        }
+        if (!result) {
+            return;
+        }
+        const { cleared, difference } = result;
+        this.summaryEl.createDiv({ text: `Cleared balance: ${formatMoney(cleared)} ${this.currency}` });
+        const differenceEl = this.summaryEl.createDiv({
+            text: difference ? `Difference: ${formatMoney(difference)} ${this.currency}` : 'Enter the statement balance'
+        });
+        if (difference) {
+            differenceEl.addClass(difference.minor === 0 ? 'finance-reconcile-balanced' : 'finance-reconcile-unbalanced');
+        }
+    }
+
+    private async save(finish: boolean): Promise<void> {
+        if (!this.reconciliation) {
+            return;
+        }
+        if (finish && this.getDifference()?.difference?.minor !== 0) {
+            new Notice('The cleared balance does not match the statement balance');
+            return;
+        }
+        const transactions = this.reconciliation.transactions;
+        try {
+            await this.transactionService.saveReconciliation(
+                this.account,
+                this.currency,
+                transactions.filter(t => this.ticked.has(t.id)),
+                transactions.filter(t => !this.ticked.has(t.id)),
+                finish
+            );
+            new Notice(finish ? 'Account reconciled' : 'Reconciliation progress saved');
+            this.close();
+        } catch (error) {
+            new Notice('Failed to save reconciliation: ' + error.message);
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
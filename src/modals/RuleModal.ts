@@ -0,0 +1,192 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { TransactionRule } from '../types/TransactionRule';
+import { compilePattern } from '../utils/merchants';
+import { parseMoney } from '../utils/money';
+import { formatTags, parseTags } from '../utils/tags';
+import { TagSuggest } from './TagSuggest';
+import { formatCategoryOption } from '../utils/categories';
+
+// 添加或编辑一条自动分类规则，保存时交给 onSave 写入设置
+export class RuleModal extends Modal {
+    private rule: TransactionRule;
+    private isNew: boolean;
+    private categories: string[];
+    private accounts: string[];
+    private currencies: string[];
+    private getTags: () => string[];
+    private onSave: (rule: TransactionRule) => Promise<void>;
+    private tags: string;
+
+    constructor(
+        app: App,
+        options: { categories: string[]; accounts: string[]; currencies: string[]; getTags: () => string[] },
+        rule: TransactionRule | undefined,
+        onSave: (rule: TransactionRule) => Promise<void>
+    ) {
+        super(app);
+        this.categories = options.categories;
+        this.accounts = options.accounts;
+        this.currencies = options.currencies;
+        this.getTags = options.getTags;
+        this.onSave = onSave;
+        this.isNew = !rule;
+        this.rule = rule
+            ? { ...rule, conditions: { ...rule.conditions }, actions: { ...rule.actions } }
+            : { id: crypto.randomUUID(), name: '', enabled: true, conditions: {}, actions: {} };
+        this.tags = formatTags(this.rule.actions.tags ?? []);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const { conditions, actions } = this.rule;
+        contentEl.empty();
+        contentEl.addClass('finance-modal');
+
+        contentEl.createEl('h2', { text: this.isNew ? 'Add Rule' : 'Edit Rule' });
+
+        new Setting(contentEl)
+            .setName('Name')
+            .addText(text => text
+                .setValue(this.rule.name)
+                .onChange(value => this.rule.name = value));
+
+        // 条件
+        contentEl.createEl('h3', { text: 'When' });
+
+        new Setting(contentEl)
+            .setName('Description')
+            .setDesc('Case-insensitive regular expression, plain text matches anywhere')
+            .addText(text => text
+                .setValue(conditions.description ?? '')
+                .onChange(value => conditions.description = value || undefined));
+
+        new Setting(contentEl)
+            .setName('Payee')
+            .setDesc('Case-insensitive regular expression, plain text matches anywhere')
+            .addText(text => text
+                .setValue(conditions.payee ?? '')
+                .onChange(value => conditions.payee = value || undefined));
+
+        new Setting(contentEl)
+            .setName('Amount')
+            .setDesc('Minimum and maximum, both inclusive')
+            .addText(text => {
+                text.setPlaceholder('Min')
+                    .setValue(conditions.minAmount ?? '')
+                    .onChange(value => conditions.minAmount = value || undefined);
+                text.inputEl.setAttribute('type', 'number');
+                text.inputEl.setAttribute('step', 'any');
+            })
+            .addText(text => {
+                text.setPlaceholder('Max')
+                    .setValue(conditions.maxAmount ?? '')
+                    .onChange(value => conditions.maxAmount = value || undefined);
+                text.inputEl.setAttribute('type', 'number');
+                text.inputEl.setAttribute('step', 'any');
+            });
+
+        new Setting(contentEl)
+            .setName('Account')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'Any');
+                this.accounts.forEach(account => dropdown.addOption(account, account));
+                dropdown.setValue(conditions.account ?? '');
+                dropdown.onChange(value => conditions.account = value || undefined);
+            });
+
+        new Setting(contentEl)
+            .setName('Currency')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'Any');
+                this.currencies.forEach(currency => dropdown.addOption(currency, currency));
+                dropdown.setValue(conditions.currency ?? '');
+                dropdown.onChange(value => conditions.currency = value || undefined);
+            });
+
+        // 动作
+        contentEl.createEl('h3', { text: 'Then' });
+
+        new Setting(contentEl)
+            .setName('Set Category')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'Keep');
+                this.categories.forEach(category => dropdown.addOption(category, formatCategoryOption(category)));
+                dropdown.setValue(actions.category ?? '');
+                dropdown.onChange(value => actions.category = value || undefined);
+            });
+
+        new Setting(contentEl)
+            .setName('Add Tags')
+            .addText(text => {
+                text.setValue(this.tags)
+                    .onChange(value => this.tags = value);
+                new TagSuggest(this.app, text.inputEl, this.getTags);
+            });
+
+        new Setting(contentEl)
+            .setName('Set Account')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'Keep');
+                this.accounts.forEach(account => dropdown.addOption(account, account));
+                dropdown.setValue(actions.account ?? '');
+                dropdown.onChange(value => actions.account = value || undefined);
+            });
+
+        new Setting(contentEl)
+            .setName('Set Type')
+            .addDropdown(dropdown => dropdown
+                .addOption('', 'Keep')
+                .addOption('income', 'Income')
+                .addOption('expense', 'Expense')
+                .setValue(actions.type ?? '')
+                .onChange(value => actions.type = (value || undefined) as TransactionRule['actions']['type']));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Save')
+                .setCta()
+                .onClick(async () => {
+                    const error = this.getError();
+                    if (error) {
+                        new Notice(error);
+                        return;
+                    }
+                    const tags = parseTags(this.tags);
+                    actions.tags = tags.length > 0 ? tags : undefined;
+                    try {
+                        await this.onSave(this.rule);
+                        this.close();
+                    } catch (error) {
+                        new Notice('Failed to save rule: ' + error.message);
+                    }
+                }));
+    }
+
+    // 表单无法保存时返回错误信息
+    private getError(): string | null {
+        const { conditions, actions } = this.rule;
+        if (!this.rule.name.trim()) {
+            return 'Please enter a name';
+        }
+        for (const pattern of [conditions.description, conditions.payee]) {
+            if (pattern && !compilePattern(pattern)) {
+                return `Invalid pattern: ${pattern}`;
+            }
+        }
+        for (const amount of [conditions.minAmount, conditions.maxAmount]) {
+            // 只检查格式，比较时按交易的货币解析
+            if (amount && !parseMoney(amount, 'USD')) {
+                return `Invalid amount: ${amount}`;
+            }
+        }
+        if (!actions.category && !actions.account && !actions.type && parseTags(this.tags).length === 0) {
+            return 'Please choose at least one action';
+        }
+        return null;
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,116 @@
+import { Setting } from 'obsidian';
+import { Money } from '../types/Money';
+import { TransactionSplit } from '../types/Transaction';
+import { formatMoney, parseMoney, requireMoney, subtractMoney, sumMoney } from '../utils/money';
+import { formatCategoryOption } from '../utils/categories';
+
+interface SplitRow {
+    category: string;
+    amount: string;
+}
+
+/**
+ * 添加和编辑交易时的拆分区域：每行一个分类和金额，并显示尚未分配的金额。
+ * 没有拆分行时交易只有一个分类。
+ */
+export class SplitEditor {
+    private containerEl: HTMLElement;
+    private categories: string[];
+    private getAmount: () => Money | null;
+    private rows: SplitRow[];
+    private remainingEl: HTMLElement | null = null;
+
+    constructor(containerEl: HTMLElement, categories: string[], getAmount: () => Money | null, splits: TransactionSplit[] = []) {
+        this.containerEl = containerEl;
+        this.categories = categories;
+        this.getAmount = getAmount;
+        this.rows = splits.map(split => ({ category: split.category, amount: formatMoney(split.amount) }));
+        this.containerEl.addClass('finance-split-editor');
+    }
+
+    render(): void {
+        this.containerEl.empty();
+        new Setting(this.containerEl)
+            .setName('Splits')
+            .setDesc('Split this transaction across several categories')
+            .addButton(button => button
+                .setButtonText('Add Split')
+                .onClick(() => this.addRow()));
+
+        this.rows.forEach((row, index) => {
+            new Setting(this.containerEl)
+                .setClass('finance-split-row')
+                .addDropdown(dropdown => {
+                    this.categories.forEach(category => dropdown.addOption(category, formatCategoryOption(category)));
+                    dropdown.setValue(row.category);
+                    dropdown.onChange(value => row.category = value);
+                })
+                .addText(text => {
+                    text.setPlaceholder('Amount')
+                        .setValue(row.amount)
+                        .onChange(value => {
+                            row.amount = value;
+                            this.refresh();
+                        });
+                    text.inputEl.setAttribute('type', 'number');
+                    text.inputEl.setAttribute('step', 'any');
+                })
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove split')
+                    .onClick(() => {
+                        this.rows.splice(index, 1);
+                        this.render();
+                    }));
+        });
+
+        this.remainingEl = this.rows.length > 0 ? this.containerEl.createDiv('finance-split-remaining') : null;
+        this.refresh();
+    }
+
+    setVisible(visible: boolean): void {
+        this.containerEl.toggle(visible);
+    }
+
+    // 交易金额或拆分金额变化后更新未分配金额
+    refresh(): void {
+        if (!this.remainingEl) {
+            return;
+        }
+        const remaining = this.getRemaining();
+        this.remainingEl.setText(remaining ? `Remaining: ${formatMoney(remaining)}` : '');
+        this.remainingEl.toggleClass('is-unbalanced', !!remaining && remaining.minor !== 0);
+    }
+
+    // 没有拆分行时返回 undefined；金额无法解析时抛出错误
+    getSplits(currency: string): TransactionSplit[] | undefined {
+        if (this.rows.length === 0) {
+            return undefined;
+        }
+        return this.rows.map(row => ({
+            category: row.category,
+            amount: requireMoney(row.amount, currency)
+        }));
+    }
+
+    // 新的一行默认填入尚未分配的金额
+    private addRow(): void {
+        const remaining = this.getRemaining();
+        this.rows.push({
+            category: this.categories[0] ?? '',
+            amount: remaining && remaining.minor > 0 ? formatMoney(remaining) : ''
+        });
+        this.render();
+    }
+
+    private getRemaining(): Money | null {
+        const amount = this.getAmount();
+        if (!amount) {
+            return null;
+        }
+        const splits = this.rows
+            .map(row => parseMoney(row.amount, amount.currency))
+            .filter((money): money is Money => money !== null);
+        return subtractMoney(amount, sumMoney(splits, amount.currency));
+    }
+}
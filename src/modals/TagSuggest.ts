@@ -0,0 +1,38 @@
+import { AbstractInputSuggest, App } from 'obsidian';
+import { parseTags } from '../utils/tags';
+
+/**
+ * 标签输入框的自动补全：按正在输入的最后一个标签匹配已有标签，
+ * 选中后替换该标签并保留前面已输入的标签。
+ */
+export class TagSuggest extends AbstractInputSuggest<string> {
+    private inputEl: HTMLInputElement;
+    private getTags: () => string[];
+
+    constructor(app: App, inputEl: HTMLInputElement, getTags: () => string[]) {
+        super(app, inputEl);
+        this.inputEl = inputEl;
+        this.getTags = getTags;
+    }
+
+    protected getSuggestions(query: string): string[] {
+        const current = (query.split(/[\s,]+/).pop() ?? '').replace(/^#/, '').toLowerCase();
+        const entered = parseTags(query);
+        return this.getTags().filter(tag =>
+            !entered.includes(tag) && tag.toLowerCase().includes(current)
+        );
+    }
+
+    renderSuggestion(tag: string, el: HTMLElement): void {
+        el.setText(`#${tag}`);
+    }
+
+    selectSuggestion(tag: string): void {
+        const parts = this.inputEl.value.split(/\s+/);
+        parts[parts.length - 1] = `#${tag}`;
+        this.setValue(`${parts.join(' ')} `);
+        // 通知 Setting 的 onChange 和表单读取最新的值
+        this.inputEl.dispatchEvent(new Event('input'));
+        this.close();
+    }
+}
@@ -0,0 +1,82 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { format } from 'date-fns';
+import { TransactionService } from '../services/TransactionService';
+import { ChangeEntry } from '../types/ChangeEntry';
+
+export class TransactionHistoryModal extends Modal {
+    private transactionService: TransactionService;
+    private transactionId: string;
+    private onRevert: () => void;
+
+    constructor(app: App, transactionService: TransactionService, transactionId: string, onRevert: () => void) {
+        super(app);
+        this.transactionService = transactionService;
+        this.transactionId = transactionId;
+        this.onRevert = onRevert;
+    }
+
+    async onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('finance-modal');
+        contentEl.addClass('finance-history-modal');
+
+        contentEl.createEl('h2', { text: 'Transaction History' });
+
+        let changes: ChangeEntry[];
+        try {
+            changes = await this.transactionService.getTransactionHistory(this.transactionId);
+        } catch (error) {
+            console.error('Failed to load transaction history:', error);
+            contentEl.createEl('p', { text: 'Failed to load history: ' + error.message });
+            return;
+        }
+        if (changes.length === 0) {
+            contentEl.createEl('p', { text: 'No changes have been recorded for this transaction.' });
+            return;
+        }
+
+        // 最新的修改在最上面
+        for (const change of [...changes].reverse()) {
+            this.renderChange(contentEl, change);
+        }
+    }
+
+    private renderChange(container: HTMLElement, change: ChangeEntry): void {
+        const item = container.createDiv('finance-history-entry');
+        new Setting(item)
+            .setName(`${format(change.at, 'yyyy-MM-dd HH:mm:ss')} · ${change.action}`)
+            .addButton(button => button
+                .setButtonText('Revert to this version')
+                .onClick(async () => {
+                    try {
+                        await this.transactionService.revertTransaction(this.transactionId, change.id);
+                        new Notice('Transaction reverted');
+                        this.close();
+                        this.onRevert();
+                    } catch (error) {
+                        new Notice('Failed to revert transaction: ' + error.message);
+                    }
+                }));
+
+        const list = item.createEl('ul', { cls: 'finance-history-changes' });
+        for (const { field, before, after } of change.changes) {
+            const row = list.createEl('li');
+            row.createEl('strong', { text: `${field}: ` });
+            if (before !== undefined) {
+                row.createEl('del', { text: before });
+            }
+            if (before !== undefined && after !== undefined) {
+                row.appendText(' → ');
+            }
+            if (after !== undefined) {
+                row.createEl('ins', { text: after });
+            }
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
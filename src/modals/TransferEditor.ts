@@ -0,0 +1,80 @@
+import { Setting } from 'obsidian';
+import { Transaction } from '../types/Transaction';
+import { formatMoney, requireMoney } from '../utils/money';
+
+/**
+ * 转账的附加字段：转入账户、手续费，以及跨币种转账时转入账户收到的金额。
+ * 只在交易类型为转账时显示。
+ */
+export class TransferEditor {
+    private containerEl: HTMLElement;
+    private accounts: string[];
+    private currencies: string[];
+    private toAccount: string;
+    private toAmount: string;
+    private toCurrency: string;
+    private fee: string;
+
+    constructor(containerEl: HTMLElement, accounts: string[], currencies: string[], transaction?: Transaction) {
+        this.containerEl = containerEl;
+        this.accounts = accounts;
+        this.currencies = currencies;
+        this.toAccount = transaction?.toAccount ?? accounts[0] ?? '';
+        this.toAmount = transaction?.toAmount ? formatMoney(transaction.toAmount) : '';
+        this.toCurrency = transaction?.toAmount?.currency ?? '';
+        this.fee = transaction?.fee ? formatMoney(transaction.fee) : '';
+        this.containerEl.addClass('finance-transfer-editor');
+    }
+
+    render(): void {
+        this.containerEl.empty();
+
+        new Setting(this.containerEl)
+            .setName('To Account')
+            .addDropdown(dropdown => {
+                this.accounts.forEach(account => dropdown.addOption(account, account));
+                dropdown.setValue(this.toAccount);
+                dropdown.onChange(value => this.toAccount = value);
+            });
+
+        new Setting(this.containerEl)
+            .setName('Fee')
+            .setDesc('Charged to the source account')
+            .addText(text => {
+                text.setValue(this.fee)
+                    .onChange(value => this.fee = value);
+                text.inputEl.setAttribute('type', 'number');
+                text.inputEl.setAttribute('step', 'any');
+            });
+
+        new Setting(this.containerEl)
+            .setName('Received Amount')
+            .setDesc('Only for transfers between currencies')
+            .addText(text => {
+                text.setValue(this.toAmount)
+                    .onChange(value => this.toAmount = value);
+                text.inputEl.setAttribute('type', 'number');
+                text.inputEl.setAttribute('step', 'any');
+            })
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'Same currency');
+                this.currencies.forEach(currency => dropdown.addOption(currency, currency));
+                dropdown.setValue(this.toCurrency);
+                dropdown.onChange(value => this.toCurrency = value);
+            });
+    }
+
+    setVisible(visible: boolean): void {
+        this.containerEl.toggle(visible);
+    }
+
+    // 转账字段，金额无法解析时抛出错误
+    getTransfer(currency: string): Pick<Transaction, 'toAccount' | 'toAmount' | 'fee'> {
+        const fee = this.fee ? requireMoney(this.fee, currency) : undefined;
+        return {
+            toAccount: this.toAccount,
+            toAmount: this.toAmount ? requireMoney(this.toAmount, this.toCurrency || currency) : undefined,
+            fee: fee && fee.minor !== 0 ? fee : undefined
+        };
+    }
+}
@@ -0,0 +1,150 @@
+import { App, TFile } from 'obsidian';
+import { FinanceSettings } from '../settings';
+import { Account, BalanceSnapshot } from '../types/Account';
+import { EventBus, EVENT_TYPES } from './EventBus';
+import { ACCOUNT_SCHEMA, BALANCE_SNAPSHOT_SCHEMA, addRecord, parseRecords, removeRecord, updateRecord } from './LedgerSchemas';
+import { withCurrentFormat } from './MigrationService';
+import { WriteQueue } from './WriteQueue';
+
+export const ACCOUNTS_FILE_NAME = 'accounts.finance.md';
+
+/**
+ * 账户目录：以区块格式保存在 `<financeFilePath>/accounts.finance.md`，可以直接手工编辑。
+ * 记录账户的类型、货币和期初余额；交易仍按名称引用账户。
+ * 账户不删除只归档，以免历史交易引用的账户消失。
+ * 同一文件中还保存手工记录的余额，用于房产、养老金等没有逐笔交易的账户。
+ */
+export class AccountService {
+    private app: App;
+    private settings: FinanceSettings;
+    private writes: WriteQueue;
+    private eventBus: EventBus;
+    private accounts: Account[] = [];
+    private snapshots: BalanceSnapshot[] = [];
+
+    constructor(app: App, settings: FinanceSettings) {
+        this.app = app;
+        this.settings = settings;
+        this.eventBus = EventBus.getInstance();
+        this.writes = new WriteQueue(app, async file => {
+            await this.load(file);
+            this.eventBus.emit(EVENT_TYPES.ACCOUNT_CHANGED);
+        });
+    }
+
+    async initialize(): Promise<void> {
+        try {
+            await this.load(this.getFile());
+        } catch (error) {
+            console.error('Failed to load accounts:', error);
+        }
+    }
+
+    // 账户文件被外部修改时重新加载，返回是否为账户文件
+    async handleFileChange(path: string): Promise<boolean> {
+        if (path !== this.getFilePath()) {
+            return false;
+        }
+        await this.load(this.getFile());
+        this.eventBus.emit(EVENT_TYPES.ACCOUNT_CHANGED);
+        return true;
+    }
+
+    getFilePath(): string {
+        return `${this.settings.financeFilePath}/${ACCOUNTS_FILE_NAME}`;
+    }
+
+    // 按名称排序；includeArchived 为 false 时不包含归档的账户
+    getAccounts(includeArchived: boolean = true): Account[] {
+        return this.accounts
+            .filter(account => includeArchived || !account.archived)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    getAccount(name: string): Account | undefined {
+        return this.accounts.find(account => account.name === name);
+    }
+
+    async addAccount(account: Omit<Account, 'id'>): Promise<Account> {
+        if (this.getAccount(account.name)) {
+            throw new Error(`Account ${account.name} already exists`);
+        }
+        const newAccount: Account = { ...account, id: crypto.randomUUID() };
+        const file = await this.getOrCreateFile();
+        await this.writes.enqueue(file, content => addRecord(content, ACCOUNT_SCHEMA, newAccount));
+        return newAccount;
+    }
+
+    // 账户名称被交易引用，这里不允许改名
+    async updateAccount(account: Account): Promise<Account> {
+        const file = this.getFile();
+        const existing = this.accounts.find(a => a.id === account.id);
+        if (!file || !existing) {
+            throw new Error('Account not found');
+        }
+        if (existing.name !== account.name) {
+            throw new Error('Accounts cannot be renamed here');
+        }
+        await this.writes.enqueue(file, content => updateRecord(content, ACCOUNT_SCHEMA, account));
+        return account;
+    }
+
+    async setArchived(id: string, archived: boolean): Promise<Account> {
+        const account = this.accounts.find(a => a.id === id);
+        if (!account) {
+            throw new Error('Account not found');
+        }
+        return this.updateAccount({ ...account, archived });
+    }
+
+    // 按日期排序；指定 account 时只返回该账户的余额记录
+    getSnapshots(account?: string): BalanceSnapshot[] {
+        return this.snapshots
+            .filter(snapshot => !account || snapshot.account === account)
+            .sort((a, b) => a.date.getTime() - b.date.getTime());
+    }
+
+    async addSnapshot(snapshot: Omit<BalanceSnapshot, 'id'>): Promise<BalanceSnapshot> {
+        const newSnapshot: BalanceSnapshot = { ...snapshot, id: crypto.randomUUID() };
+        const file = await this.getOrCreateFile();
+        await this.writes.enqueue(file, content => addRecord(content, BALANCE_SNAPSHOT_SCHEMA, newSnapshot));
+        return newSnapshot;
+    }
+
+    async removeSnapshot(id: string): Promise<void> {
+        const file = this.getFile();
+        if (!file || !this.snapshots.some(snapshot => snapshot.id === id)) {
+            throw new Error('Balance snapshot not found');
+        }
+        await this.writes.enqueue(file, content => removeRecord(content, BALANCE_SNAPSHOT_SCHEMA, id));
+    }
+
+    // 经写入队列改写账户文件，用于账户改名等批量修改
+    async modifyFile(file: TFile, mutate: (content: string) => string): Promise<void> {
+        await this.writes.enqueue(file, mutate);
+    }
+
+    private async load(file: TFile | null): Promise<void> {
+        const content = file ? await this.app.vault.read(file) : '';
+        this.accounts = parseRecords(content, ACCOUNT_SCHEMA, this.settings);
+        this.snapshots = parseRecords(content, BALANCE_SNAPSHOT_SCHEMA, this.settings);
+    }
+
+    private getFile(): TFile | null {
+        const file = this.app.vault.getAbstractFileByPath(this.getFilePath());
+        return file instanceof TFile ? file : null;
+    }
+
+    private async getOrCreateFile(): Promise<TFile> {
+        const file = this.getFile();
+        if (file) {
+            return file;
+        }
+        try {
+            await this.app.vault.createFolder(this.settings.financeFilePath);
+        } catch (error) {
+            // 目录可能已存在，忽略错误
+        }
+        return await this.app.vault.create(this.getFilePath(), withCurrentFormat('# Accounts\n\n'));
+    }
+}
@@ -2,11 +2,19 @@ import { App, TFile } from 'obsidian';
 import { format, parse, startOfMonth, endOfMonth } from 'date-fns';
 import { FinanceSettings } from '../settings';
 import { Budget } from '../types/Budget';
+import { Money } from '../types/Money';
+import { subtractMoney, zeroMoney } from '../utils/money';
+import { EventBus, EVENT_TYPES } from './EventBus';
+import { LedgerIndex } from './LedgerIndex';
+import { HistoryService } from './HistoryService';
+import { TrashService } from './TrashService';
+import { withCurrentFormat } from './MigrationService';
+import { BUDGET_SCHEMA, addRecord, hasRecord, parseRecords, removeRecord, updateRecord } from './LedgerSchemas';
 
 interface BudgetStatus {
     budget: Budget;
-    spent: number;
-    remaining: number;
+    spent: Money;
+    remaining: Money;
     percentage: number;
 }
 
@@ -17,17 +25,26 @@ interface BudgetQuery {
 export class BudgetService {
     private app: App;
     private settings: FinanceSettings;
-    private budgets: Budget[] = [];
+    private ledger: LedgerIndex<Budget>;
     private initialized: boolean = false;
+    private eventBus: EventBus;
+    private history: HistoryService;
+    private trash: TrashService;
 
-    constructor(app: App, settings: FinanceSettings) {
+    constructor(app: App, settings: FinanceSettings, history: HistoryService, trash: TrashService) {
         this.app = app;
         this.settings = settings;
+        this.history = history;
+        this.trash = trash;
+        this.eventBus = EventBus.getInstance();
+        this.ledger = new LedgerIndex(app, settings, 'budgets.finance.md',
+            content => parseRecords(content, BUDGET_SCHEMA, settings));
     }
 
     async initialize(): Promise<void> {
         try {
             const { vault } = this.app;
+            await this.ledger.relocateLegacyFiles();
             const currentYear = new Date().getFullYear();
             const yearPath = `${this.settings.financeFilePath}/${currentYear}`;
 
@@ -47,7 +64,7 @@ export class BudgetService {
 
             // 加载预算数据
             if (!this.initialized) {
-                await this.loadBudgets();
+                await this.ledger.load([currentYear]);
                 this.initialized = true;
             }
         } catch (error) {
@@ -55,16 +72,15 @@ export class BudgetService {
         }
     }
 
-    private async loadBudgets() {
-        try {
-            const currentYear = new Date().getFullYear();
-            const file = await this.getOrCreateFinanceFile(currentYear);
-            const content = await this.app.vault.read(file);
-            this.budgets = this.parseBudgetsFromContent(content);
-        } catch (error) {
-            console.error('Failed to load budgets:', error);
-            this.budgets = [];
+    // 预算文件被外部修改时重新解析该文件，返回是否属于预算账本
+    async handleFileChange(path: string): Promise<boolean> {
+        if (this.ledger.getYearForPath(path) === null) {
+            return false;
+        }
+        if (await this.ledger.refreshPath(path)) {
+            this.eventBus.emit(EVENT_TYPES.BUDGET_CHANGED);
         }
+        return true;
     }
 
     private async getOrCreateFinanceFile(year: number): Promise<TFile> {
@@ -99,145 +115,117 @@ export class BudgetService {
     }
 
     private getInitialContent(year: number): string {
-        return `# ${year} Budgets\n\n`;
+        return withCurrentFormat(`# ${year} Budgets\n\n`);
     }
 
-    private parseBudgetsFromContent(content: string): Budget[] {
-        const budgets: Budget[] = [];
-        const lines = content.split('\n');
-        let currentBudget: Partial<Budget> = {};
-
-        for (const line of lines) {
-            if (line.startsWith('## ')) {
-                if (Object.keys(currentBudget).length > 0) {
-                    budgets.push(currentBudget as Budget);
-                }
-                currentBudget = {};
-            } else if (line.startsWith('- ')) {
-                const [key, value] = line.slice(2).split(': ').map(s => s.trim());
-                switch (key) {
-                    case 'Amount':
-                        currentBudget.amount = parseFloat(value);
-                        break;
-                    case 'Category':
-                        currentBudget.category = value;
-                        break;
-                    case 'Period':
-                        currentBudget.period = value as 'monthly' | 'yearly';
-                        break;
-                    case 'Description':
-                        currentBudget.description = value;
-                        break;
-                    case 'Currency':
-                        currentBudget.currency = value;
-                        break;
-                    case 'ID':
-                        currentBudget.id = value;
-                        break;
-                }
-            }
-        }
-
-        if (Object.keys(currentBudget).length > 0) {
-            budgets.push(currentBudget as Budget);
-        }
-
-        return budgets;
-    }
-
-    private formatBudget(budget: Budget): string {
-        return `## Budget ${budget.id}
-
-- Amount: ${budget.amount}
-- Category: ${budget.category}
-- Period: ${budget.period}
-- Description: ${budget.description || ''}
-- Currency: ${budget.currency}
-- ID: ${budget.id}
-
-`;
+    // 新预算写在当前年份的文件中，已有的预算写回所在年份的文件，修改经写入队列合并
+    private async modifyYear(year: number, mutate: (content: string) => string): Promise<void> {
+        const file = await this.getOrCreateFinanceFile(year);
+        await this.ledger.modify(file, mutate);
     }
 
-    private async addBudgetToContent(budget: Budget) {
-        const currentYear = new Date().getFullYear();
-        const file = await this.getOrCreateFinanceFile(currentYear);
-        const content = await this.app.vault.read(file);
-        const newContent = content + this.formatBudget(budget);
-        await this.app.vault.modify(file, newContent);
+    // 预算所在的年份，按 ID 在已加载的年份中查找
+    private findBudgetYear(id: string): number {
+        const year = this.ledger.findLoadedYear(b => b.id === id);
+        if (year === undefined) {
+            throw new Error('Budget not found');
+        }
+        return year;
     }
 
-    private async updateBudgetInContent(budget: Budget) {
-        const currentYear = new Date().getFullYear();
-        const file = await this.getOrCreateFinanceFile(currentYear);
-        const content = await this.app.vault.read(file);
-        const lines = content.split('\n');
-        const budgetIndex = lines.findIndex(line => 
-            line.startsWith('## Budget ') && line.includes(budget.id)
-        );
-
-        if (budgetIndex !== -1) {
-            const nextBudgetIndex = lines.findIndex((line, index) => 
-                index > budgetIndex && line.startsWith('## Budget ')
-            );
-            const endIndex = nextBudgetIndex === -1 ? lines.length : nextBudgetIndex;
-            const newContent = [
-                ...lines.slice(0, budgetIndex),
-                this.formatBudget(budget),
-                ...lines.slice(endIndex)
-            ].join('\n');
-            await this.app.vault.modify(file, newContent);
+    // 在写入队列中确认区块仍在文件中，找不到时只拒绝这次修改，不发出事件也不记录历史
+    private requireBudget(content: string, id: string): string {
+        if (!hasRecord(content, BUDGET_SCHEMA, id)) {
+            throw new Error('Budget not found');
         }
+        return content;
     }
 
-    private async deleteBudgetFromContent(id: string) {
-        const currentYear = new Date().getFullYear();
-        const file = await this.getOrCreateFinanceFile(currentYear);
-        const content = await this.app.vault.read(file);
-        const lines = content.split('\n');
-        const budgetIndex = lines.findIndex(line => 
-            line.startsWith('## Budget ') && line.includes(id)
-        );
-
-        if (budgetIndex !== -1) {
-            const nextBudgetIndex = lines.findIndex((line, index) => 
-                index > budgetIndex && line.startsWith('## Budget ')
-            );
-            const endIndex = nextBudgetIndex === -1 ? lines.length : nextBudgetIndex;
-            const newContent = [
-                ...lines.slice(0, budgetIndex),
-                ...lines.slice(endIndex)
-            ].join('\n');
-            await this.app.vault.modify(file, newContent);
-        }
+    // 经写入队列改写任一年份的预算文件，用于跨文件的批量修改（如分类改名）
+    async modifyLedgerFile(file: TFile, mutate: (content: string) => string): Promise<void> {
+        await this.ledger.modify(file, mutate);
+        this.eventBus.emit(EVENT_TYPES.BUDGET_CHANGED);
     }
 
     async addBudget(budget: Omit<Budget, 'id'>): Promise<Budget> {
-        const newBudget: Budget = {
+        const [newBudget] = await this.addBudgets([budget]);
+        return newBudget;
+    }
+
+    // 批量添加预算，只写入一次文件并发出一次变更事件
+    async addBudgets(budgets: Omit<Budget, 'id'>[]): Promise<Budget[]> {
+        const newBudgets: Budget[] = budgets.map(budget => ({
             ...budget,
             id: crypto.randomUUID()
-        };
-        this.budgets.push(newBudget);
-        await this.addBudgetToContent(newBudget);
-        return newBudget;
+        }));
+        const year = new Date().getFullYear();
+        await this.writeBudgets(newBudgets, year);
+        this.eventBus.emit(EVENT_TYPES.BUDGET_CHANGED);
+        this.history.record({
+            label: newBudgets.length === 1 ? 'Add budget' : `Add ${newBudgets.length} budgets`,
+            undo: () => this.discardBudgets(newBudgets, year),
+            redo: () => this.restoreBudgets(newBudgets, year)
+        });
+        return newBudgets;
     }
 
     async updateBudget(budget: Budget): Promise<Budget> {
-        const index = this.budgets.findIndex(b => b.id === budget.id);
-        if (index === -1) {
-            throw new Error('Budget not found');
-        }
-        this.budgets[index] = budget;
-        await this.updateBudgetInContent(budget);
+        const year = this.findBudgetYear(budget.id);
+        const existing = this.ledger.getLoadedYear(year).find(b => b.id === budget.id)!;
+        await this.modifyYear(year, content =>
+            updateRecord(this.requireBudget(content, budget.id), BUDGET_SCHEMA, budget));
+        this.eventBus.emit(EVENT_TYPES.BUDGET_CHANGED);
+        this.history.record({
+            label: 'Edit budget',
+            undo: async () => { await this.updateBudget(existing); },
+            redo: async () => { await this.updateBudget(budget); }
+        });
         return budget;
     }
 
+    // 删除的预算移入回收站
     async deleteBudget(id: string): Promise<void> {
-        const index = this.budgets.findIndex(b => b.id === id);
-        if (index === -1) {
-            throw new Error('Budget not found');
-        }
-        this.budgets.splice(index, 1);
-        await this.deleteBudgetFromContent(id);
+        const year = this.findBudgetYear(id);
+        const budget = this.ledger.getLoadedYear(year).find(b => b.id === id)!;
+        await this.modifyYear(year, content =>
+            removeRecord(this.requireBudget(content, id), BUDGET_SCHEMA, id));
+        await this.trash.add('budgets', [budget]);
+        this.eventBus.emit(EVENT_TYPES.BUDGET_CHANGED);
+        this.history.record({
+            label: 'Delete budget',
+            undo: () => this.restoreBudgets([budget], year),
+            redo: () => this.deleteBudget(id)
+        });
+    }
+
+    // 按原 ID 恢复预算（撤销删除或从回收站恢复），并从回收站中移除；未指定年份时写入当前年份
+    async restoreBudgets(budgets: Budget[], year: number = new Date().getFullYear()): Promise<void> {
+        await this.writeBudgets(budgets, year);
+        await this.trash.remove('budgets', budgets.map(b => b.id));
+        this.eventBus.emit(EVENT_TYPES.BUDGET_CHANGED);
+        this.history.record({
+            label: budgets.length === 1 ? 'Restore budget' : `Restore ${budgets.length} budgets`,
+            // 撤销恢复时放回回收站
+            undo: async () => {
+                await this.discardBudgets(budgets, year);
+                await this.trash.add('budgets', budgets);
+            },
+            redo: () => this.restoreBudgets(budgets, year)
+        });
+    }
+
+    private async writeBudgets(budgets: Budget[], year: number): Promise<void> {
+        await this.modifyYear(year, content =>
+            budgets.reduce((current, budget) => addRecord(current, BUDGET_SCHEMA, budget), content)
+        );
+    }
+
+    // 撤销添加：直接删除，不进入回收站
+    private async discardBudgets(budgets: Budget[], year: number): Promise<void> {
+        await this.modifyYear(year, content =>
+            budgets.reduce((current, budget) => removeRecord(current, BUDGET_SCHEMA, budget.id), content)
+        );
+        this.eventBus.emit(EVENT_TYPES.BUDGET_CHANGED);
     }
 
     async getBudgets(query?: BudgetQuery): Promise<Budget[]> {
@@ -245,71 +233,31 @@ export class BudgetService {
             await this.initialize();
         }
         const year = query?.year || new Date().getFullYear();
-        const file = await this.getOrCreateFinanceFile(year);
-        const content = await this.app.vault.read(file);
-        const budgets: Budget[] = [];
-        
-        // 解析文件内容
-        const lines = content.split('\n');
-        for (const line of lines) {
-            if (line.startsWith('- ')) {
-                const budget = this.parseBudgetLine(line);
-                if (budget) {
-                    budgets.push(budget);
-                }
-            }
-        }
-        
-        return budgets;
+        await this.getOrCreateFinanceFile(year);
+        return this.ledger.load([year]);
     }
 
     async loadBudgetsByYear(year: number): Promise<void> {
-        try {
-            const file = await this.getOrCreateFinanceFile(year);
-            const content = await this.app.vault.read(file);
-            this.budgets = this.parseBudgetsFromContent(content);
-        } catch (error) {
-            console.error(`Failed to load budgets for year ${year}:`, error);
-            this.budgets = [];
-        }
+        await this.getOrCreateFinanceFile(year);
+        await this.ledger.reload(year);
     }
 
     async getBudgetStatus(id: string): Promise<BudgetStatus | null> {
-        const budget = this.budgets.find(b => b.id === id);
+        const budget = this.ledger.getLoaded().find(b => b.id === id);
         if (!budget) return null;
 
-        const spent = await this.calculateSpent(budget.category);
+        const spent = await this.calculateSpent(budget);
         return {
             budget,
             spent,
-            remaining: budget.amount - spent,
-            percentage: (spent / budget.amount) * 100
+            remaining: subtractMoney(budget.amount, spent),
+            percentage: budget.amount.minor === 0 ? 0 : (spent.minor / budget.amount.minor) * 100
         };
     }
 
-    private async calculateSpent(category: string): Promise<number> {
+    private async calculateSpent(budget: Budget): Promise<Money> {
         // 这里需要调用 TransactionService 来获取支出总额
         // 暂时返回 0
-        return 0;
-    }
-
-    private parseBudgetLine(line: string): Budget | null {
-        try {
-            const match = line.match(/^- (.*?) - (.*?) - (.*?) - (.*?) - (.*?)$/);
-            if (match) {
-                const [_, amount, category, period, currency, description] = match;
-                return {
-                    id: crypto.randomUUID(),
-                    amount: parseFloat(amount),
-                    category: category.trim(),
-                    period: period.trim() as 'monthly' | 'yearly',
-                    currency: currency.trim(),
-                    description: description.trim() || undefined
-                };
-            }
-        } catch (error) {
-            console.error('Failed to parse budget line:', error);
-        }
-        return null;
+        return zeroMoney(budget.amount.currency);
     }
 } 
\ No newline at end of file
@@ -0,0 +1,188 @@
+import { App, TFile } from 'obsidian';
+import { FinanceSettings } from '../settings';
+import { ChangeEntry, FieldChange } from '../types/ChangeEntry';
+import { LedgerFieldValues, appendBlock, formatBlock, getFieldMap, parseBlocks } from './LedgerGrammar';
+import { LedgerKind } from './LedgerMigrations';
+import { getLedgerSchema } from './LedgerSchemas';
+import { withCurrentFormat } from './MigrationService';
+import { WriteQueue } from './WriteQueue';
+import * as crypto from 'crypto';
+
+export const HISTORY_FILE_NAME = 'history.finance.md';
+
+const CHANGE_TITLE = 'Change';
+// 不参与比较的字段：ID 不会变化，时间戳每次修改都会变化
+const IGNORED_FIELDS = ['ID', 'Created At', 'Updated At'];
+
+/**
+ * 修改记录：通过插件进行的每次添加、修改和删除以字段级差异追加到
+ * `<financeFilePath>/history.finance.md`，已有的条目从不改写。
+ *
+ *   ## Change <id>
+ *
+ *   - Kind: transactions
+ *   - Record: <记录 ID>
+ *   - Action: update
+ *   - At: 2024-03-20T08:00:00.000Z
+ *   - Fields: Amount, Description
+ *   - Before Amount: 35.00
+ *   - After Amount: 40.00
+ *
+ * 直接编辑账本文件产生的修改不会被记录。
+ */
+export class ChangeLogService {
+    private app: App;
+    private settings: FinanceSettings;
+    private writes: WriteQueue;
+
+    constructor(app: App, settings: FinanceSettings) {
+        this.app = app;
+        this.settings = settings;
+        this.writes = new WriteQueue(app, async () => {});
+    }
+
+    getFilePath(): string {
+        return `${this.settings.financeFilePath}/${HISTORY_FILE_NAME}`;
+    }
+
+    private async getOrCreateFile(): Promise<TFile> {
+        const file = this.app.vault.getAbstractFileByPath(this.getFilePath());
+        if (file instanceof TFile) {
+            return file;
+        }
+        try {
+            await this.app.vault.createFolder(this.settings.financeFilePath);
+        } catch (error) {
+            // 目录可能已存在，忽略错误
+        }
+        return await this.app.vault.create(this.getFilePath(), withCurrentFormat('# Change History\n\n'));
+    }
+
+    /**
+     * 记录一组修改。before 为 undefined 表示添加，after 为 undefined 表示删除；
+     * 没有字段变化的修改不记录。
+     */
+    async record<T extends { id: string }>(kind: LedgerKind, changes: { before?: T; after?: T }[]): Promise<void> {
+        const at = new Date().toISOString();
+        const blocks: string[] = [];
+        for (const { before, after } of changes) {
+            const record = after ?? before;
+            if (!record) {
+                continue;
+            }
+            const fields = this.diff(kind, before, after);
+            if (fields.length === 0) {
+                continue;
+            }
+            const values: LedgerFieldValues = [
+                ['Kind', kind],
+                ['Record', record.id],
+                ['Action', !before ? 'add' : !after ? 'delete' : 'update'],
+                ['At', at],
+                ['Fields', fields.map(change => change.field).join(', ')]
+            ];
+            for (const change of fields) {
+                values.push([`Before ${change.field}`, change.before]);
+                values.push([`After ${change.field}`, change.after]);
+            }
+            blocks.push(formatBlock(CHANGE_TITLE, crypto.randomUUID(), values));
+        }
+        if (blocks.length === 0) {
+            return;
+        }
+        const file = await this.getOrCreateFile();
+        await this.writes.enqueue(file, content => blocks.reduce(appendBlock, content));
+    }
+
+    // 某条记录的全部修改，按时间先后排列
+    async getChanges(kind: LedgerKind, recordId: string): Promise<ChangeEntry[]> {
+        const file = this.app.vault.getAbstractFileByPath(this.getFilePath());
+        if (!(file instanceof TFile)) {
+            return [];
+        }
+        const content = await this.app.vault.read(file);
+        const entries: ChangeEntry[] = [];
+        for (const block of parseBlocks(content)) {
+            if (block.title !== CHANGE_TITLE) {
+                continue;
+            }
+            const fields = getFieldMap(block);
+            if (fields.get('Kind') !== kind || fields.get('Record') !== recordId) {
+                continue;
+            }
+            const names = (fields.get('Fields') ?? '').split(',').map(name => name.trim()).filter(Boolean);
+            entries.push({
+                id: block.id,
+                kind,
+                recordId,
+                action: fields.get('Action') as ChangeEntry['action'],
+                at: new Date(fields.get('At') ?? ''),
+                changes: names.map(field => ({
+                    field,
+                    before: fields.get(`Before ${field}`),
+                    after: fields.get(`After ${field}`)
+                }))
+            });
+        }
+        return entries.sort((a, b) => a.at.getTime() - b.at.getTime());
+    }
+
+    /**
+     * 还原某次修改之后的记录：从当前记录（已删除时为 undefined）出发，
+     * 倒序撤回之后的每次修改。修改后记录被删除时返回 undefined。
+     */
+    getVersion<T extends { id: string }>(
+        kind: LedgerKind,
+        current: T | undefined,
+        changes: ChangeEntry[],
+        changeId: string
+    ): T | undefined {
+        const index = changes.findIndex(change => change.id === changeId);
+        if (index === -1) {
+            throw new Error('Change not found');
+        }
+        const schema = getLedgerSchema(kind);
+        let fields: Map<string, string> | undefined = current ? this.toFieldMap(kind, current) : undefined;
+        for (const change of changes.slice(index + 1).reverse()) {
+            if (change.action === 'add') {
+                fields = undefined;
+                continue;
+            }
+            fields = fields ?? new Map();
+            for (const { field, before } of change.changes) {
+                if (before === undefined) {
+                    fields.delete(field);
+                } else {
+                    fields.set(field, before);
+                }
+            }
+        }
+        if (!fields || changes[index].action === 'delete') {
+            return undefined;
+        }
+        fields.set('ID', changes[index].recordId);
+        return schema.fromFields(fields, this.settings) as T;
+    }
+
+    private toFieldMap<T extends { id: string }>(kind: LedgerKind, record: T | undefined): Map<string, string> {
+        const map: Map<string, string> = new Map();
+        if (!record) {
+            return map;
+        }
+        for (const [key, value] of getLedgerSchema(kind).toFields(record)) {
+            if (value !== undefined && !IGNORED_FIELDS.includes(key)) {
+                map.set(key, value);
+            }
+        }
+        return map;
+    }
+
+    private diff<T extends { id: string }>(kind: LedgerKind, before?: T, after?: T): FieldChange[] {
+        const beforeFields = this.toFieldMap(kind, before);
+        const afterFields = this.toFieldMap(kind, after);
+        const keys = new Set([...beforeFields.keys(), ...afterFields.keys()]);
+        return Array.from(keys)
+            .filter(key => beforeFields.get(key) !== afterFields.get(key))
+            .map(key => ({ field: key, before: beforeFields.get(key), after: afterFields.get(key) }));
+    }
+}
@@ -1,8 +1,13 @@
 import { Chart, ChartConfiguration, ChartData } from 'chart.js/auto';
 import { App, MarkdownView } from 'obsidian';
-import { parse, format, startOfMonth, endOfMonth, eachMonthOfInterval } from 'date-fns';
+import { parse, parseISO, format, startOfMonth, endOfMonth, endOfDay, eachMonthOfInterval, eachDayOfInterval, differenceInCalendarDays, min, subMonths } from 'date-fns';
 import { TransactionService } from './TransactionService';
 import { Transaction } from '../types/Transaction';
+import { TransactionFilters, TransactionQuery, TransactionSort } from '../types/TransactionQuery';
+import { moneyToNumber } from '../utils/money';
+import { getSplitLines } from '../utils/splits';
+import { truncateCategory } from '../utils/categories';
+import { matchesLineCategory, parseFilter, parseSort, splitQueryLine } from '../utils/query';
 
 interface ChartTheme {
     name: string;
@@ -19,19 +24,30 @@ interface NumberFormatConfig {
     maximumFractionDigits?: number;
 }
 
-interface ChartConfig {
+type ChartDimension = 'date' | 'category' | 'account' | 'type' | 'tag' | 'payee';
+type ChartGroupDimension = Exclude<ChartDimension, 'date'>;
+// netWorth 为各时间点的净资产，不按交易统计
+type ChartMetric = 'amount' | 'count' | 'netWorth';
+
+// 数据集对应的分组值和货币；多种货币时标签为 "<分组> (<货币>)"，提示框按这两项查找交易并按货币格式化金额
+type ChartSeries = ChartData['datasets'][number] & { group?: string; currency?: string };
+
+// 没有标签的交易在按标签统计时归入此组
+const UNTAGGED = '(untagged)';
+// 没有收款方的交易在按收款方统计时归入此组
+const NO_PAYEE = '(no payee)';
+
+interface ChartConfig extends TransactionFilters {
     type: 'bar' | 'line' | 'pie' | 'doughnut';
     timeRange: {
         type: 'day' | 'week' | 'month' | 'quarter' | 'year' | 'range';
         start?: Date;
         end?: Date;
     };
-    categories?: string[];
-    accounts?: string[];
     dimensions?: {
-        x: 'date' | 'category' | 'account' | 'type';
-        y: 'amount' | 'count';
-        groupBy?: ('category' | 'account' | 'type')[];
+        x: ChartDimension;
+        y: ChartMetric;
+        groupBy?: ChartGroupDimension[];
     };
     display?: {
         title?: string;
@@ -44,11 +60,9 @@ interface ChartConfig {
         dateFormat?: string;
     };
     showBudget?: boolean;
-    sort?: {
-        field: keyof Transaction;
-        direction: 'asc' | 'desc';
-        priority: number;
-    }[];
+    // 分类只统计到第几级，更深的分类计入其上级
+    depth?: number;
+    sort?: TransactionSort[];
     theme: string;
     interactive: boolean;
 }
@@ -98,10 +112,12 @@ export class ChartService {
 
     // 解析图表查询语法
     parseChartQuery(query: string): ChartConfig {
-        // 示例查询语法：
+        // 示例查询语法（y: netWorth 时按日期显示各货币的净资产，只使用 accounts 和 currencies 筛选）：
         // ```chart
         // type: bar
         // timeRange: month
+        // startDate: 2023-12-01   （指定后 timeRange 自动为 range，可跨年）
+        // endDate: 2024-01-31
         // dimensions:
         //   x: date
         //   y: amount
@@ -118,10 +134,17 @@ export class ChartService {
         //     currency: CNY
         //     minimumFractionDigits: 2
         //   dateFormat: yyyy-MM-dd
-        // categories: food,transport
+        // categories: food,transport   （上级分类包含其下级，如 餐饮 包含 餐饮:午餐）
+        // depth: 1   （按分类统计时只到第 1 级）
+        // excludeCategories: rent
         // accounts: cash,bank
+        // tags: #trip-japan,#reimbursable
+        // search: coffee
+        // minAmount: 10
+        // maxAmount: 500
+        // currencies: CNY,USD
         // showBudget: true
-        // sort: amount desc
+        // sort: amount desc, date asc
         // theme: dark
         // ```
         const lines = query.split('\n');
@@ -148,14 +171,17 @@ export class ChartService {
             }
         };
 
-        // 定义有效的排序字段
-        const validSortFields: (keyof Transaction)[] = ['date', 'amount', 'type', 'category', 'account', 'description', 'currency', 'id'];
         let currentSection: string | null = null;
 
         for (const line of lines) {
             const trimmedLine = line.trim();
             if (!trimmedLine) continue;
 
+            // 没有缩进的行结束当前配置节
+            if (!/^\s/.test(line)) {
+                currentSection = null;
+            }
+
             // 检查是否是新的配置节
             if (trimmedLine.endsWith(':')) {
                 currentSection = trimmedLine.slice(0, -1).trim();
@@ -164,30 +190,30 @@ export class ChartService {
 
             // 处理缩进的配置项
             if (currentSection === 'dimensions') {
-                const [key, value] = trimmedLine.split(':').map(s => s.trim());
+                const [key, value] = splitQueryLine(trimmedLine);
                 if (!config.dimensions) {
                     config.dimensions = { x: 'date', y: 'amount' };
                 }
                 switch (key) {
                     case 'x':
-                        if (['date', 'category', 'account', 'type'].includes(value)) {
-                            config.dimensions.x = value as 'date' | 'category' | 'account' | 'type';
+                        if (['date', 'category', 'account', 'type', 'tag', 'payee'].includes(value)) {
+                            config.dimensions.x = value as ChartDimension;
                         }
                         break;
                     case 'y':
-                        if (['amount', 'count'].includes(value)) {
-                            config.dimensions.y = value as 'amount' | 'count';
+                        if (['amount', 'count', 'netWorth'].includes(value)) {
+                            config.dimensions.y = value as ChartMetric;
                         }
                         break;
                     case 'groupBy':
-                        config.dimensions.groupBy = value.split(',').map(s => s.trim()) as ('category' | 'account' | 'type')[];
+                        config.dimensions.groupBy = value.split(',').map(s => s.trim()) as ChartGroupDimension[];
                         break;
                 }
                 continue;
             }
 
             if (currentSection === 'display') {
-                const [key, value] = trimmedLine.split(':').map(s => s.trim());
+                const [key, value] = splitQueryLine(trimmedLine);
                 if (!config.display) {
                     config.display = {};
                 }
@@ -218,7 +244,7 @@ export class ChartService {
             }
 
             if (currentSection === 'numberFormat') {
-                const [key, value] = trimmedLine.split(':').map(s => s.trim());
+                const [key, value] = splitQueryLine(trimmedLine);
                 if (!config.display) {
                     config.display = {};
                 }
@@ -245,7 +271,7 @@ export class ChartService {
             }
 
             // 处理普通配置项
-            const [key, value] = trimmedLine.split(':').map(s => s.trim());
+            const [key, value] = splitQueryLine(trimmedLine);
             switch (key) {
                 case 'type':
                     if (['bar', 'line', 'pie', 'doughnut'].includes(value)) {
@@ -257,30 +283,45 @@ export class ChartService {
                         config.timeRange.type = value as ChartConfig['timeRange']['type'];
                     }
                     break;
-                case 'categories':
-                    config.categories = value.split(',').map(s => s.trim());
-                    break;
-                case 'accounts':
-                    config.accounts = value.split(',').map(s => s.trim());
+                case 'startDate':
+                case 'endDate': {
+                    const date = parseISO(value);
+                    if (!isNaN(date.getTime())) {
+                        config.timeRange.type = 'range';
+                        if (key === 'startDate') {
+                            config.timeRange.start = date;
+                        } else {
+                            config.timeRange.end = endOfDay(date);
+                        }
+                    }
                     break;
+                }
                 case 'showBudget':
                     config.showBudget = value.toLowerCase() === 'true';
                     break;
-                case 'sort':
-                    const [field, direction] = value.split(' ');
-                    if (validSortFields.includes(field as keyof Transaction)) {
-                        config.sort = [{
-                            field: field as keyof Transaction,
-                            direction: direction.toLowerCase() as 'asc' | 'desc',
-                            priority: 0
-                        }];
+                case 'depth': {
+                    const depth = parseInt(value, 10);
+                    if (depth > 0) {
+                        config.depth = depth;
                     }
                     break;
+                }
+                case 'sort': {
+                    const sort = parseSort(value);
+                    if (sort.length > 0) {
+                        config.sort = sort;
+                    }
+                    break;
+                }
                 case 'theme':
                     if (this.themes.has(value)) {
                         config.theme = value;
                     }
                     break;
+                default:
+                    // 分类、账户、标签、搜索、金额范围和货币等筛选条件
+                    parseFilter(config, key, value);
+                    break;
             }
         }
 
@@ -313,25 +354,32 @@ export class ChartService {
             // 生成坐标轴标签
             const axisLabels = this.generateAxisLabels(x, y, groupBy, config.display);
 
-            // 存储原始交易数据用于tooltip显示
+            // 存储原始交易数据用于tooltip显示；净资产不对应具体交易
             const transactionsByLabel = new Map<string, Transaction[]>();
-            await Promise.all(data.datasets.map(async (dataset, datasetIndex) => {
-                const groupValue = dataset.label || '';
+            const series = data.datasets as ChartSeries[];
+            await Promise.all(y === 'netWorth' ? [] : series.map(async (dataset, datasetIndex) => {
                 await Promise.all((data.labels as string[]).map(async (label, index) => {
                     const value = dataset.data[index] as number;
                     if (value !== 0) {
                         const transactions = await this.getTransactionsForDataPoint(
+                            config,
                             label,
-                            groupValue,
+                            dataset.group ?? '',
+                            dataset.currency,
                             x,
-                            y,
                             groupBy?.[0]
                         );
-                        const key = `${label}-${groupValue}`;
-                        transactionsByLabel.set(key, transactions);
+                        transactionsByLabel.set(`${label}-${datasetIndex}`, transactions);
                     }
                 }));
             }));
+
+            // 多种货币的数据集共用 y 轴时不按某一种货币显示刻度
+            const numberFormat = config.display?.numberFormat;
+            const currencies = new Set(series.map(dataset => dataset.currency).filter(Boolean));
+            const axisFormat = currencies.size === 1
+                ? this.getCurrencyFormat(numberFormat, series.find(dataset => dataset.currency)!.currency)
+                : numberFormat?.style === 'currency' ? { ...numberFormat, style: 'decimal' as const } : numberFormat;
             
         const datasets = data.datasets.map((dataset, index) => ({
             ...dataset,
@@ -372,26 +420,26 @@ export class ChartService {
                                 title: (items) => {
                                     const item = items[0];
                                     const label = item.label;
-                                    const dataset = datasets[item.datasetIndex];
-                                    const key = `${label}-${dataset.label}`;
-                                    const transactions = transactionsByLabel.get(key) || [];
+                                    const dataset = series[item.datasetIndex];
                                     
                                     // 生成标题
                                     let title = `${axisLabels.x}: ${label}`;
                                     if (groupBy && groupBy.length > 0) {
-                                        title += `\n${this.getDimensionLabel(groupBy[0])}: ${dataset.label}`;
+                                        title += `\n${this.getDimensionLabel(groupBy[0])}: ${dataset.group ?? dataset.label}`;
+                                    }
+                                    if (dataset.currency && currencies.size > 1) {
+                                        title += `\n货币: ${dataset.currency}`;
                                     }
                                     return title;
                                 },
                                 label: (item) => {
-                                    const dataset = datasets[item.datasetIndex];
+                                    const dataset = series[item.datasetIndex];
                                     const value = item.raw as number;
                                     const label = item.label;
-                                    const key = `${label}-${dataset.label}`;
-                                    const transactions = transactionsByLabel.get(key) || [];
+                                    const transactions = transactionsByLabel.get(`${label}-${item.datasetIndex}`) || [];
                                     
-                                    // 生成标签
-                                    let labelText = `${this.formatNumber(value, config.display?.numberFormat)}`;
+                                    // 生成标签，金额按数据集的货币显示
+                                    let labelText = `${this.formatNumber(value, this.getCurrencyFormat(numberFormat, dataset.currency))}`;
                                     
                                     // 如果有具体交易，显示交易数量
                                     if (transactions.length > 0) {
@@ -403,16 +451,15 @@ export class ChartService {
                                 afterBody: (items) => {
                                     const item = items[0];
                                     const label = item.label;
-                                    const dataset = datasets[item.datasetIndex];
-                                    const key = `${label}-${dataset.label}`;
-                                    const transactions = transactionsByLabel.get(key) || [];
+                                    const transactions = transactionsByLabel.get(`${label}-${item.datasetIndex}`) || [];
                                     
                                     if (transactions.length === 0) return [];
                                     
                                     // 显示详细交易信息
                                     return transactions.map(transaction => {
                                         const date = format(transaction.date, config.display?.dateFormat || 'yyyy-MM-dd');
-                                        const amount = this.formatNumber(transaction.amount, config.display?.numberFormat);
+                                        const amount = this.formatNumber(moneyToNumber(transaction.amount),
+                                            this.getCurrencyFormat(numberFormat, transaction.amount.currency));
                                         return [
                                             `\n${date} ${transaction.type === 'income' ? '收入' : '支出'}`,
                                             `\n金额: ${amount}`,
@@ -474,7 +521,7 @@ export class ChartService {
                         ticks: {
                                 color: theme.textColor,
                                 callback: (value) => {
-                                    return this.formatNumber(value as number, config.display?.numberFormat);
+                                    return this.formatNumber(value as number, axisFormat);
                                 }
                             },
                             title: {
@@ -502,6 +549,11 @@ export class ChartService {
         }
     }
 
+    // 货币样式使用金额自己的货币，而不是配置中的默认货币
+    private getCurrencyFormat(format: NumberFormatConfig | undefined, currency?: string): NumberFormatConfig | undefined {
+        return format?.style === 'currency' && currency ? { ...format, currency } : format;
+    }
+
     // 格式化数字
     private formatNumber(value: number, format?: NumberFormatConfig): string {
         if (!format) {
@@ -529,9 +581,9 @@ export class ChartService {
 
     // 生成坐标轴标签
     private generateAxisLabels(
-        xDimension: 'date' | 'category' | 'account' | 'type',
-        yDimension: 'amount' | 'count',
-        groupBy?: ('category' | 'account' | 'type')[],
+        xDimension: ChartDimension,
+        yDimension: ChartMetric,
+        groupBy?: ChartGroupDimension[],
         display?: ChartConfig['display']
     ): { x: string; y: string } {
         type DisplayType = NonNullable<ChartConfig['display']>;
@@ -553,12 +605,15 @@ export class ChartService {
             date: '日期',
             category: '类别',
             account: '账户',
-            type: '类型'
+            type: '类型',
+            tag: '标签',
+            payee: '收款方'
         };
 
         const yLabels: Record<string, string> = {
             amount: '金额',
-            count: '数量'
+            count: '数量',
+            netWorth: '净资产'
         };
 
         return {
@@ -569,26 +624,31 @@ export class ChartService {
 
     // 生成图表标题
     private generateChartTitle(
-        xDimension: 'date' | 'category' | 'account' | 'type',
-        yDimension: 'amount' | 'count',
-        groupBy?: ('category' | 'account' | 'type')[]
+        xDimension: ChartDimension,
+        yDimension: ChartMetric,
+        groupBy?: ChartGroupDimension[]
     ): string {
         const xLabels: Record<string, string> = {
             date: '日期',
             category: '类别',
             account: '账户',
-            type: '类型'
+            type: '类型',
+            tag: '标签',
+            payee: '收款方'
         };
 
         const yLabels: Record<string, string> = {
             amount: '金额',
-            count: '数量'
+            count: '数量',
+            netWorth: '净资产'
         };
 
         const groupLabels: Record<string, string> = {
             category: '类别',
             account: '账户',
-            type: '类型'
+            type: '类型',
+            tag: '标签',
+            payee: '收款方'
         };
 
         let title = `${yLabels[yDimension]}统计`;
@@ -602,53 +662,59 @@ export class ChartService {
         return title;
     }
 
+    // 计算查询的时间范围，可能跨越多个年份
+    private getDateRange(config: ChartConfig): { startDate?: Date; endDate?: Date } {
+        const now = new Date();
+        let startDate: Date | undefined;
+        let endDate: Date | undefined;
+
+        switch (config.timeRange.type) {
+            case 'day':
+                startDate = new Date(now.setHours(0, 0, 0, 0));
+                endDate = new Date(now.setHours(23, 59, 59, 999));
+                break;
+            case 'week':
+                startDate = new Date(now.setDate(now.getDate() - now.getDay()));
+                endDate = new Date(now.setDate(now.getDate() + 6));
+                break;
+            case 'month':
+                startDate = new Date(now.getFullYear(), now.getMonth(), 1);
+                endDate = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+                break;
+            case 'quarter':
+                const quarter = Math.floor(now.getMonth() / 3);
+                startDate = new Date(now.getFullYear(), quarter * 3, 1);
+                endDate = new Date(now.getFullYear(), (quarter + 1) * 3, 0);
+                break;
+            case 'year':
+                startDate = new Date(now.getFullYear(), 0, 1);
+                endDate = new Date(now.getFullYear(), 11, 31);
+                break;
+            case 'range':
+                startDate = config.timeRange.start;
+                endDate = config.timeRange.end;
+                break;
+        }
+
+        return { startDate, endDate };
+    }
+
     // 获取图表数据
     private async getChartData(config: ChartConfig): Promise<ChartData> {
         try {
             console.log('Chart config:', config);
 
-            // 计算时间范围
-            const now = new Date();
-            let startDate: Date | undefined;
-            let endDate: Date | undefined;
-
-            switch (config.timeRange.type) {
-                case 'day':
-                    startDate = new Date(now.setHours(0, 0, 0, 0));
-                    endDate = new Date(now.setHours(23, 59, 59, 999));
-                    break;
-                case 'week':
-                    startDate = new Date(now.setDate(now.getDate() - now.getDay()));
-                    endDate = new Date(now.setDate(now.getDate() + 6));
-                    break;
-                case 'month':
-                    startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-                    endDate = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-                    break;
-                case 'quarter':
-                    const quarter = Math.floor(now.getMonth() / 3);
-                    startDate = new Date(now.getFullYear(), quarter * 3, 1);
-                    endDate = new Date(now.getFullYear(), (quarter + 1) * 3, 0);
-                    break;
-                case 'year':
-                    startDate = new Date(now.getFullYear(), 0, 1);
-                    endDate = new Date(now.getFullYear(), 11, 31);
-                    break;
-                case 'range':
-                    startDate = config.timeRange.start;
-                    endDate = config.timeRange.end;
-                    break;
+            // 根据维度配置处理数据
+            const { x, y, groupBy } = config.dimensions || { x: 'date', y: 'amount' };
+            console.log('Dimensions:', { x, y, groupBy });
+            if (y === 'netWorth') {
+                return await this.getNetWorthData(config);
             }
 
-            console.log('Time range:', { startDate, endDate });
 
             // 获取交易数据
             const transactions = await this.transactionService.getTransactions({
-                startDate,
-                endDate,
-                categories: config.categories,
-                accounts: config.accounts,
-                types: ['income', 'expense'],
+                ...this.getQuery(config),
                 sort: config.sort
             });
 
@@ -664,11 +730,7 @@ export class ChartService {
                 };
             }
 
-            // 根据维度配置处理数据
-            const { x, y, groupBy } = config.dimensions || { x: 'date', y: 'amount' };
-            console.log('Dimensions:', { x, y, groupBy });
-
-            const data = this.processChartData(transactions, x, y, groupBy);
+            const data = this.processChartData(transactions, x, y, groupBy, config);
             console.log('Processed chart data:', data);
 
             // 验证数据
@@ -690,29 +752,82 @@ export class ChartService {
         }
     }
 
-    // 处理图表数据
+    /**
+     * 净资产随时间的变化，每种货币一条曲线。
+     * 时间范围不超过一个月时每天一个点，否则每月末一个点；没有指定开始日期时显示最近 12 个月。
+     */
+    private async getNetWorthData(config: ChartConfig): Promise<ChartData> {
+        const range = this.getDateRange(config);
+        const end = endOfDay(range.endDate ?? new Date());
+        const start = range.startDate ?? startOfMonth(subMonths(end, 11));
+        const daily = differenceInCalendarDays(end, start) <= 31;
+        const dates = daily
+            ? eachDayOfInterval({ start, end }).map(date => endOfDay(date))
+            : eachMonthOfInterval({ start, end }).map(month => min([endOfMonth(month), end]));
+        const history = await this.transactionService.getNetWorthHistory(dates, config.accounts, config.currencies);
+        const currencies = Array.from(new Set(history.flat().map(total => total.currency))).sort();
+        if (currencies.length === 0) {
+            return {
+                labels: ['No Data'],
+                datasets: [{
+                    label: 'No Data',
+                    data: [0]
+                }]
+            };
+        }
+        return {
+            labels: dates.map(date => format(date, daily ? 'yyyy-MM-dd' : 'yyyy-MM')),
+            datasets: currencies.map((currency): ChartSeries => ({
+                label: currency,
+                currency,
+                data: history.map(totals => {
+                    const total = totals.find(t => t.currency === currency);
+                    return total ? moneyToNumber(total.netWorth) : 0;
+                })
+            }))
+        };
+    }
+
+    // 处理图表数据，拆分交易按拆分行分别计入
     private processChartData(
-        transactions: Transaction[],
-        xDimension: 'date' | 'category' | 'account' | 'type',
+        splitTransactions: Transaction[],
+        xDimension: ChartDimension,
         yDimension: 'amount' | 'count',
-        groupBy?: ('category' | 'account' | 'type')[]
+        groupBy: ChartGroupDimension[] | undefined,
+        config: ChartConfig
     ): ChartData {
         console.log('Processing chart data with dimensions:', { xDimension, yDimension, groupBy });
+        const transactions = this.getChartLines(splitTransactions, config);
+
+        // 不同货币的金额不能相加，金额按货币分别累加最小单位整数，多种货币时每种货币一个数据集
+        const currencies = yDimension === 'amount'
+            ? Array.from(new Set(transactions.map(t => t.amount.currency))).sort()
+            : [''];
+        const byCurrency = currencies.length > 1;
+        const seriesLabel = (label: string, currency: string) => byCurrency ? `${label} (${currency})` : label;
+        const toValue = (total: number, currency: string) =>
+            yDimension === 'amount' ? moneyToNumber({ minor: total, currency }) : total;
+        const inCurrency = (currency: string) => yDimension === 'amount'
+            ? transactions.filter(t => t.amount.currency === currency)
+            : transactions;
 
         // 如果没有分组，直接按 x 维度聚合
         if (!groupBy || groupBy.length === 0) {
-            const aggregated = this.aggregateData(transactions, xDimension, yDimension);
+            const aggregated = new Map(currencies.map(currency =>
+                [currency, this.aggregateData(inCurrency(currency), xDimension, yDimension)]));
             console.log('Aggregated data:', aggregated);
 
-            const labels = Object.keys(aggregated);
-            const data = Object.values(aggregated);
+            const labels = Array.from(new Set(
+                Array.from(aggregated.values()).flatMap(totals => Object.keys(totals))
+            ));
+            const label = yDimension === 'amount' ? 'Amount' : 'Count';
 
             if (labels.length === 0) {
                 console.warn('No data after aggregation');
                 return {
                     labels: ['No Data'],
                     datasets: [{
-                        label: yDimension === 'amount' ? 'Amount' : 'Count',
+                        label,
                         data: [0]
                     }]
                 };
@@ -720,37 +835,45 @@ export class ChartService {
 
             return {
                 labels,
-                datasets: [{
-                    label: yDimension === 'amount' ? 'Amount' : 'Count',
-                    data
-                }]
+                datasets: currencies.map((currency): ChartSeries => ({
+                    label: seriesLabel(label, currency),
+                    currency: currency || undefined,
+                    data: labels.map(x => toValue(aggregated.get(currency)![x] || 0, currency))
+                }))
             };
         }
 
         // 按分组维度处理数据
-        const groupedData = new Map<string, Map<string, number>>();
+        const groupedData = new Map<string, { group: string; currency: string; data: Map<string, number> }>();
         
-        // 初始化分组
+        // 初始化分组，多种货币时每个分组按货币再分
         const groups = this.getUniqueValues(transactions, groupBy[0]);
         console.log('Groups:', groups);
         groups.forEach(group => {
-            groupedData.set(group, new Map());
+            currencies.forEach(currency => {
+                groupedData.set(seriesLabel(group, currency), { group, currency, data: new Map() });
+            });
         });
 
-        // 聚合数据
-        transactions.forEach(transaction => {
-            const groupValue = this.getDimensionValue(transaction, groupBy[0]);
-            const xValue = this.getDimensionValue(transaction, xDimension);
-            const yValue = yDimension === 'amount' ? transaction.amount : 1;
-
-            const groupMap = groupedData.get(groupValue)!;
-            groupMap.set(xValue, (groupMap.get(xValue) || 0) + yValue);
+        // 聚合数据，带有多个标签的交易计入每个标签
+        currencies.forEach(currency => {
+            inCurrency(currency).forEach(transaction => {
+                const yValue = yDimension === 'amount' ? transaction.amount.minor : 1;
+                for (const groupValue of this.getDimensionValues(transaction, groupBy[0])) {
+                    const groupMap = groupedData.get(seriesLabel(groupValue, currency))!.data;
+                    for (const xValue of this.getDimensionValues(transaction, xDimension)) {
+                        groupMap.set(xValue, (groupMap.get(xValue) || 0) + yValue);
+                    }
+                }
+            });
         });
 
+        // 某个分组在某种货币下没有交易时不显示该数据集
+        const series = Array.from(groupedData.entries()).filter(([, entry]) => entry.data.size > 0);
+
         // 转换为图表数据格式
         const labels = Array.from(new Set(
-            Array.from(groupedData.values())
-                .flatMap(map => Array.from(map.keys()))
+            series.flatMap(([, entry]) => Array.from(entry.data.keys()))
         )).sort();
 
         console.log('Grouped data labels:', labels);
@@ -766,9 +889,11 @@ export class ChartService {
             };
         }
 
-        const datasets = Array.from(groupedData.entries()).map(([group, data]) => ({
-            label: group,
-            data: labels.map(label => data.get(label) || 0)
+        const datasets = series.map(([label, entry]): ChartSeries => ({
+            label,
+            group: entry.group,
+            currency: entry.currency || undefined,
+            data: labels.map(x => toValue(entry.data.get(x) || 0, entry.currency))
         }));
 
         console.log('Final datasets:', datasets);
@@ -776,39 +901,71 @@ export class ChartService {
         return { labels, datasets };
     }
 
+    // 金额累加最小单位，调用方保证所有交易使用同一货币
     private aggregateData(
         transactions: Transaction[],
-        xDimension: 'date' | 'category' | 'account' | 'type',
+        xDimension: ChartDimension,
         yDimension: 'amount' | 'count'
     ): Record<string, number> {
         const aggregated: Record<string, number> = {};
 
         transactions.forEach(transaction => {
-            const xValue = this.getDimensionValue(transaction, xDimension);
-            const yValue = yDimension === 'amount' ? transaction.amount : 1;
-            aggregated[xValue] = (aggregated[xValue] || 0) + yValue;
+            const yValue = yDimension === 'amount' ? transaction.amount.minor : 1;
+            for (const xValue of this.getDimensionValues(transaction, xDimension)) {
+                aggregated[xValue] = (aggregated[xValue] || 0) + yValue;
+            }
         });
 
         return aggregated;
     }
 
-    private getDimensionValue(transaction: Transaction, dimension: 'date' | 'category' | 'account' | 'type'): string {
+    // 除标签外每个维度只有一个值；没有标签或收款方的交易归入 (untagged)、(no payee)
+    private getDimensionValues(transaction: Transaction, dimension: ChartDimension): string[] {
         switch (dimension) {
             case 'date':
-                return format(transaction.date, 'yyyy-MM-dd');
+                return [format(transaction.date, 'yyyy-MM-dd')];
             case 'category':
-                return transaction.category;
+                return [transaction.category];
             case 'account':
-                return transaction.account;
+                return [transaction.account];
             case 'type':
-                return transaction.type;
+                return [transaction.type];
+            case 'tag':
+                return transaction.tags.length > 0 ? transaction.tags.map(tag => `#${tag}`) : [UNTAGGED];
+            case 'payee':
+                return [transaction.payee || NO_PAYEE];
             default:
-                return '';
+                return [''];
         }
     }
 
-    private getUniqueValues(transactions: Transaction[], dimension: 'category' | 'account' | 'type'): string[] {
-        return Array.from(new Set(transactions.map(t => this.getDimensionValue(t, dimension))));
+    // 展开拆分行；指定或排除了分类时只保留符合条件的拆分行，指定了 depth 时分类截取到该层级
+    private getChartLines(transactions: Transaction[], config: ChartConfig): Transaction[] {
+        return transactions.flatMap(getSplitLines)
+            .filter(line => matchesLineCategory(line, config))
+            .map(line => config.depth ? { ...line, category: truncateCategory(line.category, config.depth) } : line);
+    }
+
+    // 图表的时间范围和筛选条件；图表只统计收入和支出
+    private getQuery(config: ChartConfig): TransactionQuery {
+        const { startDate, endDate } = this.getDateRange(config);
+        return {
+            startDate,
+            endDate,
+            categories: config.categories,
+            excludeCategories: config.excludeCategories,
+            accounts: config.accounts,
+            tags: config.tags,
+            search: config.search,
+            minAmount: config.minAmount,
+            maxAmount: config.maxAmount,
+            currencies: config.currencies,
+            types: ['income', 'expense']
+        };
+    }
+
+    private getUniqueValues(transactions: Transaction[], dimension: ChartGroupDimension): string[] {
+        return Array.from(new Set(transactions.flatMap(t => this.getDimensionValues(t, dimension))));
     }
 
     // 更新图表数据
@@ -861,37 +1018,35 @@ export class ChartService {
         this.themes.set(theme.name, theme);
     }
 
-    private getDimensionLabel(dimension: 'date' | 'category' | 'account' | 'type'): string {
+    private getDimensionLabel(dimension: ChartDimension): string {
         const labels: Record<string, string> = {
             date: '日期',
             category: '类别',
             account: '账户',
-            type: '类型'
+            type: '类型',
+            tag: '标签',
+            payee: '收款方'
         };
         return labels[dimension] || dimension;
     }
 
     private async getTransactionsForDataPoint(
+        config: ChartConfig,
         label: string,
         groupValue: string,
-        xDimension: 'date' | 'category' | 'account' | 'type',
-        yDimension: 'amount' | 'count',
-        groupBy?: 'category' | 'account' | 'type'
+        currency: string | undefined,
+        xDimension: ChartDimension,
+        groupBy?: ChartGroupDimension
     ): Promise<Transaction[]> {
-        // 从当前活动的交易数据中筛选
-        const transactions = await this.transactionService.getTransactions({
-            startDate: undefined,
-            endDate: undefined,
-            categories: undefined,
-            accounts: undefined,
-            types: ['income', 'expense']
-        });
+        // 只在图表的时间范围内筛选，避免加载无关年份
+        const transactions = await this.transactionService.getTransactions(this.getQuery(config));
         
-        return transactions.filter((transaction: Transaction) => {
-            const xValue = this.getDimensionValue(transaction, xDimension);
-            const groupValue = groupBy ? this.getDimensionValue(transaction, groupBy) : '';
+        return this.getChartLines(transactions, config).filter((transaction: Transaction) => {
+            const xValues = this.getDimensionValues(transaction, xDimension);
+            const groupValues = groupBy ? this.getDimensionValues(transaction, groupBy) : [];
             
-            return xValue === label && (!groupBy || groupValue === groupValue);
+            return xValues.includes(label) && (!groupBy || groupValues.includes(groupValue))
+                && (!currency || transaction.amount.currency === currency);
         });
     }
 } 
\ No newline at end of file
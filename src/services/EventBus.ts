@@ -41,5 +41,8 @@ export class EventBus {
 export const EVENT_TYPES = {
     TRANSACTION_CHANGED: 'transaction-changed',
     BUDGET_CHANGED: 'budget-changed',
-    RECURRING_TRANSACTION_CHANGED: 'recurring-transaction-changed'
+    RECURRING_TRANSACTION_CHANGED: 'recurring-transaction-changed',
+    TRASH_CHANGED: 'trash-changed',
+    MERCHANT_CHANGED: 'merchant-changed',
+    ACCOUNT_CHANGED: 'account-changed'
 }; 
\ No newline at end of file
@@ -3,10 +3,17 @@ import * as XLSX from 'xlsx';
 import { TransactionService } from './TransactionService';
 import { BudgetService } from './BudgetService';
 import { RecurringTransactionService } from './RecurringTransactionService';
+import { parseLedgerDate } from './LedgerSchemas';
 import { FinanceSettings } from '../settings';
-import { Transaction } from '../types/Transaction';
+import { ClearedStatus, Transaction, TransactionSplit, TransactionType } from '../types/Transaction';
 import { Budget } from '../types/Budget';
 import { RecurringTransaction } from '../types/RecurringTransaction';
+import { Money } from '../types/Money';
+import { formatMoney, parseMoney } from '../utils/money';
+import { formatTags, parseTags } from '../utils/tags';
+import { formatSplit, parseSplit } from '../utils/splits';
+import { formatLinks, parseLinks } from '../utils/links';
+import { isDuplicate } from '../utils/duplicates';
 
 interface ExcelTemplate {
     headers: {
@@ -33,6 +40,19 @@ interface ExcelTemplate {
     };
 }
 
+// 导入中与已有交易或同一文件中前面的行疑似重复的一行
+export interface ImportDuplicate {
+    transaction: Omit<Transaction, 'id'>;
+    matches: Transaction[];
+    fileMatches: Omit<Transaction, 'id'>[];
+}
+
+// 导入结果：无法导入的行按文件中的行号列出
+export interface ImportResult {
+    imported: number;
+    errors: string[];
+}
+
 interface ValidationResult {
     isValid: boolean;
     errors: string[];
@@ -175,13 +195,24 @@ export class ExcelService {
                 data = transactions.map(t => ({
                     Date: new Date(t.date).toLocaleDateString(),
                     Description: t.description,
-                    Amount: t.amount,
+                    Payee: t.payee ?? '',
+                    Amount: formatMoney(t.amount),
                     Type: t.type,
                     Category: t.category,
                     Account: t.account,
-                    Currency: t.currency
+                    Currency: t.amount.currency,
+                    Tags: formatTags(t.tags),
+                    Splits: (t.splits ?? []).map(formatSplit).join('; '),
+                    'To Account': t.toAccount ?? '',
+                    'To Amount': t.toAmount ? formatMoney(t.toAmount) : '',
+                    'To Currency': t.toAmount?.currency ?? '',
+                    Fee: t.fee ? formatMoney(t.fee) : '',
+                    Links: formatLinks(t.links ?? []),
+                    Attachments: formatLinks(t.attachments ?? []),
+                    Reconciliation: t.status ?? '',
+                    'To Reconciliation': t.toStatus ?? ''
                 }));
-                headers = ['Date', 'Description', 'Amount', 'Type', 'Category', 'Account', 'Currency'];
+                headers = ['Date', 'Description', 'Payee', 'Amount', 'Type', 'Category', 'Account', 'Currency', 'Tags', 'Splits', 'To Account', 'To Amount', 'To Currency', 'Fee', 'Links', 'Attachments', 'Reconciliation', 'To Reconciliation'];
                 break;
 
             case 'budget':
@@ -189,7 +220,7 @@ export class ExcelService {
                 data = budgets.map(b => ({
                     Period: b.period,
                     Category: b.category,
-                    Amount: b.amount,
+                    Amount: formatMoney(b.amount),
                     Status: b.status
                 }));
                 headers = ['Period', 'Category', 'Amount', 'Status'];
@@ -199,7 +230,7 @@ export class ExcelService {
                 const recurring = await this.recurringTransactionService.getRecurringTransactions();
                 data = recurring.map(r => ({
                     Description: r.description,
-                    Amount: r.amount,
+                    Amount: formatMoney(r.amount),
                     Frequency: r.frequency,
                     Category: r.category,
                     Account: r.account,
@@ -238,67 +269,136 @@ export class ExcelService {
         return new Blob([csvBuffer], { type: 'text/csv;charset=utf-8;' });
     }
 
-    async importFromExcel(file: File): Promise<void> {
+    /**
+     * 从 CSV 文件导入交易、预算或定期交易。
+     * 导入交易时，与已有交易疑似重复的行交给 reviewDuplicates 选择保留哪些；
+     * 它返回 null 时取消导入，未提供时全部导入。金额无法解析等无法导入的行被跳过，在结果中列出。
+     */
+    async importFromExcel(
+        file: File,
+        reviewDuplicates?: (duplicates: ImportDuplicate[]) => Promise<ImportDuplicate[] | null>
+    ): Promise<ImportResult> {
         const text = await file.text();
         const lines = text.split('\n');
         const headers = lines[0].split(',').map(h => h.trim());
-        const data = lines.slice(1).map(line => {
-            const values = line.split(',').map(v => v.trim());
-            const row: any = {};
-            headers.forEach((header, index) => {
-                row[header] = values[index];
+        const errors: string[] = [];
+        const data = lines.slice(1)
+            // 行号从 2 开始，第一行是标题；跳过空行
+            .map((line, i) => ({ line, rowNumber: i + 2 }))
+            .filter(({ line }) => line.trim())
+            .map(({ line, rowNumber }) => {
+                const values = line.split(',').map(v => v.trim());
+                const row: any = { rowNumber };
+                headers.forEach((header, index) => {
+                    row[header] = values[index];
+                });
+                return row;
             });
-            return row;
-        });
 
         // 根据文件名判断导入类型
         if (file.name.includes('transaction')) {
-            for (const row of data) {
-                const transaction: Omit<Transaction, 'id'> = {
-                    date: new Date(row.Date),
-                    amount: parseFloat(row.Amount),
-                    type: row.Type.toLowerCase() as 'income' | 'expense',
-                    category: row.Category,
-                    account: row.Account,
-                    description: row.Description,
-                    currency: row.Currency
-                };
-                await this.transactionService.addTransaction(transaction);
+            const transactions = this.convertRows(data, errors, (row): Omit<Transaction, 'id'> => ({
+                date: parseLedgerDate(row.Date),
+                amount: this.parseAmount(row.Amount, row.Currency),
+                type: row.Type.toLowerCase() as TransactionType,
+                category: row.Category,
+                account: row.Account,
+                toAccount: row['To Account'] || undefined,
+                toAmount: row['To Amount'] ? this.parseAmount(row['To Amount'], row['To Currency'] || row.Currency) : undefined,
+                fee: row.Fee ? this.parseAmount(row.Fee, row.Currency) : undefined,
+                description: row.Description,
+                payee: row.Payee || undefined,
+                tags: parseTags(row.Tags ?? ''),
+                splits: this.parseSplits(row.Splits ?? '', row.Currency),
+                links: row.Links ? parseLinks(row.Links) : undefined,
+                attachments: row.Attachments ? parseLinks(row.Attachments) : undefined,
+                status: ['cleared', 'reconciled'].includes(row.Reconciliation) ? row.Reconciliation as ClearedStatus : undefined,
+                toStatus: ['cleared', 'reconciled'].includes(row['To Reconciliation']) ? row['To Reconciliation'] as ClearedStatus : undefined
+            }));
+            // 导入的交易按规则补全分类、账户等字段
+            const prepared = transactions.map(t => this.transactionService.applyRules(t));
+            const matches = await this.transactionService.findDuplicates(prepared);
+            const duplicates = prepared
+                .map((transaction, i) => ({
+                    transaction,
+                    matches: matches[i],
+                    // 同一文件中重复出现的行（如两份重叠的流水拼在一起）
+                    fileMatches: prepared.slice(0, i).filter(other => isDuplicate(transaction, other))
+                }))
+                .filter(duplicate => duplicate.matches.length > 0 || duplicate.fileMatches.length > 0);
+            let skipped: Set<Omit<Transaction, 'id'>> = new Set();
+            if (duplicates.length > 0 && reviewDuplicates) {
+                const kept = await reviewDuplicates(duplicates);
+                if (!kept) {
+                    return { imported: 0, errors };
+                }
+                skipped = new Set(duplicates.filter(d => !kept.includes(d)).map(d => d.transaction));
             }
+            const added = await this.transactionService.addTransactions(prepared.filter(t => !skipped.has(t)));
+            return { imported: added.length, errors };
         } else if (file.name.includes('budget')) {
-            for (const row of data) {
-                const budget: Omit<Budget, 'id'> = {
-                    amount: parseFloat(row['Amount']),
-                    category: row['Category'],
-                    period: row['Period'] as 'monthly' | 'yearly',
-                    description: row['Description'],
-                    currency: row['Currency'] || this.settings.defaultCurrency
-                };
-                await this.budgetService.addBudget(budget);
-            }
+            const budgets = this.convertRows(data, errors, (row): Omit<Budget, 'id'> => ({
+                amount: this.parseAmount(row['Amount'], row['Currency']),
+                category: row['Category'],
+                period: row['Period'] as 'monthly' | 'yearly',
+                description: row['Description']
+            }));
+            await this.budgetService.addBudgets(budgets);
+            return { imported: budgets.length, errors };
         } else if (file.name.includes('recurring')) {
-            for (const row of data) {
-                const recurringTransaction: Omit<RecurringTransaction, 'id'> = {
-                    amount: parseFloat(row.Amount),
-                    type: row.Type.toLowerCase() as 'income' | 'expense',
-                    category: row.Category,
-                    account: row.Account,
-                    description: row.Description,
-                    frequency: row.Frequency.toLowerCase() as 'daily' | 'weekly' | 'monthly' | 'yearly',
-                    startDate: new Date(row.StartDate),
-                    endDate: row.EndDate ? new Date(row.EndDate) : undefined,
-                    currency: row.Currency
-                };
-                await this.recurringTransactionService.addRecurringTransaction(recurringTransaction);
+            const recurringTransactions = this.convertRows(data, errors, (row): Omit<RecurringTransaction, 'id'> => ({
+                amount: this.parseAmount(row.Amount, row.Currency),
+                type: row.Type.toLowerCase() as 'income' | 'expense',
+                category: row.Category,
+                account: row.Account,
+                description: row.Description,
+                frequency: row.Frequency.toLowerCase() as 'daily' | 'weekly' | 'monthly' | 'yearly',
+                startDate: parseLedgerDate(row.StartDate),
+                endDate: row.EndDate ? parseLedgerDate(row.EndDate) : undefined
+            }));
+            await this.recurringTransactionService.addRecurringTransactions(recurringTransactions);
+            return { imported: recurringTransactions.length, errors };
+        }
+        return { imported: 0, errors };
+    }
+
+    // 逐行转换，转换失败的行跳过，错误前加上文件中的行号
+    private convertRows<T>(data: any[], errors: string[], convert: (row: any) => T): T[] {
+        const results: T[] = [];
+        for (const row of data) {
+            try {
+                results.push(convert(row));
+            } catch (error) {
+                errors.push(`第${row.rowNumber}行: ${error.message}`);
             }
         }
+        return results;
+    }
+
+    // 无法解析的金额不能当作 0 导入
+    private parseAmount(value: string | undefined, currency: string | undefined): Money {
+        const code = currency || this.settings.defaultCurrency;
+        const amount = parseMoney(value ?? '', code);
+        if (!amount) {
+            throw new Error(`金额 "${value ?? ''}" 不是有效的数字`);
+        }
+        return amount;
+    }
+
+    // Splits 列为以分号分隔的 "<金额> <分类>"
+    private parseSplits(value: string, currency: string | undefined): TransactionSplit[] | undefined {
+        const code = currency || this.settings.defaultCurrency;
+        const splits = value.split(';')
+            .map(part => parseSplit(part, code))
+            .filter((split): split is TransactionSplit => split !== null);
+        return splits.length > 0 ? splits : undefined;
     }
 
     private isValidDate(dateString: string): boolean {
         const regex = /^\d{4}-\d{2}-\d{2}$/;
         if (!regex.test(dateString)) return false;
 
-        const date = new Date(dateString);
+        const date = parseLedgerDate(dateString);
         return date instanceof Date && !isNaN(date.getTime());
     }
 } 
\ No newline at end of file
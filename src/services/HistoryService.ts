@@ -0,0 +1,110 @@
+export interface HistoryEntry {
+    label: string;
+    undo: () => Promise<void>;
+    redo: () => Promise<void>;
+}
+
+const MAX_ENTRIES = 100;
+
+/**
+ * 撤销/重做历史。各服务在修改成功后记录一条操作；
+ * 执行撤销或重做期间服务再次调用 record 时不会产生新的记录。
+ */
+export class HistoryService {
+    private undoStack: HistoryEntry[] = [];
+    private redoStack: HistoryEntry[] = [];
+    private applying: boolean = false;
+    // 执行 group 期间记录的操作
+    private grouped: HistoryEntry[] | null = null;
+
+    record(entry: HistoryEntry): void {
+        if (this.applying) {
+            return;
+        }
+        if (this.grouped) {
+            this.grouped.push(entry);
+            return;
+        }
+        this.undoStack.push(entry);
+        if (this.undoStack.length > MAX_ENTRIES) {
+            this.undoStack.shift();
+        }
+        this.redoStack = [];
+    }
+
+    // 把 action 执行期间记录的多条操作合并为一条，撤销时按相反顺序撤销
+    async group(label: string, action: () => Promise<void>): Promise<void> {
+        const entries: HistoryEntry[] = [];
+        this.grouped = entries;
+        try {
+            await action();
+        } finally {
+            this.grouped = null;
+            if (entries.length > 0) {
+                this.record({
+                    label,
+                    undo: async () => {
+                        for (const entry of [...entries].reverse()) {
+                            await entry.undo();
+                        }
+                    },
+                    redo: async () => {
+                        for (const entry of entries) {
+                            await entry.redo();
+                        }
+                    }
+                });
+            }
+        }
+    }
+
+    // 执行 action 期间不记录操作，由调用方把整个操作记录为一条
+    async withoutRecording(action: () => Promise<void>): Promise<void> {
+        await this.apply(action);
+    }
+
+    canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    // 返回被撤销的操作，没有可撤销的操作时返回 null
+    async undo(): Promise<HistoryEntry | null> {
+        const entry = this.undoStack.pop();
+        if (!entry) {
+            return null;
+        }
+        // 失败时丢弃该记录，文件可能已被外部修改
+        await this.apply(entry.undo);
+        this.redoStack.push(entry);
+        return entry;
+    }
+
+    async redo(): Promise<HistoryEntry | null> {
+        const entry = this.redoStack.pop();
+        if (!entry) {
+            return null;
+        }
+        await this.apply(entry.redo);
+        this.undoStack.push(entry);
+        return entry;
+    }
+
+    clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+
+    private async apply(action: () => Promise<void>): Promise<void> {
+        const applying = this.applying;
+        this.applying = true;
+        try {
+            await action();
+        } finally {
+            this.applying = applying;
+        }
+    }
+}
@@ -0,0 +1,301 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { format, startOfDay } from 'date-fns';
+import { FinanceSettings } from '../settings';
+import { Transaction } from '../types/Transaction';
+import { formatMoney, parseMoney, zeroMoney } from '../utils/money';
+import { normalizeTag } from '../utils/tags';
+import { parseLedgerDate } from './LedgerSchemas';
+import { WriteQueue } from './WriteQueue';
+
+const EXPENSE_MARKER = '💸';
+const INCOME_MARKER = '💰';
+const DATE_MARKER = '📅';
+const ID_MARKER = '🆔';
+
+// - 💸 35.00 CNY #餐饮 @现金 📅 2024-03-20 lunch
+const INLINE_PATTERN = /^(\s*[-*]\s+)(💸|💰)\s*(\d+(?:\.\d+)?)(?:\s+([A-Z]{3}))?(?=\s|$)(.*)$/u;
+
+/**
+ * 索引 vault 中任意笔记（例如日记）里的行内交易语法：
+ *
+ *   - 💸 35.00 CNY #餐饮 @现金 lunch
+ *   - 💰 5000 #工资 @银行卡 📅 2024-03-10 三月工资
+ *
+ * 💸 表示支出、💰 表示收入；货币省略时使用默认货币；第一个 #标签 是分类，其后的 #标签 是交易标签；
+ * 日期省略时取文件名中的 yyyy-MM-dd，否则取文件创建日期。
+ *
+ * ID 由行的内容计算，不随前后增删其他行而变化；插件改写一行时写入 🆔 标记保留原 ID，
+ * 因此编辑后的交易仍能被历史记录和链接找到。
+ */
+export class InlineTransactionIndex {
+    private app: App;
+    private settings: FinanceSettings;
+    // 文件路径 -> 该文件中的行内交易
+    private entries: Map<string, Transaction[]> = new Map();
+    // 交易 ID -> 索引时该行的原文，改写前用于确认该行没有被修改
+    private lines: Map<string, string> = new Map();
+    private indexed: boolean = false;
+    private writes: WriteQueue;
+
+    constructor(app: App, settings: FinanceSettings) {
+        this.app = app;
+        this.settings = settings;
+        this.writes = new WriteQueue(app, file => this.indexFile(file));
+    }
+
+    isEnabled(): boolean {
+        return this.settings.inlineTransactions;
+    }
+
+    async getTransactions(): Promise<Transaction[]> {
+        if (!this.isEnabled()) {
+            return [];
+        }
+        await this.ensureIndexed();
+        return this.getLoaded();
+    }
+
+    getLoaded(): Transaction[] {
+        if (!this.isEnabled()) {
+            return [];
+        }
+        return Array.from(this.entries.values()).flat();
+    }
+
+    find(id: string): Transaction | undefined {
+        return this.getLoaded().find(t => t.id === id);
+    }
+
+    // 笔记被修改后重新解析，返回其中的行内交易是否变化
+    async handleFileChange(path: string): Promise<boolean> {
+        if (!this.indexed || !this.isEnabled() || !this.isCandidatePath(path)) {
+            return false;
+        }
+        const previous = this.entries.get(path);
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (file instanceof TFile) {
+            await this.indexFile(file);
+        } else {
+            this.setEntries(path, []);
+        }
+        return JSON.stringify(previous ?? []) !== JSON.stringify(this.entries.get(path) ?? []);
+    }
+
+    // 用新的字段改写源笔记中的对应行
+    async update(transaction: Transaction): Promise<void> {
+        await this.rewriteLine(transaction, line => {
+            const prefix = line.match(INLINE_PATTERN)?.[1] ?? '- ';
+            return `${prefix}${this.formatInline(transaction)} ${ID_MARKER} ${this.getLocalId(transaction)}`;
+        });
+    }
+
+    // 从源笔记中删除对应行
+    async delete(transaction: Transaction): Promise<void> {
+        await this.rewriteLine(transaction, () => null);
+    }
+
+    private async ensureIndexed(): Promise<void> {
+        if (this.indexed) {
+            return;
+        }
+        const files = this.app.vault.getMarkdownFiles().filter(file => this.isCandidatePath(file.path));
+        await Promise.all(files.map(file => this.indexFile(file)));
+        this.indexed = true;
+    }
+
+    // 插件自己的账本和交易笔记不参与行内解析
+    private isCandidatePath(path: string): boolean {
+        if (!path.endsWith('.md') || path.endsWith('.finance.md')) {
+            return false;
+        }
+        const excluded = [this.settings.financeFilePath, this.settings.transactionNotesPath]
+            .map(folder => `${normalizePath(folder)}/`);
+        return !excluded.some(prefix => path.startsWith(prefix));
+    }
+
+    private async indexFile(file: TFile): Promise<void> {
+        try {
+            const content = await this.app.vault.cachedRead(file);
+            this.setEntries(file.path, this.parseContent(content, file), content);
+        } catch (error) {
+            console.error(`Failed to index inline transactions in ${file.path}:`, error);
+            this.setEntries(file.path, []);
+        }
+    }
+
+    private setEntries(path: string, transactions: Transaction[], content: string = ''): void {
+        for (const transaction of this.entries.get(path) ?? []) {
+            this.lines.delete(transaction.id);
+        }
+        const lines = content.split('\n');
+        for (const transaction of transactions) {
+            this.lines.set(transaction.id, lines[transaction.source?.line ?? -1] ?? '');
+        }
+        if (transactions.length > 0) {
+            this.entries.set(path, transactions);
+        } else {
+            this.entries.delete(path);
+        }
+    }
+
+    private parseContent(content: string, file: TFile): Transaction[] {
+        const transactions: Transaction[] = [];
+        const defaultDate = this.getDefaultDate(file);
+
+        this.findLines(content, file.path).forEach(({ id, index, line }) => {
+            const transaction = this.parseLine(line, defaultDate);
+            if (transaction) {
+                transactions.push({
+                    ...transaction,
+                    id,
+                    source: { path: file.path, line: index }
+                });
+            }
+        });
+
+        return transactions;
+    }
+
+    /**
+     * 文件中的行内交易行及其 ID：有 🆔 标记时使用标记，否则使用行内容的哈希；
+     * 内容完全相同的多行依次加上 -1、-2 等后缀。
+     */
+    private findLines(content: string, path: string): { id: string; index: number; line: string }[] {
+        const seen: Map<string, number> = new Map();
+        const results: { id: string; index: number; line: string }[] = [];
+        content.split('\n').forEach((line, index) => {
+            if (!INLINE_PATTERN.test(line)) {
+                return;
+            }
+            const key = line.match(/🆔\s*(\S+)/u)?.[1] ?? hashLine(line);
+            const count = seen.get(key) ?? 0;
+            seen.set(key, count + 1);
+            results.push({ id: `inline:${path}:${count > 0 ? `${key}-${count}` : key}`, index, line });
+        });
+        return results;
+    }
+
+    // 去掉 inline:<路径>: 前缀后的部分，写入 🆔 标记
+    private getLocalId(transaction: Transaction): string {
+        return transaction.id.slice(`inline:${transaction.source?.path ?? ''}:`.length);
+    }
+
+    private parseLine(line: string, defaultDate: Date): Omit<Transaction, 'id'> | null {
+        const match = line.match(INLINE_PATTERN);
+        if (!match) {
+            return null;
+        }
+        const [, , marker, amount, currency, rest] = match;
+        let category = '';
+        let account = this.settings.defaultAccount;
+        let date = defaultDate;
+        const descriptionParts: string[] = [];
+        const tags: string[] = [];
+
+        const tokens = rest.trim().split(/\s+/).filter(Boolean);
+        for (let i = 0; i < tokens.length; i++) {
+            const token = tokens[i];
+            if (token.startsWith('#') && token.length > 1 && !category) {
+                category = token.slice(1);
+            } else if (token.startsWith('#') && normalizeTag(token)) {
+                // 分类之后的 #标签 作为交易标签
+                const tag = normalizeTag(token)!;
+                if (!tags.includes(tag)) {
+                    tags.push(tag);
+                }
+            } else if (token.startsWith('@') && token.length > 1) {
+                account = token.slice(1);
+            } else if (token.startsWith(ID_MARKER)) {
+                // 🆔 标记只用于识别，不属于描述
+                if (token.length === ID_MARKER.length) {
+                    i++;
+                }
+            } else if (token.startsWith(DATE_MARKER)) {
+                // 兼容 "📅2024-03-20" 和 "📅 2024-03-20"
+                const value = token.length > DATE_MARKER.length ? token.slice(DATE_MARKER.length) : tokens[++i];
+                const parsed = value ? parseLedgerDate(value) : null;
+                if (parsed && !isNaN(parsed.getTime())) {
+                    date = parsed;
+                }
+            } else {
+                descriptionParts.push(token);
+            }
+        }
+
+        const code = currency || this.settings.defaultCurrency;
+        return {
+            date,
+            amount: parseMoney(amount, code) ?? zeroMoney(code),
+            type: marker === INCOME_MARKER ? 'income' : 'expense',
+            category: category || '其他',
+            account,
+            description: descriptionParts.length > 0 ? descriptionParts.join(' ') : undefined,
+            tags
+        };
+    }
+
+    private formatInline(transaction: Transaction): string {
+        const parts = [
+            transaction.type === 'income' ? INCOME_MARKER : EXPENSE_MARKER,
+            formatMoney(transaction.amount),
+            transaction.amount.currency,
+            `#${transaction.category}`,
+            ...transaction.tags.map(tag => `#${tag}`),
+            `@${transaction.account}`,
+            `${DATE_MARKER} ${format(transaction.date, 'yyyy-MM-dd')}`
+        ];
+        if (transaction.description) {
+            parts.push(transaction.description);
+        }
+        return parts.join(' ');
+    }
+
+    // 日记文件名中的日期优先，否则使用文件创建日期
+    private getDefaultDate(file: TFile): Date {
+        const match = file.basename.match(/\d{4}-\d{2}-\d{2}/);
+        if (match) {
+            const date = parseLedgerDate(match[0]);
+            if (!isNaN(date.getTime())) {
+                return date;
+            }
+        }
+        return startOfDay(new Date(file.stat.ctime));
+    }
+
+    /**
+     * 经写入队列改写源笔记中的对应行。按 ID 重新定位该行，
+     * 行内容与索引时不同（在笔记中被修改过）时不覆盖。
+     */
+    private async rewriteLine(transaction: Transaction, replace: (line: string) => string | null): Promise<void> {
+        const source = transaction.source;
+        const file = source ? this.app.vault.getAbstractFileByPath(source.path) : null;
+        const expected = this.lines.get(transaction.id);
+        if (!source || !(file instanceof TFile) || expected === undefined) {
+            throw new Error('Inline transaction source not found');
+        }
+        await this.writes.enqueue(file, content => {
+            const lines = content.split('\n');
+            const target = this.findLines(content, file.path).find(entry => entry.id === transaction.id);
+            if (!target || lines[target.index] !== expected) {
+                throw new Error('Inline transaction has changed; please edit it in its note');
+            }
+            const replacement = replace(lines[target.index]);
+            if (replacement === null) {
+                lines.splice(target.index, 1);
+            } else {
+                lines[target.index] = replacement;
+            }
+            return lines.join('\n');
+        });
+    }
+}
+
+// 行内容的短哈希（djb2），忽略行首缩进和列表符号前后的空白
+function hashLine(line: string): string {
+    const text = line.trim().replace(/\s+/g, ' ');
+    let hash = 5381;
+    for (let i = 0; i < text.length; i++) {
+        hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(36);
+}
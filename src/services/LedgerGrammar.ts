@@ -0,0 +1,221 @@
+/**
+ * `*.finance.md` 账本的通用语法：
+ *
+ *   ## <Title> <id>
+ *
+ *   - Key: value
+ *   - Description: "含有换行\n或以引号开头的值会被转义"
+ *
+ * 区块由二级标题开始，字段行紧随其后（标题与字段之间允许空行），
+ * 第一个非字段行结束区块。区块之外的内容（文件头、用户笔记）以及区块中未知的字段在修改时原样保留。
+ */
+
+export interface LedgerField {
+    key: string;
+    value: string;
+}
+
+export interface LedgerBlockField extends LedgerField {
+    // 字段所在行号（从 0 开始）
+    line: number;
+}
+
+export interface LedgerBlock {
+    title: string;
+    id: string;
+    fields: LedgerBlockField[];
+    // 标题行和最后一个字段行的行号（从 0 开始）
+    start: number;
+    end: number;
+}
+
+// 写入时按顺序输出的字段；值为 undefined 的字段不写入
+export type LedgerFieldValues = [string, string | undefined][];
+
+const HEADING_PATTERN = /^## (.*?)\s+(\S+)\s*$/;
+const FIELD_PATTERN = /^- ([A-Za-z][A-Za-z0-9 _-]*?):(?: (.*))?$/;
+
+// 需要转义的值：空串、首尾空白、换行、或以引号开头（否则读回时会被当成转义值）
+export function encodeValue(value: string): string {
+    if (value === '' || value !== value.trim() || /[\r\n]/.test(value) || value.startsWith('"')) {
+        return JSON.stringify(value);
+    }
+    return value;
+}
+
+export function decodeValue(raw: string): string {
+    if (raw.length >= 2 && raw.startsWith('"') && raw.endsWith('"')) {
+        try {
+            const value = JSON.parse(raw);
+            if (typeof value === 'string') {
+                return value;
+            }
+        } catch (error) {
+            // 不是合法的转义值，按原文处理
+        }
+    }
+    return raw.trim();
+}
+
+export function parseField(line: string): LedgerField | null {
+    const match = line.match(FIELD_PATTERN);
+    return match ? { key: match[1].trim(), value: decodeValue(match[2] ?? '') } : null;
+}
+
+export function parseBlocks(content: string): LedgerBlock[] {
+    const lines = content.split('\n').map(line => line.replace(/\r$/, ''));
+    const blocks: LedgerBlock[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        const heading = lines[i].match(HEADING_PATTERN);
+        if (!heading) {
+            continue;
+        }
+        const block: LedgerBlock = { title: heading[1], id: heading[2], fields: [], start: i, end: i };
+        let j = i + 1;
+        while (j < lines.length && lines[j].trim() === '' && block.fields.length === 0) {
+            j++;
+        }
+        for (; j < lines.length; j++) {
+            const field = parseField(lines[j]);
+            if (!field) {
+                break;
+            }
+            block.fields.push({ ...field, line: j });
+            block.end = j;
+        }
+        blocks.push(block);
+        i = block.end;
+    }
+
+    return blocks;
+}
+
+export function getFieldMap(block: LedgerBlock): Map<string, string> {
+    // 重复的字段以第一次出现为准
+    const map: Map<string, string> = new Map();
+    for (const field of block.fields) {
+        if (!map.has(field.key)) {
+            map.set(field.key, field.value);
+        }
+    }
+    return map;
+}
+
+export function formatField(key: string, value: string): string {
+    return `- ${key}: ${encodeValue(value)}`;
+}
+
+export function formatBlock(title: string, id: string, values: LedgerFieldValues): string {
+    const fields = values
+        .filter((entry): entry is [string, string] => entry[1] !== undefined)
+        .map(([key, value]) => formatField(key, value));
+    return `## ${title} ${id}\n\n${fields.join('\n')}\n\n`;
+}
+
+function findBlock(content: string, title: string, id: string): LedgerBlock | undefined {
+    return parseBlocks(content).find(block =>
+        block.title === title && (block.id === id || getFieldMap(block).get('ID') === id)
+    );
+}
+
+export function hasBlock(content: string, title: string, id: string): boolean {
+    return findBlock(content, title, id) !== undefined;
+}
+
+// 在文件末尾追加区块，保证与前面的内容之间有空行
+export function appendBlock(content: string, block: string): string {
+    if (content === '' || content.endsWith('\n\n')) {
+        return content + block;
+    }
+    return content + (content.endsWith('\n') ? '\n' : '\n\n') + block;
+}
+
+/**
+ * 改写区块中的已知字段：已有的行原地替换，新字段追加到区块末尾，值为 undefined 的字段被删除；
+ * 不在 values 中的字段（用户自定义字段）和区块外的内容保持不变。找不到区块时原样返回。
+ */
+export function updateBlock(content: string, title: string, id: string, values: LedgerFieldValues): string {
+    const block = findBlock(content, title, id);
+    if (!block) {
+        return content;
+    }
+    const lines = content.split('\n');
+    const pending = new Map(values);
+    const fieldLines: string[] = [];
+
+    for (let i = block.start + 1; i <= block.end; i++) {
+        const field = parseField(lines[i]);
+        if (!field) {
+            // 标题和字段之间的空行
+            fieldLines.push(lines[i]);
+            continue;
+        }
+        if (!pending.has(field.key)) {
+            fieldLines.push(lines[i]);
+            continue;
+        }
+        const value = pending.get(field.key);
+        pending.delete(field.key);
+        if (value !== undefined) {
+            fieldLines.push(formatField(field.key, value));
+        }
+    }
+    for (const [key, value] of values) {
+        if (pending.has(key) && value !== undefined) {
+            fieldLines.push(formatField(key, value));
+        }
+    }
+    if (!fieldLines.some(line => line.trim() !== '')) {
+        fieldLines.length = 0;
+    } else if (fieldLines[0].trim() !== '') {
+        fieldLines.unshift('');
+    }
+
+    return [
+        ...lines.slice(0, block.start),
+        `## ${title} ${id}`,
+        ...fieldLines,
+        ...lines.slice(block.end + 1)
+    ].join('\n');
+}
+
+// 删除区块及其后的一个空行，区块前后的其他内容保留
+export function removeBlock(content: string, title: string, id: string): string {
+    const block = findBlock(content, title, id);
+    if (!block) {
+        return content;
+    }
+    const lines = content.split('\n');
+    let end = block.end + 1;
+    if (end < lines.length && lines[end].trim() === '') {
+        end++;
+    }
+    return [...lines.slice(0, block.start), ...lines.slice(end)].join('\n');
+}
+
+/**
+ * 逐个改写所有区块中的字段值：rewrite 返回新值时原地替换该行，返回 undefined 时保持不变。
+ * 返回改写后的内容和发生变化的区块数。
+ */
+export function rewriteFields(
+    content: string,
+    rewrite: (block: LedgerBlock, field: LedgerBlockField) => string | undefined
+): { content: string; changed: number } {
+    const lines = content.split('\n');
+    let changed = 0;
+    for (const block of parseBlocks(content)) {
+        let blockChanged = false;
+        for (const field of block.fields) {
+            const value = rewrite(block, field);
+            if (value !== undefined && value !== field.value) {
+                lines[field.line] = formatField(field.key, value);
+                blockChanged = true;
+            }
+        }
+        if (blockChanged) {
+            changed++;
+        }
+    }
+    return { content: changed > 0 ? lines.join('\n') : content, changed };
+}
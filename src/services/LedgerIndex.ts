@@ -0,0 +1,166 @@
+import { App, TFile, TFolder } from 'obsidian';
+import { FinanceSettings } from '../settings';
+import { MigrationService } from './MigrationService';
+import { WriteQueue } from './WriteQueue';
+
+/**
+ * 多年份账本索引：发现 `<financeFilePath>/<year>/<fileName>` 文件，
+ * 按年份懒加载并缓存解析结果。读取时先把旧格式的文件迁移到当前格式。
+ */
+export class LedgerIndex<T> {
+    private app: App;
+    private settings: FinanceSettings;
+    private fileName: string;
+    private parse: (content: string) => T[];
+    private migrations: MigrationService;
+    private writes: WriteQueue;
+    private cache: Map<number, T[]> = new Map();
+    // 最近一次读取的文件内容，用于判断外部修改是否真的改变了文件
+    private contents: Map<number, string> = new Map();
+
+    constructor(app: App, settings: FinanceSettings, fileName: string, parse: (content: string) => T[]) {
+        this.app = app;
+        this.settings = settings;
+        this.fileName = fileName;
+        this.parse = parse;
+        this.migrations = new MigrationService(app, settings);
+        this.writes = new WriteQueue(app, file => this.reloadPath(file.path));
+    }
+
+    getFilePath(year: number): string {
+        return `${this.settings.financeFilePath}/${year}/${this.fileName}`;
+    }
+
+    // 从文件路径解析年份，不属于该账本时返回 null
+    getYearForPath(path: string): number | null {
+        const prefix = `${this.settings.financeFilePath}/`;
+        if (!path.startsWith(prefix)) {
+            return null;
+        }
+        const match = path.slice(prefix.length).match(/^(\d{4})\/(.+)$/);
+        if (!match || match[2] !== this.fileName) {
+            return null;
+        }
+        return parseInt(match[1]);
+    }
+
+    // 把旧文件名的账本移动到当前文件名，应在首次加载前调用
+    async relocateLegacyFiles(): Promise<void> {
+        const kind = this.migrations.getKind(this.fileName);
+        if (kind) {
+            await this.migrations.relocateLegacyFiles(kind);
+        }
+    }
+
+    // 扫描 vault，返回存在账本文件的所有年份（升序）
+    getYears(): number[] {
+        const root = this.app.vault.getAbstractFileByPath(this.settings.financeFilePath);
+        if (!(root instanceof TFolder)) {
+            return [];
+        }
+        const years: number[] = [];
+        for (const child of root.children) {
+            if (!(child instanceof TFolder) || !/^\d{4}$/.test(child.name)) {
+                continue;
+            }
+            const year = parseInt(child.name);
+            if (this.app.vault.getAbstractFileByPath(this.getFilePath(year)) instanceof TFile) {
+                years.push(year);
+            }
+        }
+        return years.sort((a, b) => a - b);
+    }
+
+    // 返回与日期范围相交的年份，未指定边界时视为不限
+    getYearsInRange(startDate?: Date, endDate?: Date): number[] {
+        return this.getYears().filter(year =>
+            (!startDate || year >= startDate.getFullYear()) &&
+            (!endDate || year <= endDate.getFullYear())
+        );
+    }
+
+    async load(years: number[]): Promise<T[]> {
+        await Promise.all(
+            years.filter(year => !this.cache.has(year)).map(year => this.reload(year))
+        );
+        return years.flatMap(year => this.cache.get(year) ?? []);
+    }
+
+    async loadRange(startDate?: Date, endDate?: Date): Promise<T[]> {
+        return this.load(this.getYearsInRange(startDate, endDate));
+    }
+
+    // 重新读取并解析指定年份的文件
+    async reload(year: number): Promise<T[]> {
+        const file = this.app.vault.getAbstractFileByPath(this.getFilePath(year));
+        if (!(file instanceof TFile)) {
+            this.cache.delete(year);
+            this.contents.delete(year);
+            return [];
+        }
+        let items: T[];
+        try {
+            const content = await this.migrations.migrate(file, await this.app.vault.read(file));
+            items = this.parse(content);
+            this.contents.set(year, content);
+        } catch (error) {
+            console.error(`Failed to load ${this.fileName} for year ${year}:`, error);
+            items = [];
+            this.contents.delete(year);
+        }
+        this.cache.set(year, items);
+        return items;
+    }
+
+    /**
+     * 排队修改账本文件。同一文件上排队中的修改合并为一次写入，
+     * 写入后只重新解析一次，完成时缓存已是最新内容。
+     */
+    async modify(file: TFile, mutate: (content: string) => string): Promise<void> {
+        await this.writes.enqueue(file, mutate);
+    }
+
+    private async reloadPath(path: string): Promise<void> {
+        const year = this.getYearForPath(path);
+        if (year !== null) {
+            await this.reload(year);
+        }
+    }
+
+    /**
+     * 响应 vault 中的文件变动（修改、重命名、删除）。
+     * 只重新解析受影响的年份，内容未变化时返回 false。
+     */
+    async refreshPath(path: string): Promise<boolean> {
+        const year = this.getYearForPath(path);
+        if (year === null) {
+            return false;
+        }
+        const previous = this.contents.get(year);
+        const wasLoaded = this.cache.has(year);
+        await this.reload(year);
+        return !wasLoaded || this.contents.get(year) !== previous;
+    }
+
+    isLoaded(year: number): boolean {
+        return this.cache.has(year);
+    }
+
+    // 已加载的全部条目，按年份排列
+    getLoaded(): T[] {
+        return Array.from(this.cache.keys())
+            .sort((a, b) => a - b)
+            .flatMap(year => this.cache.get(year) ?? []);
+    }
+
+    getLoadedYear(year: number): T[] {
+        return this.cache.get(year) ?? [];
+    }
+
+    // 已加载的年份中包含该条目的年份，用于把修改写回条目所在的文件
+    findLoadedYear(match: (item: T) => boolean): number | undefined {
+        return Array.from(this.cache.keys())
+            .sort((a, b) => a - b)
+            .find(year => this.cache.get(year)!.some(match));
+    }
+}
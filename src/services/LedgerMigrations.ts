@@ -0,0 +1,117 @@
+import { FinanceSettings } from '../settings';
+
+export type LedgerKind = 'transactions' | 'budgets' | 'recurring-transactions';
+
+export const LEDGER_KINDS: LedgerKind[] = ['transactions', 'budgets', 'recurring-transactions'];
+
+export interface MigrationContext {
+    settings: FinanceSettings;
+}
+
+export interface LedgerMigration {
+    // 迁移完成后的格式版本，从 1 开始连续递增
+    version: number;
+    description: string;
+    // 转换整个文件内容；不适用的账本类型原样返回
+    migrate(content: string, kind: LedgerKind, context: MigrationContext): string;
+}
+
+/**
+ * 各账本类型曾经使用过的旧文件名，加载前会被重命名为 `<kind>.finance.md`。
+ */
+export const LEGACY_FILE_NAMES: Record<LedgerKind, string[]> = {
+    'transactions': [],
+    'budgets': [],
+    'recurring-transactions': ['recurrent transactions.finance.md']
+};
+
+// 旧版本的单行格式：`- 金额 - 分类 - 周期 - 货币 - 描述`
+const LEGACY_BUDGET_LINE = /^- (.*?) - (.*?) - (.*?) - (.*?) - (.*?)$/;
+// 旧版本的单行格式：`- 金额 - 类型 - 分类 - 账户 - 频率 - 开始日期 - 结束日期 - 描述`
+const LEGACY_RECURRING_LINE = /^- (.*?) - (.*?) - (.*?) - (.*?) - (.*?) - (.*?) - (.*?) - (.*?)$/;
+// 区块格式中的字段行，不能当成旧格式处理
+const FIELD_LINE = /^- [A-Za-z ]+: /;
+// v1 区块中会写出的字段
+const V1_FIELD_LINE = /^- (Date|Amount|Type|Category|Account|Description|Period|Frequency|Start Date|End Date|Currency|ID):(?: (.*))?$/;
+
+function convertLegacyLines(content: string, pattern: RegExp, toBlock: (fields: string[]) => string): string {
+    return content
+        .split('\n')
+        .map(line => {
+            if (FIELD_LINE.test(line)) {
+                return line;
+            }
+            const match = line.match(pattern);
+            return match ? toBlock(match.slice(1).map(value => value.trim())) : line;
+        })
+        .join('\n');
+}
+
+/**
+ * 按版本顺序排列的迁移。
+ * 每个迁移都是当时格式的快照，不要引用服务中的格式化代码，以免随之后的修改而变化。
+ */
+export const LEDGER_MIGRATIONS: LedgerMigration[] = [
+    {
+        version: 1,
+        description: 'Convert one-line budgets and recurring transactions into blocks',
+        migrate(content, kind, context) {
+            if (kind === 'budgets') {
+                return convertLegacyLines(content, LEGACY_BUDGET_LINE, ([amount, category, period, currency, description]) => {
+                    const id = crypto.randomUUID();
+                    return `## Budget ${id}
+
+- Amount: ${amount}
+- Category: ${category}
+- Period: ${period}
+- Description: ${description}
+- Currency: ${currency}
+- ID: ${id}
+`;
+                });
+            }
+            if (kind === 'recurring-transactions') {
+                return convertLegacyLines(content, LEGACY_RECURRING_LINE, ([amount, type, category, account, frequency, startDate, endDate, description]) => {
+                    const id = crypto.randomUUID();
+                    return `## Recurring Transaction ${id}
+
+- Amount: ${amount}
+- Type: ${type}
+- Category: ${category}
+- Account: ${account}
+- Description: ${description}
+- Frequency: ${frequency}
+- Start Date: ${startDate}
+- End Date: ${endDate}
+- Currency: ${context.settings.defaultCurrency}
+- ID: ${id}
+`;
+                });
+            }
+            return content;
+        }
+    },
+    {
+        version: 2,
+        description: 'Quote values that start with a quote and drop empty or "undefined" fields',
+        migrate(content) {
+            return content
+                .split('\n')
+                .filter(line => {
+                    const match = line.match(V1_FIELD_LINE);
+                    const value = (match?.[2] ?? '').trim();
+                    // v1 把未设置的描述写成 "undefined"，把未设置的结束日期写成空值
+                    return !match || (value !== '' && !(match[1] === 'Description' && value === 'undefined'));
+                })
+                .map(line => {
+                    const match = line.match(V1_FIELD_LINE);
+                    const value = (match?.[2] ?? '').trim();
+                    // v2 中以引号开头的值表示转义字符串，旧值需要加上转义才能原样读回
+                    return match && value.startsWith('"') ? `- ${match[1]}: ${JSON.stringify(value)}` : line;
+                })
+                .join('\n');
+        }
+    }
+];
+
+export const CURRENT_FORMAT_VERSION = Math.max(0, ...LEDGER_MIGRATIONS.map(m => m.version));
@@ -0,0 +1,435 @@
+import { format, isValid, parse } from 'date-fns';
+import { FinanceSettings } from '../settings';
+import { CLEARED_STATUSES, ClearedStatus, TRANSACTION_TYPES, Transaction, TransactionSplit, TransactionType } from '../types/Transaction';
+import { Budget } from '../types/Budget';
+import { RecurringTransaction } from '../types/RecurringTransaction';
+import { Money } from '../types/Money';
+import { Merchant } from '../types/Merchant';
+import { ACCOUNT_KINDS, Account, AccountKind, BalanceSnapshot } from '../types/Account';
+import { formatMoney, parseMoney, zeroMoney } from '../utils/money';
+import { formatTags, parseTags } from '../utils/tags';
+import { formatLinks, parseLinks } from '../utils/links';
+import { SPLIT_FIELD_PATTERN, formatSplit, getSplitError, parseSplit } from '../utils/splits';
+import { PATTERN_FIELD_PATTERN, compilePattern, formatAliases, parseAliases } from '../utils/merchants';
+import { LedgerKind } from './LedgerMigrations';
+import {
+    LedgerBlock,
+    LedgerFieldValues,
+    appendBlock,
+    formatBlock,
+    getFieldMap,
+    hasBlock,
+    parseBlocks,
+    removeBlock,
+    updateBlock
+} from './LedgerGrammar';
+
+/**
+ * 一种账本记录与区块字段之间的映射。
+ * toFields 与 fromFields 互为逆运算：fromFields(toFields(x)) 与 x 相等（日期精确到天）。
+ */
+export interface LedgerSchema<T extends { id: string }> {
+    title: string;
+    // 缺少时记录无法正常使用的字段
+    required: string[];
+    // 数量可变的字段（如 Split 1、Split 2），改写记录时不再出现的被删除而不是当作自定义字段保留
+    dynamicFields?: RegExp;
+    // 取值受限的字段，其他取值使记录无效
+    allowedValues?: Record<string, string[]>;
+    toFields(record: T): LedgerFieldValues;
+    fromFields(fields: Map<string, string>, settings: FinanceSettings): T;
+}
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+// 按本地时区解析日期，避免 new Date('2024-03-20') 被当作 UTC 零点而在西半球变成前一天
+export function parseLedgerDate(value: string): Date {
+    const date = parse(value, DATE_FORMAT, new Date());
+    return isValid(date) ? date : new Date(value);
+}
+
+export function formatLedgerDate(date: Date): string {
+    return format(date, DATE_FORMAT);
+}
+
+// Created At 等时间戳以 ISO 8601 写入，无法解析时视为缺失
+function parseTimestamp(value: string | undefined): Date | undefined {
+    const date = value ? new Date(value) : undefined;
+    return date && !isNaN(date.getTime()) ? date : undefined;
+}
+
+export const DATE_FIELDS = ['Date', 'Start Date', 'End Date', 'Opening Date'];
+
+// 找到第一个无法解析的日期字段
+function findInvalidDate(fields: Map<string, string>): string | undefined {
+    return DATE_FIELDS.find(key => fields.has(key) && isNaN(parseLedgerDate(fields.get(key)!).getTime()));
+}
+
+/**
+ * 返回区块中第一个无法使用的字段：必填字段缺失、金额无法解析、日期无效，
+ * 拆分行无法解析或金额之和与交易金额不符，转账缺少转入账户，商户的正则表达式无法编译，
+ * 或账户的类型、期初余额、余额记录的金额无效。
+ * 这样的区块在解析时被跳过，由校验命令报告给用户。
+ */
+export function findInvalidField<T extends { id: string }>(
+    fields: Map<string, string>,
+    schema: LedgerSchema<T>,
+    settings: FinanceSettings
+): string | undefined {
+    const missing = schema.required.find(key => !fields.get(key));
+    if (missing) {
+        return missing;
+    }
+    const invalidValue = Object.entries(schema.allowedValues ?? {})
+        .find(([key, allowed]) => fields.get(key) && !allowed.includes(fields.get(key)!));
+    if (invalidValue) {
+        return invalidValue[0];
+    }
+    const invalidPattern = Array.from(fields.keys())
+        .find(key => PATTERN_FIELD_PATTERN.test(key) && !compilePattern(fields.get(key)!));
+    if (invalidPattern) {
+        return invalidPattern;
+    }
+    const currency = fields.get('Currency') || settings.defaultCurrency;
+    // 商户、账户等没有金额的记录
+    if (!schema.required.includes('Amount')) {
+        const invalidBalance = ['Opening Balance', 'Balance']
+            .find(key => fields.has(key) && !parseMoney(fields.get(key)!, currency));
+        if (invalidBalance) {
+            return invalidBalance;
+        }
+        return findInvalidDate(fields);
+    }
+    const amount = parseMoney(fields.get('Amount') ?? '', currency);
+    if (!amount) {
+        return 'Amount';
+    }
+    const splitKeys = getSplitKeys(fields);
+    const splits = splitKeys.map(key => parseSplit(fields.get(key)!, currency));
+    const invalidSplit = splitKeys.find((key, i) => !splits[i]);
+    if (invalidSplit) {
+        return invalidSplit;
+    }
+    if (splits.length > 0 && getSplitError(amount, splits as TransactionSplit[])) {
+        return splitKeys[0];
+    }
+    if (fields.get('Type') === 'transfer' && !fields.get('To Account')) {
+        return 'To Account';
+    }
+    if (fields.has('Fee') && !parseMoney(fields.get('Fee')!, currency)) {
+        return 'Fee';
+    }
+    if (fields.has('To Amount') && !parseMoney(fields.get('To Amount')!, fields.get('To Currency') || currency)) {
+        return 'To Amount';
+    }
+    return findInvalidDate(fields);
+}
+
+// 按编号排列的拆分字段
+export function getSplitKeys(fields: Map<string, string>): string[] {
+    return Array.from(fields.keys())
+        .filter(key => SPLIT_FIELD_PATTERN.test(key))
+        .sort((a, b) => parseInt(a.slice(6), 10) - parseInt(b.slice(6), 10));
+}
+
+function readSplits(fields: Map<string, string>, currency: string): TransactionSplit[] | undefined {
+    const splits = getSplitKeys(fields)
+        .map(key => parseSplit(fields.get(key)!, currency))
+        .filter((split): split is TransactionSplit => split !== null);
+    return splits.length > 0 ? splits : undefined;
+}
+
+// 可选的金额字段，缺失或无法解析时为 undefined
+function readOptionalMoney(value: string | undefined, currency: string): Money | undefined {
+    return value ? parseMoney(value, currency) ?? undefined : undefined;
+}
+
+// 没有链接时为 undefined
+function readLinks(value: string | undefined): string[] | undefined {
+    const links = parseLinks(value ?? '');
+    return links.length > 0 ? links : undefined;
+}
+
+// 没有 Currency 字段的旧记录使用默认货币
+function readAmount(fields: Map<string, string>, settings: FinanceSettings): Money {
+    const currency = fields.get('Currency') || settings.defaultCurrency;
+    return parseMoney(fields.get('Amount') ?? '', currency) ?? zeroMoney(currency);
+}
+
+export const TRANSACTION_SCHEMA: LedgerSchema<Transaction> = {
+    title: 'Transaction',
+    required: ['Date', 'Amount', 'Type', 'Category', 'Account', 'ID'],
+    allowedValues: {
+        'Type': TRANSACTION_TYPES,
+        'Reconciliation': CLEARED_STATUSES,
+        'To Reconciliation': CLEARED_STATUSES
+    },
+    dynamicFields: SPLIT_FIELD_PATTERN,
+    toFields: transaction => [
+        ['Date', formatLedgerDate(transaction.date)],
+        ['Amount', formatMoney(transaction.amount)],
+        ['Type', transaction.type],
+        ['Category', transaction.category],
+        ...(transaction.splits ?? []).map((split, i): [string, string] => [`Split ${i + 1}`, formatSplit(split)]),
+        ['Account', transaction.account],
+        ['To Account', transaction.toAccount],
+        ['To Amount', transaction.toAmount ? formatMoney(transaction.toAmount) : undefined],
+        ['To Currency', transaction.toAmount?.currency],
+        ['Fee', transaction.fee ? formatMoney(transaction.fee) : undefined],
+        ['Description', transaction.description],
+        ['Payee', transaction.payee],
+        ['Tags', transaction.tags.length > 0 ? formatTags(transaction.tags) : undefined],
+        ['Links', transaction.links?.length ? formatLinks(transaction.links) : undefined],
+        ['Attachments', transaction.attachments?.length ? formatLinks(transaction.attachments) : undefined],
+        ['Reconciliation', transaction.status],
+        ['To Reconciliation', transaction.toStatus],
+        ['Currency', transaction.amount.currency],
+        ['ID', transaction.id],
+        ['Created At', transaction.createdAt?.toISOString()],
+        ['Updated At', transaction.updatedAt?.toISOString()]
+    ],
+    fromFields: (fields, settings) => {
+        const currency = fields.get('Currency') || settings.defaultCurrency;
+        return {
+            id: fields.get('ID') ?? '',
+            date: parseLedgerDate(fields.get('Date') ?? ''),
+            amount: readAmount(fields, settings),
+            type: fields.get('Type') as TransactionType,
+            category: fields.get('Category') ?? '',
+            splits: readSplits(fields, currency),
+            account: fields.get('Account') ?? '',
+            toAccount: fields.get('To Account'),
+            toAmount: readOptionalMoney(fields.get('To Amount'), fields.get('To Currency') || currency),
+            fee: readOptionalMoney(fields.get('Fee'), currency),
+            description: fields.get('Description'),
+            payee: fields.get('Payee'),
+            tags: parseTags(fields.get('Tags') ?? ''),
+            links: readLinks(fields.get('Links')),
+            attachments: readLinks(fields.get('Attachments')),
+            status: (fields.get('Reconciliation') || undefined) as ClearedStatus | undefined,
+            toStatus: (fields.get('To Reconciliation') || undefined) as ClearedStatus | undefined,
+            createdAt: parseTimestamp(fields.get('Created At')),
+            updatedAt: parseTimestamp(fields.get('Updated At'))
+        };
+    }
+};
+
+export const BUDGET_SCHEMA: LedgerSchema<Budget> = {
+    title: 'Budget',
+    required: ['Amount', 'Category', 'Period', 'ID'],
+    allowedValues: {
+        'Period': ['monthly', 'yearly'],
+        'Status': ['active', 'completed', 'cancelled']
+    },
+    toFields: budget => [
+        ['Amount', formatMoney(budget.amount)],
+        ['Category', budget.category],
+        ['Period', budget.period],
+        ['Description', budget.description],
+        ['Status', budget.status],
+        ['Currency', budget.amount.currency],
+        ['ID', budget.id]
+    ],
+    fromFields: (fields, settings) => ({
+        id: fields.get('ID') ?? '',
+        amount: readAmount(fields, settings),
+        category: fields.get('Category') ?? '',
+        period: fields.get('Period') as 'monthly' | 'yearly',
+        description: fields.get('Description'),
+        status: fields.get('Status') as Budget['status']
+    })
+};
+
+export const RECURRING_TRANSACTION_SCHEMA: LedgerSchema<RecurringTransaction> = {
+    title: 'Recurring Transaction',
+    required: ['Amount', 'Type', 'Category', 'Account', 'Frequency', 'Start Date', 'ID'],
+    allowedValues: {
+        'Type': ['income', 'expense'],
+        'Frequency': ['daily', 'weekly', 'monthly', 'yearly']
+    },
+    toFields: transaction => [
+        ['Amount', formatMoney(transaction.amount)],
+        ['Type', transaction.type],
+        ['Category', transaction.category],
+        ['Account', transaction.account],
+        ['Description', transaction.description],
+        ['Frequency', transaction.frequency],
+        ['Start Date', formatLedgerDate(transaction.startDate)],
+        ['End Date', transaction.endDate ? formatLedgerDate(transaction.endDate) : undefined],
+        ['Currency', transaction.amount.currency],
+        ['ID', transaction.id]
+    ],
+    fromFields: (fields, settings) => {
+        const endDate = fields.get('End Date');
+        return {
+            id: fields.get('ID') ?? '',
+            amount: readAmount(fields, settings),
+            type: fields.get('Type') as 'income' | 'expense',
+            category: fields.get('Category') ?? '',
+            account: fields.get('Account') ?? '',
+            description: fields.get('Description'),
+            frequency: fields.get('Frequency') as RecurringTransaction['frequency'],
+            startDate: parseLedgerDate(fields.get('Start Date') ?? ''),
+            endDate: endDate ? parseLedgerDate(endDate) : undefined
+        };
+    }
+};
+
+// 按编号排列的正则字段
+function readPatterns(fields: Map<string, string>): string[] {
+    return Array.from(fields.keys())
+        .filter(key => PATTERN_FIELD_PATTERN.test(key))
+        .sort((a, b) => parseInt(a.slice(8), 10) - parseInt(b.slice(8), 10))
+        .map(key => fields.get(key)!)
+        .filter(pattern => pattern);
+}
+
+export const MERCHANT_SCHEMA: LedgerSchema<Merchant> = {
+    title: 'Merchant',
+    required: ['Name', 'ID'],
+    dynamicFields: PATTERN_FIELD_PATTERN,
+    toFields: merchant => [
+        ['Name', merchant.name],
+        ['Aliases', merchant.aliases.length > 0 ? formatAliases(merchant.aliases) : undefined],
+        ...merchant.patterns.map((pattern, i): [string, string] => [`Pattern ${i + 1}`, pattern]),
+        ['ID', merchant.id]
+    ],
+    fromFields: fields => ({
+        id: fields.get('ID') ?? '',
+        name: fields.get('Name') ?? '',
+        aliases: parseAliases(fields.get('Aliases') ?? ''),
+        patterns: readPatterns(fields)
+    })
+};
+
+export const ACCOUNT_SCHEMA: LedgerSchema<Account> = {
+    title: 'Account',
+    required: ['Name', 'Kind', 'Currency', 'ID'],
+    allowedValues: {
+        'Kind': ACCOUNT_KINDS,
+        'Archived': ['true', 'false']
+    },
+    toFields: account => [
+        ['Name', account.name],
+        ['Kind', account.kind],
+        ['Opening Balance', account.openingBalance.minor !== 0 ? formatMoney(account.openingBalance) : undefined],
+        ['Opening Date', account.openingDate ? formatLedgerDate(account.openingDate) : undefined],
+        ['Archived', account.archived ? 'true' : undefined],
+        ['Description', account.description],
+        ['Currency', account.currency],
+        ['ID', account.id]
+    ],
+    fromFields: fields => {
+        const currency = fields.get('Currency') ?? '';
+        const openingDate = fields.get('Opening Date');
+        return {
+            id: fields.get('ID') ?? '',
+            name: fields.get('Name') ?? '',
+            kind: fields.get('Kind') as AccountKind,
+            currency,
+            openingBalance: readOptionalMoney(fields.get('Opening Balance'), currency) ?? zeroMoney(currency),
+            openingDate: openingDate ? parseLedgerDate(openingDate) : undefined,
+            archived: fields.get('Archived') === 'true',
+            description: fields.get('Description')
+        };
+    }
+};
+
+// 余额记录与账户保存在同一个文件中
+export const BALANCE_SNAPSHOT_SCHEMA: LedgerSchema<BalanceSnapshot> = {
+    title: 'Balance',
+    required: ['Account', 'Date', 'Balance', 'Currency', 'ID'],
+    toFields: snapshot => [
+        ['Account', snapshot.account],
+        ['Date', formatLedgerDate(snapshot.date)],
+        ['Balance', formatMoney(snapshot.balance)],
+        ['Note', snapshot.note],
+        ['Currency', snapshot.balance.currency],
+        ['ID', snapshot.id]
+    ],
+    fromFields: fields => {
+        const currency = fields.get('Currency') ?? '';
+        return {
+            id: fields.get('ID') ?? '',
+            account: fields.get('Account') ?? '',
+            date: parseLedgerDate(fields.get('Date') ?? ''),
+            balance: parseMoney(fields.get('Balance') ?? '', currency)!,
+            note: fields.get('Note')
+        };
+    }
+};
+
+// 各类年份账本中的记录类型
+export interface LedgerRecords {
+    'transactions': Transaction;
+    'budgets': Budget;
+    'recurring-transactions': RecurringTransaction;
+}
+
+export const LEDGER_SCHEMAS: { [K in LedgerKind]: LedgerSchema<LedgerRecords[K]> } = {
+    'transactions': TRANSACTION_SCHEMA,
+    'budgets': BUDGET_SCHEMA,
+    'recurring-transactions': RECURRING_TRANSACTION_SCHEMA
+};
+
+// 按类型取年份账本的 schema，只关心记录的 ID，供回收站、校验和修改记录统一处理各类记录
+export function getLedgerSchema(kind: LedgerKind): LedgerSchema<{ id: string }> {
+    return LEDGER_SCHEMAS[kind];
+}
+
+// 可选字段未设置时不出现在对象上，保证与解析结果结构一致
+function stripUndefined<T extends object>(record: T): T {
+    return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined)) as T;
+}
+
+export function getSchemaBlocks<T extends { id: string }>(content: string, schema: LedgerSchema<T>): LedgerBlock[] {
+    return parseBlocks(content).filter(block => block.title === schema.title);
+}
+
+// 把区块解析为记录；区块无法使用时返回 null
+export function parseRecord<T extends { id: string }>(block: LedgerBlock, schema: LedgerSchema<T>, settings: FinanceSettings): T | null {
+    const fields = getFieldMap(block);
+    // 旧文件中 ID 字段可能缺失，此时以标题中的 ID 为准
+    if (!fields.has('ID')) {
+        fields.set('ID', block.id);
+    }
+    if (findInvalidField(fields, schema, settings) !== undefined) {
+        return null;
+    }
+    return stripUndefined(schema.fromFields(fields, settings));
+}
+
+export function parseRecords<T extends { id: string }>(content: string, schema: LedgerSchema<T>, settings: FinanceSettings): T[] {
+    return getSchemaBlocks(content, schema)
+        .map(block => parseRecord(block, schema, settings))
+        .filter((record): record is T => record !== null);
+}
+
+export function addRecord<T extends { id: string }>(content: string, schema: LedgerSchema<T>, record: T): string {
+    return appendBlock(content, formatBlock(schema.title, record.id, schema.toFields(record)));
+}
+
+export function updateRecord<T extends { id: string }>(content: string, schema: LedgerSchema<T>, record: T): string {
+    const values = schema.toFields(record);
+    const dynamicFields = schema.dynamicFields;
+    if (dynamicFields) {
+        const keys = new Set(values.map(([key]) => key));
+        const block = getSchemaBlocks(content, schema)
+            .find(b => b.id === record.id || getFieldMap(b).get('ID') === record.id);
+        for (const field of block?.fields ?? []) {
+            if (dynamicFields.test(field.key) && !keys.has(field.key)) {
+                values.push([field.key, undefined]);
+                keys.add(field.key);
+            }
+        }
+    }
+    return updateBlock(content, schema.title, record.id, values);
+}
+
+export function hasRecord<T extends { id: string }>(content: string, schema: LedgerSchema<T>, id: string): boolean {
+    return hasBlock(content, schema.title, id);
+}
+
+export function removeRecord<T extends { id: string }>(content: string, schema: LedgerSchema<T>, id: string): string {
+    return removeBlock(content, schema.title, id);
+}
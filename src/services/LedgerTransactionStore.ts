@@ -0,0 +1,133 @@
+import { App, TFile } from 'obsidian';
+import { getYear } from 'date-fns';
+import { FinanceSettings } from '../settings';
+import { Transaction } from '../types/Transaction';
+import { LedgerIndex } from './LedgerIndex';
+import { withCurrentFormat } from './MigrationService';
+import { TRANSACTION_SCHEMA, addRecord, parseRecords, removeRecord, updateRecord } from './LedgerSchemas';
+import { TransactionStore } from './TransactionStore';
+
+/**
+ * 账本存储：每年一个 `<financeFilePath>/<year>/transactions.finance.md`，
+ * 每笔交易是一个 `## Transaction <id>` 区块。
+ */
+export class LedgerTransactionStore implements TransactionStore {
+    private app: App;
+    private settings: FinanceSettings;
+    private ledger: LedgerIndex<Transaction>;
+
+    constructor(app: App, settings: FinanceSettings) {
+        this.app = app;
+        this.settings = settings;
+        this.ledger = new LedgerIndex(app, settings, 'transactions.finance.md',
+            content => parseRecords(content, TRANSACTION_SCHEMA, settings));
+    }
+
+    async initialize(): Promise<void> {
+        // 确保当前年份的文件存在并加载，其他年份按查询范围懒加载
+        const currentYear = new Date().getFullYear();
+        await this.ledger.relocateLegacyFiles();
+        await this.getOrCreateFinanceFile(currentYear);
+        await this.ledger.load([currentYear]);
+    }
+
+    getYears(): number[] {
+        return this.ledger.getYears();
+    }
+
+    async loadRange(startDate?: Date, endDate?: Date): Promise<Transaction[]> {
+        return this.ledger.loadRange(startDate, endDate);
+    }
+
+    getLoaded(): Transaction[] {
+        return this.ledger.getLoaded();
+    }
+
+    async add(transaction: Transaction): Promise<void> {
+        await this.addAll([transaction]);
+    }
+
+    // 按年份分组，每个年份文件只写入一次
+    async addAll(transactions: Transaction[]): Promise<void> {
+        const byYear: Map<number, Transaction[]> = new Map();
+        for (const transaction of transactions) {
+            const year = getYear(transaction.date);
+            byYear.set(year, [...(byYear.get(year) ?? []), transaction]);
+        }
+        for (const [year, items] of byYear) {
+            const file = await this.getOrCreateFinanceFile(year);
+            await this.ledger.modify(file, content =>
+                items.reduce((current, transaction) => addRecord(current, TRANSACTION_SCHEMA, transaction), content)
+            );
+        }
+    }
+
+    async update(existing: Transaction, transaction: Transaction): Promise<void> {
+        if (getYear(existing.date) === getYear(transaction.date)) {
+            const file = await this.getOrCreateFinanceFile(getYear(transaction.date));
+            await this.ledger.modify(file, content => updateRecord(content, TRANSACTION_SCHEMA, transaction));
+            return;
+        }
+        // 日期跨年时，从旧年份文件移到新年份文件
+        await this.delete(existing);
+        await this.add(transaction);
+    }
+
+    // 经写入队列改写任一年份的交易文件
+    async modify(file: TFile, mutate: (content: string) => string): Promise<void> {
+        await this.ledger.modify(file, mutate);
+    }
+
+    async delete(transaction: Transaction): Promise<void> {
+        const file = await this.getOrCreateFinanceFile(getYear(transaction.date));
+        await this.ledger.modify(file, content => removeRecord(content, TRANSACTION_SCHEMA, transaction.id));
+    }
+
+    // 交易所在的年份文件，尚未加载时按日期推断
+    getFilePath(transaction: Transaction): string {
+        const year = this.ledger.findLoadedYear(t => t.id === transaction.id) ?? getYear(transaction.date);
+        return this.ledger.getFilePath(year);
+    }
+
+    async refreshPath(path: string): Promise<{ owned: boolean; changed: boolean }> {
+        if (this.ledger.getYearForPath(path) === null) {
+            return { owned: false, changed: false };
+        }
+        return { owned: true, changed: await this.ledger.refreshPath(path) };
+    }
+
+    private async getOrCreateFinanceFile(year: number): Promise<TFile> {
+        const { vault } = this.app;
+        const yearPath = `${this.settings.financeFilePath}/${year}`;
+        const filePath = `${yearPath}/transactions.finance.md`;
+
+        try {
+            // 确保年份目录存在
+            await this.ensureDirectoryExists(yearPath);
+            
+            const file = vault.getAbstractFileByPath(filePath);
+            if (file instanceof TFile) {
+                return file;
+            }
+        } catch (error) {
+            console.error('Error getting finance file:', error);
+        }
+
+        // 如果文件不存在，创建新文件
+        const content = this.getInitialContent(year);
+        return await vault.create(filePath, content);
+    }
+
+    private async ensureDirectoryExists(path: string) {
+        const { vault } = this.app;
+        try {
+            await vault.createFolder(path);
+        } catch (error) {
+            // 目录可能已存在，忽略错误
+        }
+    }
+
+    private getInitialContent(year: number): string {
+        return withCurrentFormat(`# ${year} Transactions\n\n`);
+    }
+}
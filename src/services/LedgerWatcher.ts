@@ -0,0 +1,79 @@
+import { App, Plugin, TAbstractFile, TFile } from 'obsidian';
+import { TransactionService } from './TransactionService';
+import { BudgetService } from './BudgetService';
+import { RecurringTransactionService } from './RecurringTransactionService';
+import { TrashService } from './TrashService';
+import { MerchantService } from './MerchantService';
+import { AccountService } from './AccountService';
+
+const LEDGER_FILE_SUFFIX = '.finance.md';
+
+/**
+ * 监听 vault 中 `*.finance.md` 文件和交易笔记的外部修改（手工编辑、同步工具等），
+ * 交给对应的服务重新解析并发出变更事件。
+ */
+export class LedgerWatcher {
+    private app: App;
+    private transactionService: TransactionService;
+    private budgetService: BudgetService;
+    private recurringTransactionService: RecurringTransactionService;
+    private trashService: TrashService;
+    private merchantService: MerchantService;
+    private accountService: AccountService;
+
+    constructor(
+        app: App,
+        transactionService: TransactionService,
+        budgetService: BudgetService,
+        recurringTransactionService: RecurringTransactionService,
+        trashService: TrashService,
+        merchantService: MerchantService,
+        accountService: AccountService
+    ) {
+        this.app = app;
+        this.transactionService = transactionService;
+        this.budgetService = budgetService;
+        this.recurringTransactionService = recurringTransactionService;
+        this.trashService = trashService;
+        this.merchantService = merchantService;
+        this.accountService = accountService;
+    }
+
+    register(plugin: Plugin): void {
+        const { vault } = this.app;
+        plugin.registerEvent(vault.on('create', file => this.handleFile(file)));
+        plugin.registerEvent(vault.on('modify', file => this.handleFile(file)));
+        plugin.registerEvent(vault.on('delete', file => this.handleFile(file)));
+        plugin.registerEvent(vault.on('rename', (file, oldPath) => {
+            this.handlePath(oldPath);
+            this.handleFile(file);
+        }));
+    }
+
+    private handleFile(file: TAbstractFile): void {
+        if (file instanceof TFile) {
+            this.handlePath(file.path);
+        }
+    }
+
+    private async handlePath(path: string): Promise<void> {
+        try {
+            // 交易可能存储为普通笔记，由当前存储后端判断归属
+            if (await this.transactionService.handleFileChange(path) || !path.endsWith(LEDGER_FILE_SUFFIX)) {
+                return;
+            }
+            if (this.trashService.handleFileChange(path)
+                || await this.merchantService.handleFileChange(path)
+                || await this.accountService.handleFileChange(path)) {
+                return;
+            }
+            // 每个服务只处理属于自己的文件
+            await Promise.all([
+                this.budgetService.handleFileChange(path),
+                this.recurringTransactionService.handleFileChange(path)
+            ]);
+        } catch (error) {
+            console.error(`Failed to refresh finance file ${path}:`, error);
+        }
+    }
+}
@@ -0,0 +1,106 @@
+import { App, TFile } from 'obsidian';
+import { format } from 'date-fns';
+import { TransactionService } from './TransactionService';
+import { Transaction } from '../types/Transaction';
+import { addMoney, formatMoney, subtractMoney, zeroMoney } from '../utils/money';
+import { getCategories } from '../utils/splits';
+import { parseLinks } from '../utils/links';
+
+interface LinkedTransactionsQuery {
+    note?: string;
+    showTransactions: boolean;
+}
+
+/**
+ * `finance-linked` 代码块：列出链接到某篇笔记的交易并按货币合计。
+ *
+ *   ```finance-linked
+ *   note: [[Japan Trip]]      （缺省为代码块所在的笔记）
+ *   showTransactions: true
+ *   ```
+ */
+export class LinkedTransactionsService {
+    private app: App;
+    private transactionService: TransactionService;
+
+    constructor(app: App, transactionService: TransactionService) {
+        this.app = app;
+        this.transactionService = transactionService;
+    }
+
+    async processQuery(query: string, sourcePath: string): Promise<string> {
+        try {
+            const queryObj = this.parseQuery(query);
+            const source = this.app.vault.getAbstractFileByPath(sourcePath);
+            const note = queryObj.note
+                ? this.app.metadataCache.getFirstLinkpathDest(queryObj.note, sourcePath)
+                : source instanceof TFile ? source : null;
+            if (!note) {
+                return `Note not found: ${queryObj.note ?? sourcePath}`;
+            }
+            const transactions = await this.transactionService.getLinkedTransactions(note.path);
+            if (transactions.length === 0) {
+                return `No transactions are linked to [[${note.basename}]]`;
+            }
+            return this.generateMarkdown(note.basename, transactions, queryObj.showTransactions);
+        } catch (error) {
+            return `Error: ${error.message}`;
+        }
+    }
+
+    private parseQuery(query: string): LinkedTransactionsQuery {
+        const queryObj: LinkedTransactionsQuery = { showTransactions: true };
+        for (const line of query.split('\n').map(line => line.trim()).filter(line => line)) {
+            const index = line.indexOf(':');
+            if (index === -1) {
+                continue;
+            }
+            const key = line.slice(0, index).trim().toLowerCase();
+            const value = line.slice(index + 1).trim();
+            switch (key) {
+                case 'note':
+                    queryObj.note = parseLinks(value)[0] ?? value;
+                    break;
+                case 'showtransactions':
+                    queryObj.showTransactions = value.toLowerCase() === 'true';
+                    break;
+            }
+        }
+        return queryObj;
+    }
+
+    private generateMarkdown(noteName: string, transactions: Transaction[], showTransactions: boolean): string {
+        let markdown = `### Transactions linked to ${noteName}\n\n`;
+
+        // 按货币合计，转账不计入收支
+        const currencies = Array.from(new Set(transactions.map(t => t.amount.currency))).sort();
+        markdown += `| Currency | Income | Expense | Net |\n`;
+        markdown += `|------|--------|---------|-----|\n`;
+        for (const currency of currencies) {
+            const inCurrency = transactions.filter(t => t.amount.currency === currency);
+            const income = inCurrency
+                .filter(t => t.type === 'income')
+                .reduce((sum, t) => addMoney(sum, t.amount), zeroMoney(currency));
+            const expense = inCurrency
+                .filter(t => t.type === 'expense')
+                .reduce((sum, t) => addMoney(sum, t.amount), zeroMoney(currency));
+            markdown += `| ${currency} | ${formatMoney(income)} | ${formatMoney(expense)} | ${formatMoney(subtractMoney(income, expense))} |\n`;
+        }
+        markdown += '\n';
+
+        if (showTransactions) {
+            markdown += `| Date | Description | Amount | Type | Category |\n`;
+            markdown += `|------|-------------|--------|------|----------|\n`;
+            [...transactions]
+                .sort((a, b) => a.date.getTime() - b.date.getTime())
+                .forEach(t => {
+                    const date = format(t.date, 'yyyy-MM-dd');
+                    const amount = `${formatMoney(t.amount)} ${t.amount.currency}`;
+                    markdown += `| ${date} | ${t.description || ''} | ${amount} | ${t.type} | ${getCategories(t).join(', ')} |\n`;
+                });
+            markdown += '\n';
+        }
+
+        return markdown;
+    }
+}
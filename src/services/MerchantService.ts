@@ -0,0 +1,129 @@
+import { App, TFile } from 'obsidian';
+import { FinanceSettings } from '../settings';
+import { Merchant } from '../types/Merchant';
+import { Transaction } from '../types/Transaction';
+import { findMerchant } from '../utils/merchants';
+import { EventBus, EVENT_TYPES } from './EventBus';
+import { MERCHANT_SCHEMA, addRecord, parseRecords, removeRecord, updateRecord } from './LedgerSchemas';
+import { withCurrentFormat } from './MigrationService';
+import { WriteQueue } from './WriteQueue';
+
+export const MERCHANTS_FILE_NAME = 'merchants.finance.md';
+
+/**
+ * 商户目录：以区块格式保存在 `<financeFilePath>/merchants.finance.md`，可以直接手工编辑。
+ * 添加和导入交易时按名称、别名和正则表达式把描述或收款方归一为商户名称。
+ */
+export class MerchantService {
+    private app: App;
+    private settings: FinanceSettings;
+    private writes: WriteQueue;
+    private eventBus: EventBus;
+    private merchants: Merchant[] = [];
+
+    constructor(app: App, settings: FinanceSettings) {
+        this.app = app;
+        this.settings = settings;
+        this.eventBus = EventBus.getInstance();
+        this.writes = new WriteQueue(app, async file => {
+            await this.load(file);
+            this.eventBus.emit(EVENT_TYPES.MERCHANT_CHANGED);
+        });
+    }
+
+    async initialize(): Promise<void> {
+        try {
+            await this.load(this.getFile());
+        } catch (error) {
+            console.error('Failed to load merchants:', error);
+        }
+    }
+
+    // 商户文件被外部修改时重新加载，返回是否为商户文件
+    async handleFileChange(path: string): Promise<boolean> {
+        if (path !== this.getFilePath()) {
+            return false;
+        }
+        await this.load(this.getFile());
+        this.eventBus.emit(EVENT_TYPES.MERCHANT_CHANGED);
+        return true;
+    }
+
+    getFilePath(): string {
+        return `${this.settings.financeFilePath}/${MERCHANTS_FILE_NAME}`;
+    }
+
+    getMerchants(): Merchant[] {
+        return [...this.merchants];
+    }
+
+    // 文本（描述或收款方）对应的商户
+    findMerchant(text: string): Merchant | undefined {
+        return findMerchant(this.merchants, text);
+    }
+
+    /**
+     * 归一交易的收款方：填写了收款方时把别名换成商户名称，
+     * 没有填写时根据描述识别商户；都无法识别时原样返回。
+     */
+    normalize<T extends Omit<Transaction, 'id'>>(transaction: T): T {
+        const merchant = this.findMerchant(transaction.payee ?? transaction.description ?? '');
+        return merchant ? { ...transaction, payee: merchant.name } : transaction;
+    }
+
+    async addMerchant(merchant: Omit<Merchant, 'id'>): Promise<Merchant> {
+        if (this.merchants.some(m => m.name.toLowerCase() === merchant.name.toLowerCase())) {
+            throw new Error(`Merchant ${merchant.name} already exists`);
+        }
+        const newMerchant: Merchant = { ...merchant, id: crypto.randomUUID() };
+        const file = await this.getOrCreateFile();
+        await this.writes.enqueue(file, content => addRecord(content, MERCHANT_SCHEMA, newMerchant));
+        return newMerchant;
+    }
+
+    async updateMerchant(merchant: Merchant): Promise<Merchant> {
+        const file = this.getFile();
+        if (!file || !this.merchants.some(m => m.id === merchant.id)) {
+            throw new Error('Merchant not found');
+        }
+        await this.writes.enqueue(file, content => updateRecord(content, MERCHANT_SCHEMA, merchant));
+        return merchant;
+    }
+
+    async deleteMerchant(id: string): Promise<void> {
+        const file = this.getFile();
+        if (!file || !this.merchants.some(m => m.id === id)) {
+            throw new Error('Merchant not found');
+        }
+        await this.writes.enqueue(file, content => removeRecord(content, MERCHANT_SCHEMA, id));
+    }
+
+    // 经写入队列改写商户目录，用于校验后的修复等直接改写文件的操作
+    async modifyFile(file: TFile, mutate: (content: string) => string): Promise<void> {
+        await this.writes.enqueue(file, mutate);
+    }
+
+    private async load(file: TFile | null): Promise<void> {
+        this.merchants = file
+            ? parseRecords(await this.app.vault.read(file), MERCHANT_SCHEMA, this.settings)
+            : [];
+    }
+
+    private getFile(): TFile | null {
+        const file = this.app.vault.getAbstractFileByPath(this.getFilePath());
+        return file instanceof TFile ? file : null;
+    }
+
+    private async getOrCreateFile(): Promise<TFile> {
+        const file = this.getFile();
+        if (file) {
+            return file;
+        }
+        try {
+            await this.app.vault.createFolder(this.settings.financeFilePath);
+        } catch (error) {
+            // 目录可能已存在，忽略错误
+        }
+        return await this.app.vault.create(this.getFilePath(), withCurrentFormat('# Merchants\n\n'));
+    }
+}
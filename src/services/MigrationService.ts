@@ -0,0 +1,124 @@
+import { App, TFile, TFolder } from 'obsidian';
+import { format } from 'date-fns';
+import { FinanceSettings } from '../settings';
+import {
+    CURRENT_FORMAT_VERSION,
+    LEDGER_KINDS,
+    LEDGER_MIGRATIONS,
+    LEGACY_FILE_NAMES,
+    LedgerKind
+} from './LedgerMigrations';
+
+const FORMAT_KEY = 'finance-format';
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+const VERSION_PATTERN = new RegExp(`^${FORMAT_KEY}:\\s*(\\d+)\\s*$`, 'm');
+
+// 读取文件头中的格式版本，没有标记的旧文件视为版本 0
+export function getFormatVersion(content: string): number {
+    const frontmatter = content.match(FRONTMATTER_PATTERN);
+    const match = frontmatter?.[1].match(VERSION_PATTERN);
+    return match ? parseInt(match[1]) : 0;
+}
+
+// 写入格式版本，保留 frontmatter 中的其他属性
+export function setFormatVersion(content: string, version: number): string {
+    const line = `${FORMAT_KEY}: ${version}`;
+    const frontmatter = content.match(FRONTMATTER_PATTERN);
+    if (!frontmatter) {
+        return `---\n${line}\n---\n${content}`;
+    }
+    const body = VERSION_PATTERN.test(frontmatter[1])
+        ? frontmatter[1].replace(VERSION_PATTERN, line)
+        : `${frontmatter[1]}\n${line}`;
+    return `---\n${body}\n---\n${content.slice(frontmatter[0].length)}`;
+}
+
+// 新建账本文件时使用当前格式版本
+export function withCurrentFormat(content: string): string {
+    return setFormatVersion(content, CURRENT_FORMAT_VERSION);
+}
+
+/**
+ * 账本文件格式迁移：加载时检查文件头中的 `finance-format` 版本，
+ * 低于当前版本时先备份原文件，再依次执行 LEDGER_MIGRATIONS 中的迁移。
+ */
+export class MigrationService {
+    private app: App;
+    private settings: FinanceSettings;
+
+    constructor(app: App, settings: FinanceSettings) {
+        this.app = app;
+        this.settings = settings;
+    }
+
+    getKind(fileName: string): LedgerKind | null {
+        const kind = fileName.replace(/\.finance\.md$/, '') as LedgerKind;
+        return LEDGER_KINDS.includes(kind) ? kind : null;
+    }
+
+    // 返回迁移后的内容；无需迁移时原样返回
+    async migrate(file: TFile, content: string): Promise<string> {
+        const kind = this.getKind(file.name);
+        if (!kind) {
+            return content;
+        }
+        const version = getFormatVersion(content);
+        if (version === CURRENT_FORMAT_VERSION) {
+            return content;
+        }
+        if (version > CURRENT_FORMAT_VERSION) {
+            // 文件由更新版本的插件写入，不做改动
+            console.warn(`${file.path} uses format ${version}, newer than supported ${CURRENT_FORMAT_VERSION}`);
+            return content;
+        }
+
+        await this.backup(file, content, version);
+        let migrated = content;
+        for (const migration of LEDGER_MIGRATIONS.filter(m => m.version > version)) {
+            migrated = migration.migrate(migrated, kind, { settings: this.settings });
+        }
+        migrated = withCurrentFormat(migrated);
+        await this.app.vault.modify(file, migrated);
+        return migrated;
+    }
+
+    // 将各年份目录中旧文件名的账本重命名为当前文件名
+    async relocateLegacyFiles(kind: LedgerKind): Promise<void> {
+        const { vault } = this.app;
+        const root = vault.getAbstractFileByPath(this.settings.financeFilePath);
+        if (!(root instanceof TFolder) || LEGACY_FILE_NAMES[kind].length === 0) {
+            return;
+        }
+        for (const folder of root.children) {
+            if (!(folder instanceof TFolder) || !/^\d{4}$/.test(folder.name)) {
+                continue;
+            }
+            const targetPath = `${folder.path}/${kind}.finance.md`;
+            for (const legacyName of LEGACY_FILE_NAMES[kind]) {
+                const legacyFile = vault.getAbstractFileByPath(`${folder.path}/${legacyName}`);
+                if (!(legacyFile instanceof TFile)) {
+                    continue;
+                }
+                try {
+                    if (vault.getAbstractFileByPath(targetPath)) {
+                        // 新文件已存在时保留旧文件的备份，不覆盖数据
+                        await vault.rename(legacyFile, this.getBackupPath(legacyFile, 0));
+                    } else {
+                        await vault.rename(legacyFile, targetPath);
+                    }
+                } catch (error) {
+                    console.error(`Failed to relocate ${legacyFile.path}:`, error);
+                }
+            }
+        }
+    }
+
+    private async backup(file: TFile, content: string, version: number): Promise<void> {
+        await this.app.vault.create(this.getBackupPath(file, version), content);
+    }
+
+    private getBackupPath(file: TFile, version: number): string {
+        const timestamp = format(new Date(), 'yyyyMMddHHmmss');
+        return `${file.parent?.path ?? ''}/${file.name}.v${version}-${timestamp}.bak`;
+    }
+}
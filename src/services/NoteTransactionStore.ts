@@ -0,0 +1,376 @@
+import { App, TFile, TFolder, normalizePath, parseYaml, stringifyYaml } from 'obsidian';
+import { format, getYear } from 'date-fns';
+import { FinanceSettings } from '../settings';
+import { ClearedStatus, Transaction, TransactionSplit, TransactionType } from '../types/Transaction';
+import { Money } from '../types/Money';
+import { formatMoney, parseMoney } from '../utils/money';
+import { parseTags } from '../utils/tags';
+import { formatSplit, parseSplit } from '../utils/splits';
+import { formatLinks, parseLinks } from '../utils/links';
+import { TransactionStore } from './TransactionStore';
+import { TRANSACTION_SCHEMA, findInvalidField, parseLedgerDate } from './LedgerSchemas';
+
+// frontmatter 属性与账本字段的对应关系，交易笔记按账本区块的规则校验
+const NOTE_FIELDS: [string, string][] = [
+    ['date', 'Date'],
+    ['amount', 'Amount'],
+    ['type', 'Type'],
+    ['category', 'Category'],
+    ['account', 'Account'],
+    ['toAccount', 'To Account'],
+    ['toAmount', 'To Amount'],
+    ['toCurrency', 'To Currency'],
+    ['fee', 'Fee'],
+    ['status', 'Reconciliation'],
+    ['toStatus', 'To Reconciliation'],
+    ['currency', 'Currency'],
+    ['id', 'ID']
+];
+
+// 读取交易笔记的 frontmatter；没有 id 和日期的笔记不是交易笔记，返回 null
+export function readTransactionFrontmatter(content: string): Record<string, unknown> | null {
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+    if (!match) {
+        return null;
+    }
+    const frontmatter = parseYaml(match[1]);
+    if (!frontmatter || !frontmatter.id || !frontmatter.date) {
+        return null;
+    }
+    return frontmatter;
+}
+
+/**
+ * 返回交易笔记中第一个无法使用的属性：类型、日期、金额等的校验与账本区块相同。
+ * 这样的笔记在加载时被跳过，由校验命令报告给用户。空属性视为未填写。
+ */
+export function findInvalidNoteProperty(frontmatter: Record<string, unknown>, settings: FinanceSettings): string | undefined {
+    const fields: Map<string, string> = new Map();
+    const properties: Map<string, string> = new Map();
+    for (const [property, key] of NOTE_FIELDS) {
+        const value = frontmatter[property];
+        if (value != null && String(value) !== '') {
+            fields.set(key, String(value));
+        }
+        properties.set(key, property);
+    }
+    if (Array.isArray(frontmatter.splits)) {
+        frontmatter.splits.forEach((split, i) => {
+            fields.set(`Split ${i + 1}`, String(split));
+            properties.set(`Split ${i + 1}`, 'splits');
+        });
+    }
+    const invalid = findInvalidField(fields, TRANSACTION_SCHEMA, settings);
+    return invalid && properties.get(invalid);
+}
+
+/**
+ * 笔记存储：每笔交易是 `<transactionNotesPath>/<year>/` 下的一篇笔记，
+ * 字段写在 YAML frontmatter 中，可被 Properties、Dataview 和 Bases 直接读取。
+ */
+export class NoteTransactionStore implements TransactionStore {
+    private app: App;
+    private settings: FinanceSettings;
+    // 笔记路径 -> 交易
+    private notes: Map<string, Transaction> = new Map();
+    private loadedYears: Set<number> = new Set();
+
+    constructor(app: App, settings: FinanceSettings) {
+        this.app = app;
+        this.settings = settings;
+    }
+
+    async initialize(): Promise<void> {
+        const currentYear = new Date().getFullYear();
+        await this.ensureDirectoryExists(this.getRoot());
+        await this.loadYears([currentYear]);
+    }
+
+    getYears(): number[] {
+        const root = this.app.vault.getAbstractFileByPath(this.getRoot());
+        if (!(root instanceof TFolder)) {
+            return [];
+        }
+        return root.children
+            .filter(child => child instanceof TFolder && /^\d{4}$/.test(child.name))
+            .map(child => parseInt(child.name))
+            .sort((a, b) => a - b);
+    }
+
+    async loadRange(startDate?: Date, endDate?: Date): Promise<Transaction[]> {
+        const years = this.getYears().filter(year =>
+            (!startDate || year >= startDate.getFullYear()) &&
+            (!endDate || year <= endDate.getFullYear())
+        );
+        await this.loadYears(years);
+        return Array.from(this.notes.entries())
+            .filter(([path]) => years.includes(this.getYearForPath(path) ?? NaN))
+            .map(([, transaction]) => transaction);
+    }
+
+    getLoaded(): Transaction[] {
+        return Array.from(this.notes.values());
+    }
+
+    async add(transaction: Transaction): Promise<void> {
+        const path = this.getNotePath(transaction);
+        await this.ensureDirectoryExists(path.slice(0, path.lastIndexOf('/')));
+        const content = `---\n${stringifyYaml(this.toFrontmatter(transaction))}---\n`;
+        await this.app.vault.create(path, content);
+        this.notes.set(path, transaction);
+    }
+
+    async addAll(transactions: Transaction[]): Promise<void> {
+        for (const transaction of transactions) {
+            await this.add(transaction);
+        }
+    }
+
+    async update(existing: Transaction, transaction: Transaction): Promise<void> {
+        const file = this.getFile(existing.id);
+        if (!file) {
+            throw new Error('Transaction note not found');
+        }
+        // 只改写 frontmatter 中的交易字段，保留笔记正文和其他属性
+        await this.app.fileManager.processFrontMatter(file, frontmatter => {
+            const values = this.toFrontmatter(transaction);
+            Object.assign(frontmatter, values);
+            if (transaction.description === undefined) {
+                delete frontmatter.description;
+            }
+            if (transaction.tags.length === 0) {
+                delete frontmatter.tags;
+            }
+            if (!transaction.splits) {
+                delete frontmatter.splits;
+            }
+            // 不再是转账、去掉了可选金额、收款方、链接、附件或对账状态时删除对应属性
+            for (const key of ['toAccount', 'toAmount', 'toCurrency', 'fee', 'payee', 'links', 'attachments', 'status', 'toStatus']) {
+                if (!(key in values)) {
+                    delete frontmatter[key];
+                }
+            }
+        });
+        this.notes.delete(file.path);
+
+        // 日期跨年时移动到新年份目录
+        if (getYear(existing.date) !== getYear(transaction.date)) {
+            const path = this.getNotePath(transaction);
+            await this.ensureDirectoryExists(path.slice(0, path.lastIndexOf('/')));
+            await this.app.fileManager.renameFile(file, path);
+        }
+        this.notes.set(file.path, transaction);
+    }
+
+    async delete(transaction: Transaction): Promise<void> {
+        const file = this.getFile(transaction.id);
+        if (!file) {
+            throw new Error('Transaction note not found');
+        }
+        this.notes.delete(file.path);
+        // vault.trash 在 1.4 中可用；fileManager.trashFile 需要 1.6.6
+        await this.app.vault.trash(file, true);
+    }
+
+    getFilePath(transaction: Transaction): string {
+        return this.getFile(transaction.id)?.path ?? this.getNotePath(transaction);
+    }
+
+    async refreshPath(path: string): Promise<{ owned: boolean; changed: boolean }> {
+        const year = this.getYearForPath(path);
+        if (year === null) {
+            return { owned: false, changed: false };
+        }
+        if (!this.loadedYears.has(year)) {
+            // 尚未加载的年份在下次查询时读取
+            return { owned: true, changed: false };
+        }
+        const previous = this.notes.get(path);
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (file instanceof TFile) {
+            await this.readNote(file);
+        } else {
+            this.notes.delete(path);
+        }
+        const current = this.notes.get(path);
+        return { owned: true, changed: JSON.stringify(previous) !== JSON.stringify(current) };
+    }
+
+    private getRoot(): string {
+        return normalizePath(this.settings.transactionNotesPath);
+    }
+
+    private getYearForPath(path: string): number | null {
+        const prefix = `${this.getRoot()}/`;
+        if (!path.startsWith(prefix)) {
+            return null;
+        }
+        const match = path.slice(prefix.length).match(/^(\d{4})\/[^/]+\.md$/);
+        return match ? parseInt(match[1]) : null;
+    }
+
+    private getNotePath(transaction: Transaction): string {
+        const name = `${format(transaction.date, 'yyyy-MM-dd')} ${transaction.id.slice(0, 8)}.md`;
+        return `${this.getRoot()}/${getYear(transaction.date)}/${name}`;
+    }
+
+    private getFile(id: string): TFile | null {
+        for (const [path, transaction] of this.notes) {
+            if (transaction.id === id) {
+                const file = this.app.vault.getAbstractFileByPath(path);
+                return file instanceof TFile ? file : null;
+            }
+        }
+        return null;
+    }
+
+    private async loadYears(years: number[]): Promise<void> {
+        for (const year of years) {
+            if (this.loadedYears.has(year)) {
+                continue;
+            }
+            const folder = this.app.vault.getAbstractFileByPath(`${this.getRoot()}/${year}`);
+            if (folder instanceof TFolder) {
+                const files = folder.children.filter(
+                    (child): child is TFile => child instanceof TFile && child.extension === 'md'
+                );
+                await Promise.all(files.map(file => this.readNote(file)));
+            }
+            this.loadedYears.add(year);
+        }
+    }
+
+    // 属性无效的交易笔记不加载，避免以零金额或无效日期计入汇总和余额
+    private async readNote(file: TFile): Promise<void> {
+        try {
+            const frontmatter = readTransactionFrontmatter(await this.app.vault.read(file));
+            if (frontmatter && findInvalidNoteProperty(frontmatter, this.settings) === undefined) {
+                this.notes.set(file.path, this.fromFrontmatter(frontmatter));
+            } else {
+                this.notes.delete(file.path);
+            }
+        } catch (error) {
+            console.error(`Failed to read transaction note ${file.path}:`, error);
+            this.notes.delete(file.path);
+        }
+    }
+
+    // frontmatter 已经过 findInvalidNoteProperty 校验
+    private fromFrontmatter(frontmatter: Record<string, unknown>): Transaction {
+        const currency = String(frontmatter.currency || this.settings.defaultCurrency);
+        return {
+            id: String(frontmatter.id),
+            date: parseLedgerDate(String(frontmatter.date)),
+            amount: parseMoney(String(frontmatter.amount), currency)!,
+            type: frontmatter.type as TransactionType,
+            category: String(frontmatter.category ?? ''),
+            splits: this.readSplits(frontmatter.splits, currency),
+            account: String(frontmatter.account ?? ''),
+            toAccount: frontmatter.toAccount != null ? String(frontmatter.toAccount) : undefined,
+            toAmount: this.readMoney(frontmatter.toAmount, String(frontmatter.toCurrency || currency)),
+            fee: this.readMoney(frontmatter.fee, currency),
+            description: frontmatter.description != null ? String(frontmatter.description) : undefined,
+            payee: frontmatter.payee != null ? String(frontmatter.payee) : undefined,
+            tags: this.readTags(frontmatter.tags),
+            links: this.readLinks(frontmatter.links),
+            attachments: this.readLinks(frontmatter.attachments),
+            status: frontmatter.status ? frontmatter.status as ClearedStatus : undefined,
+            toStatus: frontmatter.toStatus ? frontmatter.toStatus as ClearedStatus : undefined,
+            createdAt: frontmatter.createdAt ? new Date(String(frontmatter.createdAt)) : undefined,
+            updatedAt: frontmatter.updatedAt ? new Date(String(frontmatter.updatedAt)) : undefined
+        };
+    }
+
+    // tags 属性可以是列表，也可以是逗号或空格分隔的字符串
+    private readTags(value: unknown): string[] {
+        if (Array.isArray(value)) {
+            return parseTags(value.map(String).join(' '));
+        }
+        return typeof value === 'string' ? parseTags(value) : [];
+    }
+
+    // links 和 attachments 属性为 "[[路径]]" 的列表，Obsidian 会把它们当作链接
+    private readLinks(value: unknown): string[] | undefined {
+        const links = Array.isArray(value) ? parseLinks(value.map(String).join(' ')) : [];
+        return links.length > 0 ? links : undefined;
+    }
+
+    private readMoney(value: unknown, currency: string): Money | undefined {
+        return value != null ? parseMoney(String(value), currency) ?? undefined : undefined;
+    }
+
+    // splits 属性为 "<金额> <分类>" 的列表，与账本中的拆分行格式相同
+    private readSplits(value: unknown, currency: string): TransactionSplit[] | undefined {
+        if (!Array.isArray(value)) {
+            return undefined;
+        }
+        const splits = value
+            .map(item => parseSplit(String(item), currency))
+            .filter((split): split is TransactionSplit => split !== null);
+        return splits.length > 0 ? splits : undefined;
+    }
+
+    private toFrontmatter(transaction: Transaction): Record<string, unknown> {
+        const frontmatter: Record<string, unknown> = {
+            date: format(transaction.date, 'yyyy-MM-dd'),
+            // 以字符串写入，避免 YAML 把 "35.00" 读成浮点数 35
+            amount: formatMoney(transaction.amount),
+            type: transaction.type,
+            category: transaction.category,
+            account: transaction.account,
+            currency: transaction.amount.currency,
+            id: transaction.id
+        };
+        if (transaction.toAccount) {
+            frontmatter.toAccount = transaction.toAccount;
+        }
+        if (transaction.toAmount) {
+            frontmatter.toAmount = formatMoney(transaction.toAmount);
+            frontmatter.toCurrency = transaction.toAmount.currency;
+        }
+        if (transaction.fee) {
+            frontmatter.fee = formatMoney(transaction.fee);
+        }
+        if (transaction.description !== undefined) {
+            frontmatter.description = transaction.description;
+        }
+        if (transaction.payee) {
+            frontmatter.payee = transaction.payee;
+        }
+        if (transaction.splits) {
+            frontmatter.splits = transaction.splits.map(formatSplit);
+        }
+        if (transaction.status) {
+            frontmatter.status = transaction.status;
+        }
+        if (transaction.toStatus) {
+            frontmatter.toStatus = transaction.toStatus;
+        }
+        if (transaction.links?.length) {
+            frontmatter.links = transaction.links.map(link => formatLinks([link]));
+        }
+        if (transaction.attachments?.length) {
+            frontmatter.attachments = transaction.attachments.map(link => formatLinks([link]));
+        }
+        if (transaction.tags.length > 0) {
+            // Obsidian 的 tags 属性，不带 #
+            frontmatter.tags = transaction.tags;
+        }
+        if (transaction.createdAt) {
+            frontmatter.createdAt = transaction.createdAt.toISOString();
+        }
+        if (transaction.updatedAt) {
+            frontmatter.updatedAt = transaction.updatedAt.toISOString();
+        }
+        return frontmatter;
+    }
+
+    private async ensureDirectoryExists(path: string) {
+        const { vault } = this.app;
+        try {
+            await vault.createFolder(path);
+        } catch (error) {
+            // 目录可能已存在，忽略错误
+        }
+    }
+}
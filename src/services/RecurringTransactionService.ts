@@ -1,8 +1,13 @@
 import { App, TFile } from 'obsidian';
-import { format, getYear } from 'date-fns';
+import { getYear } from 'date-fns';
 import { FinanceSettings } from '../settings';
 import { RecurringTransaction } from '../types/RecurringTransaction';
 import { EventBus, EVENT_TYPES } from './EventBus';
+import { LedgerIndex } from './LedgerIndex';
+import { HistoryService } from './HistoryService';
+import { TrashService } from './TrashService';
+import { withCurrentFormat } from './MigrationService';
+import { RECURRING_TRANSACTION_SCHEMA, addRecord, hasRecord, parseRecords, removeRecord, updateRecord } from './LedgerSchemas';
 
 interface RecurringTransactionQuery {
     year?: number;
@@ -11,14 +16,20 @@ interface RecurringTransactionQuery {
 export class RecurringTransactionService {
     private app: App;
     private settings: FinanceSettings;
-    private recurringTransactions: RecurringTransaction[] = [];
+    private ledger: LedgerIndex<RecurringTransaction>;
     private eventBus: EventBus;
     private initialized: boolean = false;
+    private history: HistoryService;
+    private trash: TrashService;
 
-    constructor(app: App, settings: FinanceSettings) {
+    constructor(app: App, settings: FinanceSettings, history: HistoryService, trash: TrashService) {
         this.app = app;
         this.settings = settings;
+        this.history = history;
+        this.trash = trash;
         this.eventBus = EventBus.getInstance();
+        this.ledger = new LedgerIndex(app, settings, 'recurring-transactions.finance.md',
+            content => parseRecords(content, RECURRING_TRANSACTION_SCHEMA, settings));
     }
 
     async initialize(): Promise<void> {
@@ -27,7 +38,6 @@ export class RecurringTransactionService {
             const currentYear = new Date().getFullYear();
             const yearPath = `${this.settings.financeFilePath}/${currentYear}`;
             const newFilePath = `${yearPath}/recurring-transactions.finance.md`;
-            const oldFilePath = `${yearPath}/recurrent transactions.finance.md`;
 
             // 确保年份目录存在
             try {
@@ -36,22 +46,8 @@ export class RecurringTransactionService {
                 // 目录可能已存在，忽略错误
             }
 
-            // 检查是否存在旧文件
-            const oldFile = vault.getAbstractFileByPath(oldFilePath);
-            if (oldFile && oldFile instanceof TFile) {
-                // 如果存在旧文件，读取其内容
-                const content = await vault.read(oldFile);
-                if (content) {
-                    // 检查新文件是否已存在
-                    const newFile = vault.getAbstractFileByPath(newFilePath);
-                    if (!newFile) {
-                        // 只有在文件不存在时才创建
-                        await vault.create(newFilePath, content);
-                    }
-                    // 删除旧文件
-                    await vault.delete(oldFile);
-                }
-            }
+            // 旧文件名的账本由迁移框架统一处理
+            await this.ledger.relocateLegacyFiles();
 
             // 确保新文件存在
             const file = vault.getAbstractFileByPath(newFilePath);
@@ -61,7 +57,7 @@ export class RecurringTransactionService {
 
             // 加载定期交易数据
             if (!this.initialized) {
-                await this.loadRecurringTransactions();
+                await this.ledger.load([currentYear]);
                 this.initialized = true;
             }
         } catch (error) {
@@ -69,16 +65,15 @@ export class RecurringTransactionService {
         }
     }
 
-    private async loadRecurringTransactions() {
-        try {
-            const currentYear = new Date().getFullYear();
-            const file = await this.getOrCreateFinanceFile(currentYear);
-            const content = await this.app.vault.read(file);
-            this.recurringTransactions = this.parseRecurringTransactionsFromContent(content);
-        } catch (error) {
-            console.error('Failed to load recurring transactions:', error);
-            this.recurringTransactions = [];
+    // 定期交易文件被外部修改时重新解析该文件，返回是否属于定期交易账本
+    async handleFileChange(path: string): Promise<boolean> {
+        if (this.ledger.getYearForPath(path) === null) {
+            return false;
         }
+        if (await this.ledger.refreshPath(path)) {
+            this.eventBus.emit(EVENT_TYPES.RECURRING_TRANSACTION_CHANGED);
+        }
+        return true;
     }
 
     private async getOrCreateFinanceFile(year: number): Promise<TFile> {
@@ -113,223 +108,155 @@ export class RecurringTransactionService {
     }
 
     private getInitialContent(year: number): string {
-        return `# ${year} Recurring Transactions\n\n`;
+        return withCurrentFormat(`# ${year} Recurring Transactions\n\n`);
     }
 
-    private parseRecurringTransactionsFromContent(content: string): RecurringTransaction[] {
-        const transactions: RecurringTransaction[] = [];
-        const lines = content.split('\n');
-        let currentTransaction: Partial<RecurringTransaction> = {};
-
-        for (const line of lines) {
-            if (line.startsWith('## ')) {
-                if (Object.keys(currentTransaction).length > 0) {
-                    transactions.push(currentTransaction as RecurringTransaction);
-                }
-                currentTransaction = {};
-            } else if (line.startsWith('- ')) {
-                const [key, value] = line.slice(2).split(': ').map(s => s.trim());
-                switch (key) {
-                    case 'Amount':
-                        currentTransaction.amount = parseFloat(value);
-                        break;
-                    case 'Type':
-                        currentTransaction.type = value as 'income' | 'expense';
-                        break;
-                    case 'Category':
-                        currentTransaction.category = value;
-                        break;
-                    case 'Account':
-                        currentTransaction.account = value;
-                        break;
-                    case 'Description':
-                        currentTransaction.description = value;
-                        break;
-                    case 'Frequency':
-                        currentTransaction.frequency = value as 'monthly' | 'yearly';
-                        break;
-                    case 'Start Date':
-                        currentTransaction.startDate = new Date(value);
-                        break;
-                    case 'End Date':
-                        currentTransaction.endDate = value ? new Date(value) : undefined;
-                        break;
-                    case 'Currency':
-                        currentTransaction.currency = value;
-                        break;
-                    case 'ID':
-                        currentTransaction.id = value;
-                        break;
-                }
-            }
-        }
-
-        if (Object.keys(currentTransaction).length > 0) {
-            transactions.push(currentTransaction as RecurringTransaction);
-        }
-
-        return transactions;
+    // 新定期交易写在开始日期所在年份的文件中，修改经写入队列合并
+    private async modifyYear(year: number, mutate: (content: string) => string): Promise<void> {
+        const file = await this.getOrCreateFinanceFile(year);
+        await this.ledger.modify(file, mutate);
     }
 
-    private formatRecurringTransaction(transaction: RecurringTransaction): string {
-        return `## Recurring Transaction ${transaction.id}
+    // 经写入队列改写任一年份的定期交易文件，用于跨文件的批量修改（如分类改名）
+    async modifyLedgerFile(file: TFile, mutate: (content: string) => string): Promise<void> {
+        await this.ledger.modify(file, mutate);
+        this.eventBus.emit(EVENT_TYPES.RECURRING_TRANSACTION_CHANGED);
+    }
 
-- Amount: ${transaction.amount}
-- Type: ${transaction.type}
-- Category: ${transaction.category}
-- Account: ${transaction.account}
-- Description: ${transaction.description}
-- Frequency: ${transaction.frequency}
-- Start Date: ${format(transaction.startDate, 'yyyy-MM-dd')}
-- End Date: ${transaction.endDate ? format(transaction.endDate, 'yyyy-MM-dd') : ''}
-- Currency: ${transaction.currency}
-- ID: ${transaction.id}
+    async addRecurringTransaction(transaction: Omit<RecurringTransaction, 'id'>): Promise<RecurringTransaction> {
+        const [newTransaction] = await this.addRecurringTransactions([transaction]);
+        return newTransaction;
+    }
 
-`;
+    // 批量添加定期交易，每个年份文件只写入一次，最后发出一次变更事件
+    async addRecurringTransactions(transactions: Omit<RecurringTransaction, 'id'>[]): Promise<RecurringTransaction[]> {
+        const newTransactions: RecurringTransaction[] = transactions.map(transaction => ({
+            ...transaction,
+            id: crypto.randomUUID()
+        }));
+        await this.writeRecurringTransactions(newTransactions);
+        this.eventBus.emit(EVENT_TYPES.RECURRING_TRANSACTION_CHANGED);
+        this.history.record({
+            label: newTransactions.length === 1
+                ? 'Add recurring transaction'
+                : `Add ${newTransactions.length} recurring transactions`,
+            undo: () => this.discardRecurringTransactions(newTransactions),
+            redo: () => this.restoreRecurringTransactions(newTransactions)
+        });
+        return newTransactions;
     }
 
-    private async addRecurringTransactionToContent(transaction: RecurringTransaction) {
-        const year = getYear(transaction.startDate);
-        const file = await this.getOrCreateFinanceFile(year);
-        const content = await this.app.vault.read(file);
-        const newContent = content + this.formatRecurringTransaction(transaction);
-        await this.app.vault.modify(file, newContent);
+    async updateRecurringTransaction(transaction: RecurringTransaction): Promise<RecurringTransaction> {
+        const { year, record: existing } = await this.findRecurringTransaction(transaction.id);
+        const newYear = getYear(transaction.startDate);
+        if (year === newYear) {
+            await this.modifyYear(year, content => updateRecord(
+                this.requireRecurringTransaction(content, transaction.id), RECURRING_TRANSACTION_SCHEMA, transaction));
+        } else {
+            // 开始日期跨年时，从原年份文件移到新年份文件
+            await this.modifyYear(year, content => removeRecord(
+                this.requireRecurringTransaction(content, transaction.id), RECURRING_TRANSACTION_SCHEMA, transaction.id));
+            await this.modifyYear(newYear, content => addRecord(content, RECURRING_TRANSACTION_SCHEMA, transaction));
+        }
+        this.eventBus.emit(EVENT_TYPES.RECURRING_TRANSACTION_CHANGED);
+        this.history.record({
+            label: 'Edit recurring transaction',
+            undo: async () => { await this.updateRecurringTransaction(existing); },
+            redo: async () => { await this.updateRecurringTransaction(transaction); }
+        });
+        return transaction;
     }
 
-    private async updateRecurringTransactionInContent(transaction: RecurringTransaction) {
-        const year = getYear(transaction.startDate);
-        const file = await this.getOrCreateFinanceFile(year);
-        const content = await this.app.vault.read(file);
-        const lines = content.split('\n');
-        const transactionIndex = lines.findIndex(line => 
-            line.startsWith('## Recurring Transaction ') && line.includes(transaction.id)
-        );
+    // 删除的定期交易移入回收站
+    async deleteRecurringTransaction(id: string): Promise<void> {
+        const { year, record: transaction } = await this.findRecurringTransaction(id);
+        await this.modifyYear(year, content => removeRecord(
+            this.requireRecurringTransaction(content, id), RECURRING_TRANSACTION_SCHEMA, id));
+        await this.trash.add('recurring-transactions', [transaction]);
+        this.eventBus.emit(EVENT_TYPES.RECURRING_TRANSACTION_CHANGED);
+        this.history.record({
+            label: 'Delete recurring transaction',
+            undo: () => this.restoreRecurringTransactions([transaction]),
+            redo: () => this.deleteRecurringTransaction(id)
+        });
+    }
 
-        if (transactionIndex !== -1) {
-            const nextTransactionIndex = lines.findIndex((line, index) => 
-                index > transactionIndex && line.startsWith('## Recurring Transaction ')
-            );
-            const endIndex = nextTransactionIndex === -1 ? lines.length : nextTransactionIndex;
-            const newContent = [
-                ...lines.slice(0, transactionIndex),
-                this.formatRecurringTransaction(transaction),
-                ...lines.slice(endIndex)
-            ].join('\n');
-            await this.app.vault.modify(file, newContent);
+    // 按 ID 查找定期交易及其所在的年份文件，该年份不一定等于新的开始日期所在年份
+    private async findRecurringTransaction(id: string): Promise<{ year: number; record: RecurringTransaction }> {
+        await this.ledger.loadRange();
+        const year = this.ledger.findLoadedYear(t => t.id === id);
+        if (year === undefined) {
+            throw new Error('Recurring transaction not found');
         }
+        return { year, record: this.ledger.getLoadedYear(year).find(t => t.id === id)! };
     }
 
-    private async deleteRecurringTransactionFromContent(id: string, startDate: Date) {
-        const year = getYear(startDate);
-        const file = await this.getOrCreateFinanceFile(year);
-        const content = await this.app.vault.read(file);
-        const lines = content.split('\n');
-        const transactionIndex = lines.findIndex(line => 
-            line.startsWith('## Recurring Transaction ') && line.includes(id)
-        );
-
-        if (transactionIndex !== -1) {
-            const nextTransactionIndex = lines.findIndex((line, index) => 
-                index > transactionIndex && line.startsWith('## Recurring Transaction ')
-            );
-            const endIndex = nextTransactionIndex === -1 ? lines.length : nextTransactionIndex;
-            const newContent = [
-                ...lines.slice(0, transactionIndex),
-                ...lines.slice(endIndex)
-            ].join('\n');
-            await this.app.vault.modify(file, newContent);
+    // 在写入队列中确认区块仍在文件中，找不到时只拒绝这次修改，不发出事件也不记录历史
+    private requireRecurringTransaction(content: string, id: string): string {
+        if (!hasRecord(content, RECURRING_TRANSACTION_SCHEMA, id)) {
+            throw new Error('Recurring transaction not found');
         }
+        return content;
     }
 
-    async addRecurringTransaction(transaction: Omit<RecurringTransaction, 'id'>): Promise<RecurringTransaction> {
-        const newTransaction: RecurringTransaction = {
-            ...transaction,
-            id: crypto.randomUUID()
-        };
-        this.recurringTransactions.push(newTransaction);
-        await this.addRecurringTransactionToContent(newTransaction);
+    // 按原 ID 恢复定期交易（撤销删除或从回收站恢复），并从回收站中移除
+    async restoreRecurringTransactions(transactions: RecurringTransaction[]): Promise<void> {
+        await this.writeRecurringTransactions(transactions);
+        await this.trash.remove('recurring-transactions', transactions.map(t => t.id));
         this.eventBus.emit(EVENT_TYPES.RECURRING_TRANSACTION_CHANGED);
-        return newTransaction;
+        this.history.record({
+            label: transactions.length === 1
+                ? 'Restore recurring transaction'
+                : `Restore ${transactions.length} recurring transactions`,
+            // 撤销恢复时放回回收站
+            undo: async () => {
+                await this.discardRecurringTransactions(transactions);
+                await this.trash.add('recurring-transactions', transactions);
+            },
+            redo: () => this.restoreRecurringTransactions(transactions)
+        });
     }
 
-    async updateRecurringTransaction(transaction: RecurringTransaction): Promise<RecurringTransaction> {
-        const index = this.recurringTransactions.findIndex(t => t.id === transaction.id);
-        if (index === -1) {
-            throw new Error('Recurring transaction not found');
+    // 按开始日期的年份分组写入
+    private async writeRecurringTransactions(transactions: RecurringTransaction[]): Promise<void> {
+        for (const [year, items] of this.groupByYear(transactions)) {
+            await this.modifyYear(year, content =>
+                items.reduce((current, transaction) => addRecord(current, RECURRING_TRANSACTION_SCHEMA, transaction), content)
+            );
         }
-        this.recurringTransactions[index] = transaction;
-        await this.updateRecurringTransactionInContent(transaction);
-        this.eventBus.emit(EVENT_TYPES.RECURRING_TRANSACTION_CHANGED);
-        return transaction;
     }
 
-    async deleteRecurringTransaction(id: string): Promise<void> {
-        const index = this.recurringTransactions.findIndex(t => t.id === id);
-        if (index === -1) {
-            throw new Error('Recurring transaction not found');
+    // 撤销添加：直接删除，不进入回收站
+    private async discardRecurringTransactions(transactions: RecurringTransaction[]): Promise<void> {
+        for (const [year, items] of this.groupByYear(transactions)) {
+            await this.modifyYear(year, content =>
+                items.reduce((current, transaction) => removeRecord(current, RECURRING_TRANSACTION_SCHEMA, transaction.id), content)
+            );
         }
-        const transaction = this.recurringTransactions[index];
-        this.recurringTransactions.splice(index, 1);
-        await this.deleteRecurringTransactionFromContent(id, transaction.startDate);
         this.eventBus.emit(EVENT_TYPES.RECURRING_TRANSACTION_CHANGED);
     }
 
+    private groupByYear(transactions: RecurringTransaction[]): Map<number, RecurringTransaction[]> {
+        const byYear: Map<number, RecurringTransaction[]> = new Map();
+        for (const transaction of transactions) {
+            const year = getYear(transaction.startDate);
+            byYear.set(year, [...(byYear.get(year) ?? []), transaction]);
+        }
+        return byYear;
+    }
+
     async getRecurringTransactions(query?: RecurringTransactionQuery): Promise<RecurringTransaction[]> {
         if (!this.initialized) {
             await this.initialize();
         }
         const year = query?.year || new Date().getFullYear();
-        const file = await this.getOrCreateFinanceFile(year);
-        const content = await this.app.vault.read(file);
-        const recurringTransactions: RecurringTransaction[] = [];
-        
-        // 解析文件内容
-        const lines = content.split('\n');
-        for (const line of lines) {
-            if (line.startsWith('- ')) {
-                const transaction = this.parseRecurringTransactionLine(line);
-                if (transaction) {
-                    recurringTransactions.push(transaction);
-                }
-            }
-        }
-        
-        return recurringTransactions;
+        await this.getOrCreateFinanceFile(year);
+        return this.ledger.load([year]);
     }
 
     async loadRecurringTransactionsByYear(year: number): Promise<void> {
-        try {
-            const file = await this.getOrCreateFinanceFile(year);
-            const content = await this.app.vault.read(file);
-            this.recurringTransactions = this.parseRecurringTransactionsFromContent(content);
-        } catch (error) {
-            console.error(`Failed to load recurring transactions for year ${year}:`, error);
-            this.recurringTransactions = [];
-        }
-    }
-
-    private parseRecurringTransactionLine(line: string): RecurringTransaction | null {
-        try {
-            const match = line.match(/^- (.*?) - (.*?) - (.*?) - (.*?) - (.*?) - (.*?) - (.*?) - (.*?)$/);
-            if (match) {
-                const [_, amount, type, category, account, frequency, startDate, endDate, description] = match;
-                return {
-                    id: crypto.randomUUID(),
-                    amount: parseFloat(amount),
-                    type: type.trim() as 'income' | 'expense',
-                    category: category.trim(),
-                    account: account.trim(),
-                    frequency: frequency.trim() as 'daily' | 'weekly' | 'monthly' | 'yearly',
-                    startDate: new Date(startDate.trim()),
-                    endDate: endDate.trim() ? new Date(endDate.trim()) : undefined,
-                    description: description.trim() || undefined,
-                    currency: 'CNY'
-                };
-            }
-        } catch (error) {
-            console.error('Failed to parse recurring transaction line:', error);
-        }
-        return null;
+        await this.getOrCreateFinanceFile(year);
+        await this.ledger.reload(year);
     }
 
     private getFilePath(date: Date): string {
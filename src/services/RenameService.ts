@@ -0,0 +1,437 @@
+import { App, TFile, TFolder } from 'obsidian';
+import { FinanceSettings } from '../settings';
+import { Transaction } from '../types/Transaction';
+import { TransactionRule } from '../types/TransactionRule';
+import { TransactionService } from './TransactionService';
+import { BudgetService } from './BudgetService';
+import { RecurringTransactionService } from './RecurringTransactionService';
+import { AccountService } from './AccountService';
+import { HistoryService } from './HistoryService';
+import { getFormatVersion } from './MigrationService';
+import { CURRENT_FORMAT_VERSION, LEDGER_KINDS, LedgerKind } from './LedgerMigrations';
+import { ACCOUNT_SCHEMA, BALANCE_SNAPSHOT_SCHEMA, BUDGET_SCHEMA, RECURRING_TRANSACTION_SCHEMA, parseRecords, updateRecord } from './LedgerSchemas';
+import { LedgerBlock, LedgerBlockField, rewriteFields } from './LedgerGrammar';
+import { SPLIT_FIELD_PATTERN, getCategories } from '../utils/splits';
+import { buildCategoryTree, isCategoryWithin, normalizeCategory } from '../utils/categories';
+
+export type RenameKind = 'category' | 'account';
+
+// rename 改为尚未使用的名称，merge 并入已有的名称，delete 把记录改到另一个已有名称后删除
+export type RenameMode = 'rename' | 'merge' | 'delete';
+
+// 一个分类或账户被各类记录引用的次数
+export interface NameUsage {
+    name: string;
+    transactions: number;
+    budgets: number;
+    recurring: number;
+}
+
+// 各类被改写的记录数
+export interface RenameCounts {
+    transactions: number;
+    budgets: number;
+    recurring: number;
+    // 账户目录中的账户和余额记录
+    accounts: number;
+    rules: number;
+}
+
+// 改写的文件：年份账本或账户目录，写入时经对应服务的写入队列
+export interface RenameFile {
+    path: string;
+    kind: LedgerKind | 'accounts';
+    before: string;
+    after: string;
+}
+
+// 预览时计算出的全部改动，确认后一次写入
+export interface RenamePlan {
+    kind: RenameKind;
+    mode: RenameMode;
+    from: string;
+    // 删除一个没有被引用的名称时为空
+    to: string;
+    files: RenameFile[];
+    // 存储为笔记的交易和行内交易，不在账本文件中，通过 TransactionService 修改
+    noteChanges: { before: Transaction; after: Transaction }[];
+    counts: RenameCounts;
+}
+
+// 设置中引用分类和账户的部分，撤销时整体恢复
+type NameSettings = Pick<FinanceSettings, 'defaultCategories' | 'defaultAccount' | 'rules'>;
+
+const COUNT_KEYS: Record<LedgerKind, 'transactions' | 'budgets' | 'recurring'> = {
+    'transactions': 'transactions',
+    'budgets': 'budgets',
+    'recurring-transactions': 'recurring'
+};
+
+/**
+ * 在整个账本中改名、合并或删除分类和账户。
+ * 先读取所有年份的交易、预算和定期交易文件并计算改写后的内容供预览，
+ * 确认时检查文件在预览后没有被修改，再经各服务的写入队列依次写入；任何一步失败都恢复已写入的部分。
+ * 整个操作作为一条记录进入撤销历史。分类的下级随之改名（餐饮 → 饮食 时 餐饮:午餐 → 饮食:午餐）。
+ */
+export class RenameService {
+    private app: App;
+    private settings: FinanceSettings;
+    private transactionService: TransactionService;
+    private budgetService: BudgetService;
+    private recurringTransactionService: RecurringTransactionService;
+    private accountService: AccountService;
+    private history: HistoryService;
+    private saveSettings: () => Promise<void>;
+
+    constructor(
+        app: App,
+        settings: FinanceSettings,
+        transactionService: TransactionService,
+        budgetService: BudgetService,
+        recurringTransactionService: RecurringTransactionService,
+        accountService: AccountService,
+        history: HistoryService,
+        saveSettings: () => Promise<void>
+    ) {
+        this.app = app;
+        this.settings = settings;
+        this.transactionService = transactionService;
+        this.budgetService = budgetService;
+        this.recurringTransactionService = recurringTransactionService;
+        this.accountService = accountService;
+        this.history = history;
+        this.saveSettings = saveSettings;
+    }
+
+    /**
+     * 所有年份中每个分类或账户的引用次数。没有被引用的默认分类和账户目录中的账户也列出；
+     * 分类按层级排列并补上缺少的上级。
+     */
+    async getUsage(kind: RenameKind): Promise<NameUsage[]> {
+        const usage: Map<string, NameUsage> = new Map();
+        const count = (name: string, key: 'transactions' | 'budgets' | 'recurring') => {
+            if (!name) {
+                return;
+            }
+            const entry = usage.get(name) ?? { name, transactions: 0, budgets: 0, recurring: 0 };
+            entry[key]++;
+            usage.set(name, entry);
+        };
+
+        const transactions = await this.transactionService.getTransactions();
+        transactions.forEach(t => this.getNames(kind, t).forEach(name => count(name, 'transactions')));
+        if (kind === 'category') {
+            for (const { content } of await this.readLedgerFiles('budgets')) {
+                parseRecords(content, BUDGET_SCHEMA, this.settings).forEach(b => count(b.category, 'budgets'));
+            }
+        }
+        for (const { content } of await this.readLedgerFiles('recurring-transactions')) {
+            parseRecords(content, RECURRING_TRANSACTION_SCHEMA, this.settings)
+                .forEach(r => count(kind === 'category' ? r.category : r.account, 'recurring'));
+        }
+
+        const known = kind === 'category'
+            ? this.settings.defaultCategories.map(normalizeCategory)
+            : this.accountService.getAccounts().map(account => account.name);
+        const names = kind === 'category'
+            ? buildCategoryTree([...usage.keys(), ...known])
+            : Array.from(new Set([...usage.keys(), ...known])).sort((a, b) => a.localeCompare(b));
+        return names.map(name => usage.get(name) ?? { name, transactions: 0, budgets: 0, recurring: 0 });
+    }
+
+    // 计算改动供预览，不写入任何文件
+    async planRename(kind: RenameKind, mode: RenameMode, from: string, to: string): Promise<RenamePlan> {
+        const target = kind === 'category' ? normalizeCategory(to) : to.trim();
+        const usage = await this.getUsage(kind);
+        const exists = usage.some(entry => entry.name === target);
+        if (target === from) {
+            throw new Error('Choose a different name');
+        }
+        if (mode === 'rename' && (!target || exists)) {
+            throw new Error(target ? `${target} already exists, merge into it instead` : 'Please enter a new name');
+        }
+        if (mode === 'merge' && !exists) {
+            throw new Error(`${target} does not exist`);
+        }
+        if (mode === 'delete' && target && !exists) {
+            throw new Error(`${target} does not exist`);
+        }
+        if (kind === 'category' && target && isCategoryWithin(target, from)) {
+            throw new Error('A category cannot be moved into its own subcategory');
+        }
+        const inUse = usage
+            .filter(entry => this.isAffected(kind, from, entry.name))
+            .some(entry => entry.transactions + entry.budgets + entry.recurring > 0);
+        if (mode === 'delete' && !target && inUse) {
+            throw new Error(`${from} is still in use, choose where to move its records`);
+        }
+
+        const plan: RenamePlan = {
+            kind,
+            mode,
+            from,
+            to: target,
+            files: [],
+            noteChanges: [],
+            counts: { transactions: 0, budgets: 0, recurring: 0, accounts: 0, rules: 0 }
+        };
+        const map = (name: string) => this.mapName(kind, from, target, name);
+
+        // 交易存储为笔记时，账本文件中没有交易
+        const ledgerKinds = LEDGER_KINDS.filter(k => k !== 'transactions' || this.settings.transactionStorage === 'ledger');
+        for (const ledgerKind of ledgerKinds) {
+            for (const { file, content } of await this.readLedgerFiles(ledgerKind)) {
+                const result = rewriteFields(content, (_, field) => this.rewriteField(kind, field, map));
+                if (result.changed > 0) {
+                    plan.files.push({ path: file.path, kind: ledgerKind, before: content, after: result.content });
+                    plan.counts[COUNT_KEYS[ledgerKind]] += result.changed;
+                }
+            }
+        }
+
+        plan.noteChanges = (await this.transactionService.getTransactions())
+            .filter(t => t.source || this.settings.transactionStorage === 'notes')
+            .filter(t => this.getNames(kind, t).some(name => this.isAffected(kind, from, name)))
+            .map(t => ({ before: t, after: this.mapTransaction(t, map) }));
+        plan.counts.transactions += plan.noteChanges.length;
+
+        if (kind === 'account') {
+            await this.planAccountDirectory(plan, exists, map);
+        }
+        plan.counts.rules = this.settings.rules.filter(rule => this.mapRule(kind, rule, map) !== rule).length;
+        return plan;
+    }
+
+    async applyRename(plan: RenamePlan): Promise<void> {
+        // 预览之后被修改过的文件可能丢失改动，全部检查后再开始写入
+        for (const entry of plan.files) {
+            const file = this.app.vault.getAbstractFileByPath(entry.path);
+            if (!(file instanceof TFile)) {
+                throw new Error(`${entry.path} not found`);
+            }
+            if (await this.app.vault.read(file) !== entry.before) {
+                throw new Error(`${entry.path} changed since the preview, please preview again`);
+            }
+        }
+
+        const settings = { before: this.getNameSettings(), after: this.mapSettings(plan) };
+        // 笔记中交易的修改不单独记录，撤销时与文件和设置一起恢复
+        await this.history.withoutRecording(() => this.write(plan, settings, false));
+        this.history.record({
+            label: `${plan.mode === 'rename' ? 'Rename' : plan.mode === 'merge' ? 'Merge' : 'Delete'} ${plan.kind} ${plan.from}`,
+            undo: () => this.write(plan, settings, true),
+            redo: () => this.write(plan, settings, false)
+        });
+    }
+
+    /**
+     * 写入预览的改动，revert 为 true 时反向恢复到改名前。
+     * 文件内容与预期不符时不覆盖；任何一步失败都恢复已写入的文件和交易后再抛出错误。
+     */
+    private async write(plan: RenamePlan, settings: { before: NameSettings; after: NameSettings }, revert: boolean): Promise<void> {
+        const files = plan.files.map(entry => revert ? { ...entry, before: entry.after, after: entry.before } : entry);
+        const transactions = plan.noteChanges.map(change => revert ? change.before : change.after);
+        const originals = plan.noteChanges.map(change => revert ? change.after : change.before);
+        const written: RenameFile[] = [];
+        let transactionsWritten = false;
+        try {
+            for (const entry of files) {
+                await this.modifyFile(entry, content => {
+                    if (content !== entry.before) {
+                        throw new Error(revert
+                            ? `${entry.path} changed after the ${plan.mode}, it cannot be undone`
+                            : `${entry.path} changed since the preview, please preview again`);
+                    }
+                    return entry.after;
+                });
+                written.push(entry);
+            }
+            if (transactions.length > 0) {
+                // 中途失败时部分交易可能已写入，恢复时全部改回
+                transactionsWritten = true;
+                await this.transactionService.updateTransactions(transactions);
+            }
+            Object.assign(this.settings, revert ? settings.before : settings.after);
+            await this.saveSettings();
+        } catch (error) {
+            Object.assign(this.settings, revert ? settings.after : settings.before);
+            if (transactionsWritten) {
+                try {
+                    await this.history.withoutRecording(async () => {
+                        await this.transactionService.updateTransactions(originals);
+                    });
+                } catch (restoreError) {
+                    console.error('Failed to restore transactions:', restoreError);
+                }
+            }
+            for (const entry of written.reverse()) {
+                try {
+                    // 写入后又被修改的文件保持不变
+                    await this.modifyFile(entry, content => content === entry.after ? entry.before : content);
+                } catch (restoreError) {
+                    console.error(`Failed to restore ${entry.path}:`, restoreError);
+                }
+            }
+            throw error;
+        }
+    }
+
+    // 经所属服务的写入队列改写文件，与其他修改串行执行
+    private async modifyFile(entry: RenameFile, mutate: (content: string) => string): Promise<void> {
+        const file = this.app.vault.getAbstractFileByPath(entry.path);
+        if (!(file instanceof TFile)) {
+            throw new Error(`${entry.path} not found`);
+        }
+        switch (entry.kind) {
+            case 'transactions':
+                return this.transactionService.modifyLedgerFile(file, mutate);
+            case 'budgets':
+                return this.budgetService.modifyLedgerFile(file, mutate);
+            case 'recurring-transactions':
+                return this.recurringTransactionService.modifyLedgerFile(file, mutate);
+            case 'accounts':
+                return this.accountService.modifyFile(file, mutate);
+        }
+    }
+
+    private getNameSettings(): NameSettings {
+        const { defaultCategories, defaultAccount, rules } = this.settings;
+        return { defaultCategories, defaultAccount, rules };
+    }
+
+    // 默认分类、默认账户和规则中的引用；删除分类时从默认分类中去掉它和它的下级
+    private mapSettings(plan: RenamePlan): NameSettings {
+        const map = (name: string) => this.mapName(plan.kind, plan.from, plan.to, name);
+        const settings = this.getNameSettings();
+        if (plan.kind === 'category') {
+            const categories = plan.mode === 'delete'
+                ? settings.defaultCategories.filter(c => !isCategoryWithin(normalizeCategory(c), plan.from))
+                : settings.defaultCategories.map(c => map(normalizeCategory(c)));
+            settings.defaultCategories = Array.from(new Set(categories));
+        } else if (plan.to && settings.defaultAccount === plan.from) {
+            settings.defaultAccount = plan.to;
+        }
+        if (plan.to) {
+            settings.rules = settings.rules.map(rule => this.mapRule(plan.kind, rule, map));
+        }
+        return settings;
+    }
+
+    /**
+     * 账户目录：改名时改写账户和余额记录中的名称；并入或删除时归档原账户，
+     * 原账户的期初余额和余额记录保留在归档的账户上。
+     */
+    private async planAccountDirectory(plan: RenamePlan, merge: boolean, map: (name: string) => string): Promise<void> {
+        const file = this.app.vault.getAbstractFileByPath(this.accountService.getFilePath());
+        if (!(file instanceof TFile)) {
+            return;
+        }
+        const content = await this.app.vault.read(file);
+        let after = content;
+        if (!merge && plan.to) {
+            const result = rewriteFields(content, (block, field) => this.isAccountNameField(block, field) ? map(field.value) : undefined);
+            after = result.content;
+            plan.counts.accounts = result.changed;
+        } else {
+            const account = this.accountService.getAccount(plan.from);
+            if (account && !account.archived) {
+                after = updateRecord(content, ACCOUNT_SCHEMA, { ...account, archived: true });
+                plan.counts.accounts = 1;
+            }
+        }
+        if (after !== content) {
+            plan.files.push({ path: file.path, kind: 'accounts', before: content, after });
+        }
+    }
+
+    private isAccountNameField(block: LedgerBlock, field: LedgerBlockField): boolean {
+        return (block.title === ACCOUNT_SCHEMA.title && field.key === 'Name')
+            || (block.title === BALANCE_SNAPSHOT_SCHEMA.title && field.key === 'Account');
+    }
+
+    // 字段的新值，不引用该名称的字段返回 undefined
+    private rewriteField(kind: RenameKind, field: LedgerBlockField, map: (name: string) => string): string | undefined {
+        if (kind === 'account') {
+            return field.key === 'Account' || field.key === 'To Account' ? map(field.value) : undefined;
+        }
+        if (field.key === 'Category') {
+            return map(field.value);
+        }
+        if (SPLIT_FIELD_PATTERN.test(field.key)) {
+            // 拆分行写作 "<金额> <分类>"，只替换分类部分
+            const match = field.value.match(/^(\S+\s+)(.+)$/);
+            return match ? match[1] + map(match[2].trim()) : undefined;
+        }
+        return undefined;
+    }
+
+    private isAffected(kind: RenameKind, from: string, name: string): boolean {
+        return kind === 'category' ? isCategoryWithin(normalizeCategory(name), from) : name === from;
+    }
+
+    // 分类连同下级一起改名；账户只匹配完全相同的名称
+    private mapName(kind: RenameKind, from: string, to: string, name: string): string {
+        if (!to || !this.isAffected(kind, from, name)) {
+            return name;
+        }
+        if (kind === 'account') {
+            return to;
+        }
+        // 去掉原分类前缀后剩下的是空串或以冒号开头的下级路径
+        return to + normalizeCategory(name).slice(from.length);
+    }
+
+    private getNames(kind: RenameKind, transaction: Transaction): string[] {
+        const names = kind === 'category'
+            ? getCategories(transaction)
+            : [transaction.account, transaction.toAccount ?? ''];
+        return Array.from(new Set(names.filter(name => name)));
+    }
+
+    private mapTransaction(transaction: Transaction, map: (name: string) => string): Transaction {
+        return {
+            ...transaction,
+            category: map(transaction.category),
+            splits: transaction.splits?.map(split => ({ ...split, category: map(split.category) })),
+            account: map(transaction.account),
+            toAccount: transaction.toAccount ? map(transaction.toAccount) : undefined
+        };
+    }
+
+    // 没有变化时返回原对象
+    private mapRule(kind: RenameKind, rule: TransactionRule, map: (name: string) => string): TransactionRule {
+        const { conditions, actions } = rule;
+        const mapped: TransactionRule = kind === 'category'
+            ? { ...rule, actions: { ...actions, category: actions.category && map(actions.category) } }
+            : {
+                ...rule,
+                conditions: { ...conditions, account: conditions.account && map(conditions.account) },
+                actions: { ...actions, account: actions.account && map(actions.account) }
+            };
+        return JSON.stringify(mapped) === JSON.stringify(rule) ? rule : mapped;
+    }
+
+    // 各年份目录中某类账本文件的当前内容。预览不写入任何文件，尚未迁移到当前格式的文件需要先加载一次
+    private async readLedgerFiles(kind: LedgerKind): Promise<{ file: TFile; content: string }[]> {
+        const root = this.app.vault.getAbstractFileByPath(this.settings.financeFilePath);
+        if (!(root instanceof TFolder)) {
+            return [];
+        }
+        const files: { file: TFile; content: string }[] = [];
+        for (const folder of root.children) {
+            if (!(folder instanceof TFolder) || !/^\d{4}$/.test(folder.name)) {
+                continue;
+            }
+            const file = this.app.vault.getAbstractFileByPath(`${folder.path}/${kind}.finance.md`);
+            if (!(file instanceof TFile)) {
+                continue;
+            }
+            const content = await this.app.vault.read(file);
+            if (getFormatVersion(content) !== CURRENT_FORMAT_VERSION) {
+                throw new Error(`${file.path} is not in the current ledger format, open ${folder.name} in the finance table to upgrade it first`);
+            }
+            files.push({ file, content });
+        }
+        return files;
+    }
+}
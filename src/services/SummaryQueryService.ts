@@ -1,15 +1,37 @@
 import { App } from 'obsidian';
-import { SummaryService } from './SummaryService';
+import { SummaryFilters, SummaryService } from './SummaryService';
 import { format, parseISO } from 'date-fns';
 import { Transaction } from '../types/Transaction';
 import { PeriodSummary, CurrencySummary } from '../types/PeriodSummary';
+import { NetWorthChange } from '../types/AccountBalance';
+import { addMoney, formatMoney, subtractMoney, zeroMoney } from '../utils/money';
+import { parseFilter, parseSort, splitQueryLine } from '../utils/query';
+import { buildCategoryTree, isCategoryWithin, truncateCategory } from '../utils/categories';
+
+type SummaryGroupBy = 'category' | 'account' | 'tag' | 'payee' | 'none';
+
+const TYPE_LABELS: Record<Transaction['type'], string> = {
+    income: '📈 Income',
+    expense: '📉 Expense',
+    transfer: '🔁 Transfer'
+};
+
+// 没有标签的交易在按标签分组时归入此组
+const UNTAGGED = '(untagged)';
+// 没有收款方的交易在按收款方分组时归入此组
+const NO_PAYEE = '(no payee)';
 
 interface SummaryQuery {
     type: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly';
     date?: string;
-    currencies?: string[];
+    // 标签、分类、账户、货币、搜索、金额范围和排序
+    filters: SummaryFilters;
     showTransactions?: boolean;
-    groupBy?: 'category' | 'account' | 'none';
+    groupBy?: SummaryGroupBy;
+    // 按分类分组时只统计到第几级，更深的分类计入其上级
+    depth?: number;
+    // 在汇总后列出期末净资产及本期的变化
+    netWorth?: boolean;
 }
 
 export class SummaryQueryService {
@@ -29,25 +51,30 @@ export class SummaryQueryService {
             let summary: PeriodSummary | null = null;
             switch (queryObj.type) {
                 case 'daily':
-                    summary = await this.summaryService.getDailySummary(date);
+                    summary = await this.summaryService.getDailySummary(date, queryObj.filters);
                     break;
                 case 'weekly':
-                    summary = await this.summaryService.getWeeklySummary(date);
+                    summary = await this.summaryService.getWeeklySummary(date, queryObj.filters);
                     break;
                 case 'monthly':
-                    summary = await this.summaryService.getMonthlySummary(date);
+                    summary = await this.summaryService.getMonthlySummary(date, queryObj.filters);
                     break;
                 case 'quarterly':
-                    summary = await this.summaryService.getQuarterlySummary(date);
+                    summary = await this.summaryService.getQuarterlySummary(date, queryObj.filters);
                     break;
                 case 'yearly':
-                    summary = await this.summaryService.getYearlySummary(date);
+                    summary = await this.summaryService.getYearlySummary(date, queryObj.filters);
                     break;
             }
 
             if (!summary) return 'No data available';
 
-            return this.generateMarkdown(summary, queryObj);
+            let markdown = this.generateMarkdown(summary, queryObj);
+            if (queryObj.netWorth) {
+                const changes = await this.summaryService.getNetWorthChange(summary.start, summary.end, queryObj.filters);
+                markdown += this.generateNetWorthSummary(changes);
+            }
+            return markdown;
         } catch (error) {
             return `Error: ${error.message}`;
         }
@@ -57,12 +84,13 @@ export class SummaryQueryService {
         const lines = query.split('\n').map(line => line.trim()).filter(line => line);
         const queryObj: SummaryQuery = {
             type: 'daily',
+            filters: {},
             showTransactions: true,
             groupBy: 'none'
         };
 
         for (const line of lines) {
-            const [key, value] = line.split(':').map(part => part.trim());
+            const [key, value] = splitQueryLine(line);
             switch (key.toLowerCase()) {
                 case 'type':
                     if (['daily', 'weekly', 'monthly', 'quarterly', 'yearly'].includes(value)) {
@@ -72,17 +100,34 @@ export class SummaryQueryService {
                 case 'date':
                     queryObj.date = value;
                     break;
-                case 'currencies':
-                    queryObj.currencies = value.split(',').map(c => c.trim());
+                case 'sort': {
+                    const sort = parseSort(value);
+                    if (sort.length > 0) {
+                        queryObj.filters.sort = sort;
+                    }
                     break;
+                }
                 case 'showtransactions':
                     queryObj.showTransactions = value.toLowerCase() === 'true';
                     break;
+                case 'depth': {
+                    const depth = parseInt(value, 10);
+                    if (depth > 0) {
+                        queryObj.depth = depth;
+                    }
+                    break;
+                }
+                case 'networth':
+                    queryObj.netWorth = value.toLowerCase() === 'true';
+                    break;
                 case 'groupby':
-                    if (['category', 'account', 'none'].includes(value)) {
-                        queryObj.groupBy = value as SummaryQuery['groupBy'];
+                    if (['category', 'account', 'tag', 'payee', 'none'].includes(value)) {
+                        queryObj.groupBy = value as SummaryGroupBy;
                     }
                     break;
+                default:
+                    parseFilter(queryObj.filters, key, value);
+                    break;
             }
         }
 
@@ -92,10 +137,8 @@ export class SummaryQueryService {
     private generateMarkdown(summary: PeriodSummary, query: SummaryQuery): string {
         let markdown = `# Finance Summary: ${summary.period}\n\n`;
 
-        // 过滤货币
-        const filteredSummaries = query.currencies 
-            ? summary.summaries.filter((s: CurrencySummary) => query.currencies?.includes(s.currency))
-            : summary.summaries;
+        // 货币已在查询交易时筛选
+        const filteredSummaries = summary.summaries;
 
         if (query.groupBy === 'none') {
             // 按货币分组显示
@@ -103,12 +146,13 @@ export class SummaryQueryService {
                 markdown += this.generateCurrencySummary(currencySummary, query.showTransactions ?? true);
             });
         } else {
-            // 按类别或账户分组显示
+            // 按类别、账户或标签分组显示
             filteredSummaries.forEach((currencySummary: CurrencySummary) => {
                 markdown += this.generateGroupedSummary(
                     currencySummary, 
                     query.groupBy ?? 'none', 
-                    query.showTransactions ?? true
+                    query.showTransactions ?? true,
+                    query.depth
                 );
             });
         }
@@ -116,12 +160,26 @@ export class SummaryQueryService {
         return markdown;
     }
 
+    private generateNetWorthSummary(changes: NetWorthChange[]): string {
+        let markdown = `## Net Worth\n\n`;
+        if (changes.length === 0) {
+            return markdown + 'No account balances.\n\n';
+        }
+        markdown += `| Currency | Assets | Liabilities | Net Worth | Change |\n`;
+        markdown += `|----------|--------|-------------|-----------|--------|\n`;
+        changes.forEach(change => {
+            const sign = change.change.minor > 0 ? '+' : '';
+            markdown += `| ${change.currency} | ${formatMoney(change.assets)} | ${formatMoney(change.liabilities)} | ${formatMoney(change.netWorth)} | ${sign}${formatMoney(change.change)} |\n`;
+        });
+        return markdown + '\n';
+    }
+
     private generateCurrencySummary(summary: CurrencySummary, showTransactions: boolean): string {
         let markdown = `## ${summary.currency}\n\n`;
         markdown += `### Overview\n`;
-        markdown += `- Income: ${summary.totalIncome.toFixed(2)} ${summary.currency}\n`;
-        markdown += `- Expense: ${summary.totalExpense.toFixed(2)} ${summary.currency}\n`;
-        markdown += `- Net: ${summary.netAmount.toFixed(2)} ${summary.currency}\n\n`;
+        markdown += `- Income: ${formatMoney(summary.totalIncome)} ${summary.currency}\n`;
+        markdown += `- Expense: ${formatMoney(summary.totalExpense)} ${summary.currency}\n`;
+        markdown += `- Net: ${formatMoney(summary.netAmount)} ${summary.currency}\n\n`;
 
         if (showTransactions && summary.transactions.length > 0) {
             markdown += `### Transactions\n\n`;
@@ -130,9 +188,12 @@ export class SummaryQueryService {
 
             summary.transactions.forEach((transaction: Transaction) => {
                 const date = format(transaction.date, 'yyyy-MM-dd');
-                const amount = transaction.amount.toFixed(2);
-                const type = transaction.type === 'income' ? '📈 Income' : '📉 Expense';
+                const amount = formatMoney(transaction.amount);
+                const type = TYPE_LABELS[transaction.type];
                 markdown += `| ${date} | ${transaction.description || ''} | ${amount} | ${type} |\n`;
+                transaction.splits?.forEach(split => {
+                    markdown += `| | ↳ ${split.category} | ${formatMoney(split.amount)} | |\n`;
+                });
             });
         }
 
@@ -142,8 +203,9 @@ export class SummaryQueryService {
 
     private generateGroupedSummary(
         summary: CurrencySummary, 
-        groupBy: 'category' | 'account' | 'none', 
-        showTransactions: boolean
+        groupBy: SummaryGroupBy, 
+        showTransactions: boolean,
+        depth?: number
     ): string {
         if (groupBy === 'none') {
             return this.generateCurrencySummary(summary, showTransactions);
@@ -151,18 +213,19 @@ export class SummaryQueryService {
 
         let markdown = `## ${summary.currency}\n\n`;
         markdown += `### Overview\n`;
-        markdown += `- Income: ${summary.totalIncome.toFixed(2)} ${summary.currency}\n`;
-        markdown += `- Expense: ${summary.totalExpense.toFixed(2)} ${summary.currency}\n`;
-        markdown += `- Net: ${summary.netAmount.toFixed(2)} ${summary.currency}\n\n`;
+        markdown += `- Income: ${formatMoney(summary.totalIncome)} ${summary.currency}\n`;
+        markdown += `- Expense: ${formatMoney(summary.totalExpense)} ${summary.currency}\n`;
+        markdown += `- Net: ${formatMoney(summary.netAmount)} ${summary.currency}\n\n`;
 
-        // 按类别或账户分组
+        // 按类别、账户或标签分组；拆分交易按拆分行计入，带有多个标签的交易计入每个标签
         const groups = new Map<string, Transaction[]>();
-        summary.transactions.forEach((transaction: Transaction) => {
-            const key = groupBy === 'category' ? transaction.category : transaction.account;
-            if (!groups.has(key)) {
-                groups.set(key, []);
+        summary.lines.forEach((transaction: Transaction) => {
+            for (const key of this.getGroupKeys(transaction, groupBy, depth)) {
+                if (!groups.has(key)) {
+                    groups.set(key, []);
+                }
+                groups.get(key)!.push(transaction);
             }
-            groups.get(key)!.push(transaction);
         });
 
         // 显示分组统计
@@ -170,15 +233,17 @@ export class SummaryQueryService {
         markdown += `| ${groupBy.charAt(0).toUpperCase() + groupBy.slice(1)} | Income | Expense | Net |\n`;
         markdown += `|------|--------|---------|-----|\n`;
 
-        groups.forEach((transactions: Transaction[], key: string) => {
+        // 分类按层级汇总，上级的一行包含其所有下级的交易
+        const rows = groupBy === 'category' ? this.rollUpCategories(groups) : groups;
+        rows.forEach((transactions: Transaction[], key: string) => {
             const income = transactions
                 .filter(t => t.type === 'income')
-                .reduce((sum, t) => sum + t.amount, 0);
+                .reduce((sum, t) => addMoney(sum, t.amount), zeroMoney(summary.currency));
             const expense = transactions
                 .filter(t => t.type === 'expense')
-                .reduce((sum, t) => sum + t.amount, 0);
-            const net = income - expense;
-            markdown += `| ${key} | ${income.toFixed(2)} | ${expense.toFixed(2)} | ${net.toFixed(2)} |\n`;
+                .reduce((sum, t) => addMoney(sum, t.amount), zeroMoney(summary.currency));
+            const net = subtractMoney(income, expense);
+            markdown += `| ${key} | ${formatMoney(income)} | ${formatMoney(expense)} | ${formatMoney(net)} |\n`;
         });
 
         markdown += '\n';
@@ -192,8 +257,8 @@ export class SummaryQueryService {
 
                 transactions.forEach((transaction: Transaction) => {
                     const date = format(transaction.date, 'yyyy-MM-dd');
-                    const amount = transaction.amount.toFixed(2);
-                    const type = transaction.type === 'income' ? '📈 Income' : '📉 Expense';
+                    const amount = formatMoney(transaction.amount);
+                    const type = TYPE_LABELS[transaction.type];
                     markdown += `| ${date} | ${transaction.description || ''} | ${amount} | ${type} |\n`;
                 });
 
@@ -203,4 +268,30 @@ export class SummaryQueryService {
 
         return markdown;
     }
+
+    // 按层级排列所有分类及其上级，每个分类包含自身和下级分类的交易
+    private rollUpCategories(groups: Map<string, Transaction[]>): Map<string, Transaction[]> {
+        const rolled = new Map<string, Transaction[]>();
+        for (const category of buildCategoryTree(Array.from(groups.keys()))) {
+            rolled.set(category, Array.from(groups.entries())
+                .filter(([key]) => isCategoryWithin(key, category))
+                .flatMap(([, transactions]) => transactions));
+        }
+        return rolled;
+    }
+
+    private getGroupKeys(transaction: Transaction, groupBy: SummaryGroupBy, depth?: number): string[] {
+        switch (groupBy) {
+            case 'category':
+                return [truncateCategory(transaction.category, depth)];
+            case 'account':
+                return [transaction.account];
+            case 'tag':
+                return transaction.tags.length > 0 ? transaction.tags.map(tag => `#${tag}`) : [UNTAGGED];
+            case 'payee':
+                return [transaction.payee || NO_PAYEE];
+            default:
+                return [];
+        }
+    }
 } 
\ No newline at end of file
@@ -2,7 +2,22 @@ import { App } from 'obsidian';
 import { format, startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfQuarter, endOfQuarter, startOfYear, endOfYear } from 'date-fns';
 import { FinanceSettings } from '../settings';
 import { Transaction } from '../types/Transaction';
+import { Money } from '../types/Money';
+import { addMoney, formatMoney, subtractMoney, zeroMoney } from '../utils/money';
 import { TransactionService } from './TransactionService';
+import { TransactionQuery } from '../types/TransactionQuery';
+import { NetWorth, NetWorthChange } from '../types/AccountBalance';
+import { getSplitLines } from '../utils/splits';
+import { matchesLineCategory } from '../utils/query';
+
+const TYPE_LABELS: Record<Transaction['type'], string> = {
+    income: '📈 Income',
+    expense: '📉 Expense',
+    transfer: '🔁 Transfer'
+};
+
+// 汇总的筛选和排序条件，时间范围由汇总周期决定
+export type SummaryFilters = Omit<TransactionQuery, 'startDate' | 'endDate' | 'page' | 'pageSize'>;
 
 interface SummaryPeriod {
     start: Date;
@@ -11,14 +26,17 @@ interface SummaryPeriod {
 
 interface CurrencySummary {
     currency: string;
-    totalIncome: number;
-    totalExpense: number;
-    netAmount: number;
+    totalIncome: Money;
+    totalExpense: Money;
+    netAmount: Money;
     transactions: Transaction[];
+    lines: Transaction[];
 }
 
 interface PeriodSummary {
     period: string;
+    start: Date;
+    end: Date;
     summaries: CurrencySummary[];
     markdown: string;
 }
@@ -34,48 +52,73 @@ export class SummaryService {
         this.transactionService = transactionService;
     }
 
-    async getDailySummary(date: Date): Promise<PeriodSummary> {
+    async getDailySummary(date: Date, filters?: SummaryFilters): Promise<PeriodSummary> {
         const period: SummaryPeriod = {
             start: startOfDay(date),
             end: endOfDay(date)
         };
-        return this.generateSummary(period, 'daily');
+        return this.generateSummary(period, 'daily', filters);
     }
 
-    async getWeeklySummary(date: Date): Promise<PeriodSummary> {
+    async getWeeklySummary(date: Date, filters?: SummaryFilters): Promise<PeriodSummary> {
         const period: SummaryPeriod = {
             start: startOfWeek(date),
             end: endOfWeek(date)
         };
-        return this.generateSummary(period, 'weekly');
+        return this.generateSummary(period, 'weekly', filters);
     }
 
-    async getMonthlySummary(date: Date): Promise<PeriodSummary> {
+    async getMonthlySummary(date: Date, filters?: SummaryFilters): Promise<PeriodSummary> {
         const period: SummaryPeriod = {
             start: startOfMonth(date),
             end: endOfMonth(date)
         };
-        return this.generateSummary(period, 'monthly');
+        return this.generateSummary(period, 'monthly', filters);
     }
 
-    async getQuarterlySummary(date: Date): Promise<PeriodSummary> {
+    async getQuarterlySummary(date: Date, filters?: SummaryFilters): Promise<PeriodSummary> {
         const period: SummaryPeriod = {
             start: startOfQuarter(date),
             end: endOfQuarter(date)
         };
-        return this.generateSummary(period, 'quarterly');
+        return this.generateSummary(period, 'quarterly', filters);
     }
 
-    async getYearlySummary(date: Date): Promise<PeriodSummary> {
+    async getYearlySummary(date: Date, filters?: SummaryFilters): Promise<PeriodSummary> {
         const period: SummaryPeriod = {
             start: startOfYear(date),
             end: endOfYear(date)
         };
-        return this.generateSummary(period, 'yearly');
+        return this.generateSummary(period, 'yearly', filters);
+    }
+
+    /**
+     * 期末的净资产及其相对期初（开始日期之前）的变化，按货币统计。
+     * 只使用 filters 中的账户和货币条件。
+     */
+    async getNetWorthChange(start: Date, end: Date, filters: SummaryFilters = {}): Promise<NetWorthChange[]> {
+        const [before, after] = await this.transactionService.getNetWorthHistory(
+            [new Date(start.getTime() - 1), end],
+            filters.accounts,
+            filters.currencies
+        );
+        const currencies = Array.from(new Set([...before, ...after].map(total => total.currency))).sort();
+        const find = (totals: NetWorth[], currency: string): NetWorth => totals.find(t => t.currency === currency) ?? {
+            currency,
+            assets: zeroMoney(currency),
+            liabilities: zeroMoney(currency),
+            netWorth: zeroMoney(currency)
+        };
+        return currencies.map(currency => {
+            const current = find(after, currency);
+            return { ...current, change: subtractMoney(current.netWorth, find(before, currency).netWorth) };
+        });
     }
 
-    private async generateSummary(period: SummaryPeriod, type: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly'): Promise<PeriodSummary> {
+    // 只统计满足 filters 的交易，交易列表按 filters.sort 排序
+    private async generateSummary(period: SummaryPeriod, type: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly', filters: SummaryFilters = {}): Promise<PeriodSummary> {
         const transactions = await this.transactionService.getTransactions({
+            ...filters,
             startDate: period.start,
             endDate: period.end
         });
@@ -83,7 +126,7 @@ export class SummaryService {
         // 按货币分组
         const currencyGroups = new Map<string, Transaction[]>();
         transactions.forEach(transaction => {
-            const currency = transaction.currency;
+            const currency = transaction.amount.currency;
             if (!currencyGroups.has(currency)) {
                 currencyGroups.set(currency, []);
             }
@@ -93,7 +136,7 @@ export class SummaryService {
         // 为每种货币生成摘要
         const summaries: CurrencySummary[] = [];
         currencyGroups.forEach((transactions, currency) => {
-            const summary = this.calculateCurrencySummary(transactions, currency);
+            const summary = this.calculateCurrencySummary(transactions, currency, filters);
             summaries.push(summary);
         });
 
@@ -105,26 +148,31 @@ export class SummaryService {
 
         return {
             period: periodLabel,
+            start: period.start,
+            end: period.end,
             summaries,
             markdown
         };
     }
 
-    private calculateCurrencySummary(transactions: Transaction[], currency: string): CurrencySummary {
-        const totalIncome = transactions
+    // 按拆分行统计，拆分交易的每一行分别计入，不符合分类条件的拆分行不计入；转账只在账户之间移动资金，不计入收支
+    private calculateCurrencySummary(transactions: Transaction[], currency: string, filters: SummaryFilters): CurrencySummary {
+        const lines = transactions.flatMap(getSplitLines).filter(line => matchesLineCategory(line, filters));
+        const totalIncome = lines
             .filter(t => t.type === 'income')
-            .reduce((sum, t) => sum + t.amount, 0);
+            .reduce((sum, t) => addMoney(sum, t.amount), zeroMoney(currency));
 
-        const totalExpense = transactions
+        const totalExpense = lines
             .filter(t => t.type === 'expense')
-            .reduce((sum, t) => sum + t.amount, 0);
+            .reduce((sum, t) => addMoney(sum, t.amount), zeroMoney(currency));
 
         return {
             currency,
             totalIncome,
             totalExpense,
-            netAmount: totalIncome - totalExpense,
-            transactions
+            netAmount: subtractMoney(totalIncome, totalExpense),
+            transactions,
+            lines
         };
     }
 
@@ -151,9 +199,9 @@ export class SummaryService {
         summaries.forEach(summary => {
             markdown += `## ${summary.currency}\n\n`;
             markdown += `### Overview\n`;
-            markdown += `- Income: ${summary.totalIncome.toFixed(2)} ${summary.currency}\n`;
-            markdown += `- Expense: ${summary.totalExpense.toFixed(2)} ${summary.currency}\n`;
-            markdown += `- Net: ${summary.netAmount.toFixed(2)} ${summary.currency}\n\n`;
+            markdown += `- Income: ${formatMoney(summary.totalIncome)} ${summary.currency}\n`;
+            markdown += `- Expense: ${formatMoney(summary.totalExpense)} ${summary.currency}\n`;
+            markdown += `- Net: ${formatMoney(summary.netAmount)} ${summary.currency}\n\n`;
 
             if (summary.transactions.length > 0) {
                 markdown += `### Transactions\n\n`;
@@ -162,9 +210,12 @@ export class SummaryService {
 
                 summary.transactions.forEach(transaction => {
                     const date = format(transaction.date, 'yyyy-MM-dd');
-                    const amount = transaction.amount.toFixed(2);
-                    const type = transaction.type === 'income' ? '📈 Income' : '📉 Expense';
+                    const amount = formatMoney(transaction.amount);
+                    const type = TYPE_LABELS[transaction.type];
                     markdown += `| ${date} | ${transaction.description} | ${amount} | ${type} |\n`;
+                    transaction.splits?.forEach(split => {
+                        markdown += `| | ↳ ${split.category} | ${formatMoney(split.amount)} | |\n`;
+                    });
                 });
             }
 
@@ -1,36 +1,89 @@
 import { App, TFile } from 'obsidian';
-import { format, parse, getYear } from 'date-fns';
 import { FinanceSettings } from '../settings';
-import { Transaction } from '../types/Transaction';
+import { ClearedStatus, Transaction } from '../types/Transaction';
+import { Money } from '../types/Money';
+import { TransactionQuery } from '../types/TransactionQuery';
+import { AccountBalance, NetWorth } from '../types/AccountBalance';
+import { BalanceSnapshot } from '../types/Account';
 import { EventBus, EVENT_TYPES } from './EventBus';
+import { TransactionStore, TransactionStorage } from './TransactionStore';
+import { LedgerTransactionStore } from './LedgerTransactionStore';
+import { NoteTransactionStore } from './NoteTransactionStore';
+import { InlineTransactionIndex } from './InlineTransactionIndex';
+import { HistoryService } from './HistoryService';
+import { TrashService } from './TrashService';
+import { ChangeLogService } from './ChangeLogService';
+import { MerchantService } from './MerchantService';
+import { AccountService } from './AccountService';
+import { ChangeEntry } from '../types/ChangeEntry';
+import { getCategories, getSplitError } from '../utils/splits';
+import { buildCategoryTree } from '../utils/categories';
+import { compareTransactions, matchesFilters } from '../utils/query';
+import { AccountPosting, getAccountPostings, getTransferError } from '../utils/transfers';
+import { addMoney, subtractMoney, sumMoney, zeroMoney } from '../utils/money';
+import { affectsAccount, getAccountAmount, getPostingStatus, setPostingStatus } from '../utils/reconciliation';
+import { applyRules, getRuleChanges, matchesRule } from '../utils/rules';
+import { DUPLICATE_WINDOW_DAYS, findDuplicatePairs, isDuplicate, mergeDuplicate } from '../utils/duplicates';
+import { addDays } from 'date-fns';
 import * as crypto from 'crypto';
 
-interface TransactionQuery {
-    startDate?: Date;
-    endDate?: Date;
-    categories?: string[];
-    accounts?: string[];
-    types?: ('income' | 'expense')[];
-    sort?: {
-        field: keyof Transaction;
-        direction: 'asc' | 'desc';
-        priority: number;
-    }[];
-    page?: number;
-    pageSize?: number;
+// 重新应用规则时一条交易的变化
+export interface RuleChange {
+    before: Transaction;
+    after: Transaction;
+    // 发生变化的字段，例如 category、tags
+    fields: string[];
+}
+
+// 带有交易日期的账户变动
+type DatedPosting = AccountPosting & { date: Date };
+
+// 账户与货币的组合键，同一账户的不同货币分别计算余额
+function getBalanceKey(account: string, currency: string): string {
+    return `${account}\u0000${currency}`;
+}
+
+// 一个账户截至对账单日期的对账数据
+export interface Reconciliation {
+    // 期初余额加上已对账的交易
+    reconciledBalance: Money;
+    // 尚未对账的交易（含已核对的），按日期排列
+    transactions: Transaction[];
+    // 无法标记对账状态的行内交易
+    inlineTransactions: Transaction[];
 }
 
 export class TransactionService {
     private app: App;
     private settings: FinanceSettings;
-    private transactions: Transaction[] = [];
+    private store: TransactionStore;
+    private inlineIndex: InlineTransactionIndex;
     private initialized: boolean = false;
     private eventBus: EventBus;
-
-    constructor(app: App, settings: FinanceSettings) {
+    private history: HistoryService;
+    private trash: TrashService;
+    private changeLog: ChangeLogService;
+    private merchants: MerchantService;
+    private accounts: AccountService;
+
+    constructor(
+        app: App,
+        settings: FinanceSettings,
+        history: HistoryService,
+        trash: TrashService,
+        merchants: MerchantService,
+        accounts: AccountService
+    ) {
         this.app = app;
         this.settings = settings;
+        this.history = history;
+        this.trash = trash;
+        this.merchants = merchants;
+        this.accounts = accounts;
         this.eventBus = EventBus.getInstance();
+        this.store = this.createStore(settings.transactionStorage);
+        this.inlineIndex = new InlineTransactionIndex(app, settings);
+        this.changeLog = new ChangeLogService(app, settings);
     }
 
     getSettings(): FinanceSettings {
@@ -39,27 +92,9 @@ export class TransactionService {
 
     async initialize(): Promise<void> {
         try {
-            const { vault } = this.app;
-            const currentYear = new Date().getFullYear();
-            const yearPath = `${this.settings.financeFilePath}/${currentYear}`;
-
-            // 确保年份目录存在
-            try {
-                await vault.createFolder(yearPath);
-            } catch (error) {
-                // 目录可能已存在，忽略错误
-            }
-
-            // 确保文件存在
-            const filePath = `${yearPath}/transactions.finance.md`;
-            const file = vault.getAbstractFileByPath(filePath);
-            if (!file) {
-                await vault.create(filePath, this.getInitialContent(currentYear));
-            }
-
-            // 加载交易数据
+            // 加载当前年份的交易数据，其他年份按查询范围懒加载
             if (!this.initialized) {
-                await this.loadTransactions();
+                await this.store.initialize();
                 this.initialized = true;
             }
         } catch (error) {
@@ -67,211 +102,333 @@ export class TransactionService {
         }
     }
 
-    private async loadTransactions() {
-        try {
-            const currentYear = new Date().getFullYear();
-            const file = await this.getOrCreateFinanceFile(currentYear);
-            const content = await this.app.vault.read(file);
-            this.transactions = this.parseTransactionsFromContent(content);
-        } catch (error) {
-            console.error('Failed to load transactions:', error);
-            this.transactions = [];
-        }
+    private createStore(storage: TransactionStorage): TransactionStore {
+        return storage === 'notes'
+            ? new NoteTransactionStore(this.app, this.settings)
+            : new LedgerTransactionStore(this.app, this.settings);
     }
 
-    private async getOrCreateFinanceFile(year: number): Promise<TFile> {
-        const { vault } = this.app;
-        const yearPath = `${this.settings.financeFilePath}/${year}`;
-        const filePath = `${yearPath}/transactions.finance.md`;
+    // 切换存储后端（不迁移数据）
+    async setStorage(storage: TransactionStorage): Promise<void> {
+        this.settings.transactionStorage = storage;
+        this.store = this.createStore(storage);
+        this.initialized = false;
+        // 历史记录针对原来的后端，切换后不再适用
+        this.history.clear();
+        await this.initialize();
+        this.eventBus.emit(EVENT_TYPES.TRANSACTION_CHANGED);
+    }
 
-        try {
-            // 确保年份目录存在
-            await this.ensureDirectoryExists(yearPath);
-            
-            const file = vault.getAbstractFileByPath(filePath);
-            if (file instanceof TFile) {
-                return file;
-            }
-        } catch (error) {
-            console.error('Error getting finance file:', error);
+    // 交易是否保存在按年份的账本文件中（而不是每笔交易一个笔记）
+    usesLedgerFiles(): boolean {
+        return this.store instanceof LedgerTransactionStore;
+    }
+
+    // 经写入队列改写任一年份的交易账本文件，仅用于账本存储下的批量修改（如分类改名）
+    async modifyLedgerFile(file: TFile, mutate: (content: string) => string): Promise<void> {
+        if (!(this.store instanceof LedgerTransactionStore)) {
+            throw new Error('Transactions are not stored in ledger files');
         }
+        await this.store.modify(file, mutate);
+        this.eventBus.emit(EVENT_TYPES.TRANSACTION_CHANGED);
+    }
 
-        // 如果文件不存在，创建新文件
-        const content = this.getInitialContent(year);
-        return await vault.create(filePath, content);
+    /**
+     * 把所有交易从当前后端复制到目标后端并切换过去，返回迁移的条数。
+     * 原有文件保留不动；目标中已存在的 ID 会被跳过，因此可以重复执行。
+     */
+    async migrateStorage(target: TransactionStorage): Promise<number> {
+        if (target === this.settings.transactionStorage) {
+            return 0;
+        }
+        const destination = this.createStore(target);
+        await destination.initialize();
+        const existingIds = new Set((await destination.loadRange()).map(t => t.id));
+        const transactions = await this.store.loadRange();
+
+        const missing = transactions.filter(t => !existingIds.has(t.id));
+        await destination.addAll(missing);
+
+        this.settings.transactionStorage = target;
+        this.store = destination;
+        this.initialized = true;
+        this.history.clear();
+        this.eventBus.emit(EVENT_TYPES.TRANSACTION_CHANGED);
+        return missing.length;
     }
 
-    private async ensureDirectoryExists(path: string) {
-        const { vault } = this.app;
-        try {
-            await vault.createFolder(path);
-        } catch (error) {
-            // 目录可能已存在，忽略错误
+    // 所有存在交易数据的年份
+    getYears(): number[] {
+        return this.store.getYears();
+    }
+
+    // 交易文件被外部修改时重新解析该文件，返回是否属于当前存储后端
+    async handleFileChange(path: string): Promise<boolean> {
+        const { owned, changed } = await this.store.refreshPath(path);
+        // 其他笔记可能包含行内交易
+        const inlineChanged = !owned && await this.inlineIndex.handleFileChange(path);
+        if (changed || inlineChanged) {
+            this.eventBus.emit(EVENT_TYPES.TRANSACTION_CHANGED);
+        }
+        return owned;
+    }
+
+    private async findTransaction(id: string): Promise<Transaction | undefined> {
+        const inline = this.inlineIndex.find(id);
+        if (inline) {
+            return inline;
         }
+        const loaded = this.store.getLoaded().find(t => t.id === id);
+        if (loaded) {
+            return loaded;
+        }
+        // 未命中时加载全部年份再查找
+        const all = await this.store.loadRange();
+        return all.find(t => t.id === id);
+    }
+
+    async addTransaction(transaction: Omit<Transaction, 'id'>): Promise<Transaction> {
+        const [newTransaction] = await this.addTransactions([transaction]);
+        return newTransaction;
     }
 
-    private getInitialContent(year: number): string {
-        return `# ${year} Transactions\n\n`;
+    // 批量添加交易，收款方按商户目录归一；所有写入完成后只发出一次变更事件
+    async addTransactions(transactions: Omit<Transaction, 'id'>[]): Promise<Transaction[]> {
+        transactions.forEach(transaction => this.validateTransaction(transaction));
+        const now = new Date();
+        const newTransactions: Transaction[] = transactions.map(transaction => ({
+            ...this.merchants.normalize(transaction),
+            id: crypto.randomUUID(),
+            createdAt: now,
+            updatedAt: now
+        }));
+        await this.store.addAll(newTransactions);
+        await this.logChanges(newTransactions.map(transaction => ({ after: transaction })));
+        this.eventBus.emit(EVENT_TYPES.TRANSACTION_CHANGED);
+        this.history.record({
+            label: newTransactions.length === 1 ? 'Add transaction' : `Add ${newTransactions.length} transactions`,
+            undo: () => this.discardTransactions(newTransactions),
+            redo: () => this.restoreTransactions(newTransactions)
+        });
+        return newTransactions;
     }
 
-    private parseTransactionsFromContent(content: string): Transaction[] {
-        const transactions: Transaction[] = [];
-        const lines = content.split('\n');
-        let currentTransaction: Partial<Transaction> = {};
+    async updateTransaction(transaction: Transaction): Promise<Transaction> {
+        const [updated] = await this.updateTransactions([transaction]);
+        return updated;
+    }
 
-        for (const line of lines) {
-            if (line.startsWith('## ')) {
-                if (Object.keys(currentTransaction).length > 0) {
-                    transactions.push(currentTransaction as Transaction);
-                }
-                currentTransaction = {};
-            } else if (line.startsWith('- ')) {
-                const [key, value] = line.slice(2).split(': ').map(s => s.trim());
-                switch (key) {
-                    case 'Date':
-                        currentTransaction.date = new Date(value);
-                        break;
-                    case 'Amount':
-                        currentTransaction.amount = parseFloat(value);
-                        break;
-                    case 'Type':
-                        currentTransaction.type = value as 'income' | 'expense';
-                        break;
-                    case 'Category':
-                        currentTransaction.category = value;
-                        break;
-                    case 'Account':
-                        currentTransaction.account = value;
-                        break;
-                    case 'Description':
-                        currentTransaction.description = value;
-                        break;
-                    case 'Currency':
-                        currentTransaction.currency = value;
-                        break;
-                    case 'ID':
-                        currentTransaction.id = value;
-                        break;
-                }
+    // 批量修改交易，写入前先校验全部交易；所有写入完成后只发出一次变更事件，作为一次修改撤销
+    async updateTransactions(transactions: Transaction[]): Promise<Transaction[]> {
+        const now = new Date();
+        const changes: { before: Transaction; after: Transaction }[] = [];
+        for (const transaction of transactions) {
+            const existing = await this.findTransaction(transaction.id);
+            if (!existing) {
+                throw new Error('Transaction not found');
+            }
+            this.validateTransaction(transaction);
+            if (existing.source && transaction.splits) {
+                throw new Error('Inline transactions cannot be split');
+            }
+            if (existing.source && transaction.type === 'transfer') {
+                throw new Error('Inline transactions cannot be transfers');
+            }
+            if (existing.source && transaction.status) {
+                throw new Error('Inline transactions cannot be reconciled');
+            }
+            changes.push({ before: existing, after: { ...transaction, createdAt: existing.createdAt, updatedAt: now } });
+        }
+        for (const { before, after } of changes) {
+            if (before.source) {
+                // 行内交易直接改写源笔记中的那一行
+                await this.inlineIndex.update({ ...after, source: before.source });
+            } else {
+                await this.store.update(before, after);
             }
         }
+        await this.logChanges(changes);
+        this.eventBus.emit(EVENT_TYPES.TRANSACTION_CHANGED);
+        this.history.record({
+            label: changes.length === 1 ? 'Edit transaction' : `Edit ${changes.length} transactions`,
+            undo: async () => { await this.updateTransactions(changes.map(change => change.before)); },
+            redo: async () => { await this.updateTransactions(transactions); }
+        });
+        return changes.map(change => change.after);
+    }
 
-        if (Object.keys(currentTransaction).length > 0) {
-            transactions.push(currentTransaction as Transaction);
+    /**
+     * 每条待添加交易对应的疑似重复的已有交易（没有时为空数组），
+     * 用于添加前提醒和导入时选择跳过或保留。
+     */
+    async findDuplicates(transactions: Omit<Transaction, 'id'>[]): Promise<Transaction[][]> {
+        if (transactions.length === 0) {
+            return [];
         }
+        const times = transactions.map(t => t.date.getTime());
+        const existing = await this.getTransactions({
+            startDate: addDays(new Date(Math.min(...times)), -DUPLICATE_WINDOW_DAYS - 1),
+            endDate: addDays(new Date(Math.max(...times)), DUPLICATE_WINDOW_DAYS + 1)
+        });
+        return transactions.map(transaction => existing.filter(t => isDuplicate(transaction, t)));
+    }
 
-        return transactions;
-    }
-
-    private formatTransaction(transaction: Transaction): string {
-        return `## Transaction ${transaction.id}
-
-- Date: ${format(transaction.date, 'yyyy-MM-dd')}
-- Amount: ${transaction.amount}
-- Type: ${transaction.type}
-- Category: ${transaction.category}
-- Account: ${transaction.account}
-- Description: ${transaction.description}
-- Currency: ${transaction.currency}
-- ID: ${transaction.id}
-
-`;
-    }
-
-    private async addTransactionToContent(transaction: Transaction) {
-        const year = getYear(transaction.date);
-        const file = await this.getOrCreateFinanceFile(year);
-        const content = await this.app.vault.read(file);
-        const newContent = content + this.formatTransaction(transaction);
-        await this.app.vault.modify(file, newContent);
-    }
-
-    private async updateTransactionInContent(transaction: Transaction) {
-        const year = getYear(transaction.date);
-        const file = await this.getOrCreateFinanceFile(year);
-        const content = await this.app.vault.read(file);
-        const lines = content.split('\n');
-        const transactionIndex = lines.findIndex(line => 
-            line.startsWith('## Transaction ') && line.includes(transaction.id)
-        );
-
-        if (transactionIndex !== -1) {
-            const nextTransactionIndex = lines.findIndex((line, index) => 
-                index > transactionIndex && line.startsWith('## Transaction ')
-            );
-            const endIndex = nextTransactionIndex === -1 ? lines.length : nextTransactionIndex;
-            const newContent = [
-                ...lines.slice(0, transactionIndex),
-                this.formatTransaction(transaction),
-                ...lines.slice(endIndex)
-            ].join('\n');
-            await this.app.vault.modify(file, newContent);
+    // 所有交易中疑似重复的交易对
+    async getDuplicatePairs(): Promise<[Transaction, Transaction][]> {
+        return findDuplicatePairs(await this.getTransactions());
+    }
+
+    // 合并重复的交易：保留 keepId 并补全字段，duplicateId 移入回收站；作为一次修改撤销
+    async mergeTransactions(keepId: string, duplicateId: string): Promise<Transaction> {
+        const keep = await this.findTransaction(keepId);
+        const duplicate = await this.findTransaction(duplicateId);
+        if (!keep || !duplicate) {
+            throw new Error('Transaction not found');
         }
+        let merged = mergeDuplicate(keep, duplicate);
+        await this.history.group('Merge duplicate transactions', async () => {
+            merged = await this.updateTransaction(merged);
+            await this.deleteTransaction(duplicate.id);
+        });
+        return merged;
+    }
+
+    // 先按商户目录归一收款方，再按设置中的规则补全分类、标签、账户和类型
+    applyRules<T extends Omit<Transaction, 'id'>>(transaction: T): T {
+        return applyRules(this.merchants.normalize(transaction), this.settings.rules);
     }
 
-    private async deleteTransactionFromContent(id: string, date: Date) {
-        const year = getYear(date);
-        const file = await this.getOrCreateFinanceFile(year);
-        const content = await this.app.vault.read(file);
-        const lines = content.split('\n');
-        const transactionIndex = lines.findIndex(line => 
-            line.startsWith('## Transaction ') && line.includes(id)
-        );
-
-        if (transactionIndex !== -1) {
-            const nextTransactionIndex = lines.findIndex((line, index) => 
-                index > transactionIndex && line.startsWith('## Transaction ')
-            );
-            const endIndex = nextTransactionIndex === -1 ? lines.length : nextTransactionIndex;
-            const newContent = [
-                ...lines.slice(0, transactionIndex),
-                ...lines.slice(endIndex)
-            ].join('\n');
-            await this.app.vault.modify(file, newContent);
+    /**
+     * 添加交易时随输入预填的标签：每条匹配的规则只追加一次它的标签，
+     * applied 记录已经追加过标签的规则 ID，之后用户删除的标签不会再被加回。
+     */
+    applyRuleTags(transaction: Omit<Transaction, 'id'>, applied: Set<string>): string[] {
+        const normalized = this.merchants.normalize(transaction);
+        const tags = [...transaction.tags];
+        for (const rule of this.settings.rules.filter(r => r.enabled && !applied.has(r.id) && matchesRule(normalized, r))) {
+            applied.add(rule.id);
+            for (const tag of rule.actions.tags ?? []) {
+                if (!tags.includes(tag)) {
+                    tags.push(tag);
+                }
+            }
         }
+        return tags;
     }
 
-    async addTransaction(transaction: Omit<Transaction, 'id'>): Promise<Transaction> {
-        const newTransaction: Transaction = {
-            ...transaction,
-            id: crypto.randomUUID()
-        };
-        await this.addTransactionToContent(newTransaction);
-        // 重新加载交易数据以确保数据同步
-        await this.loadTransactions();
-        this.eventBus.emit(EVENT_TYPES.TRANSACTION_CHANGED);
-        return newTransaction;
+    // 对所有已有交易重新应用规则后会发生变化的交易，用于确认前预览
+    async getRuleChanges(): Promise<RuleChange[]> {
+        const transactions = await this.getTransactions();
+        return transactions
+            .map(before => {
+                const after = this.applyRules(before);
+                return { before, after, fields: getRuleChanges(before, after) };
+            })
+            .filter(change => change.fields.length > 0);
     }
 
-    async updateTransaction(transaction: Transaction): Promise<Transaction> {
-        const index = this.transactions.findIndex(t => t.id === transaction.id);
-        if (index === -1) {
+    // 删除的交易移入回收站
+    async deleteTransaction(id: string): Promise<void> {
+        const transaction = await this.findTransaction(id);
+        if (!transaction) {
             throw new Error('Transaction not found');
         }
-        await this.updateTransactionInContent(transaction);
-        // 重新加载交易数据以确保数据同步
-        await this.loadTransactions();
+        await this.removeTransaction(transaction);
+        await this.trash.add('transactions', [transaction]);
+        await this.logChanges([{ before: transaction }]);
         this.eventBus.emit(EVENT_TYPES.TRANSACTION_CHANGED);
-        return transaction;
+        this.history.record({
+            label: 'Delete transaction',
+            undo: () => this.restoreTransactions([transaction]),
+            redo: () => this.deleteTransaction(id)
+        });
     }
 
-    async deleteTransaction(id: string): Promise<void> {
-        const index = this.transactions.findIndex(t => t.id === id);
-        if (index === -1) {
-            throw new Error('Transaction not found');
+    /**
+     * 按原 ID 恢复交易（撤销删除或从回收站恢复），并从回收站中移除。
+     * 行内交易恢复到账本文件中，不会写回原笔记。
+     */
+    async restoreTransactions(transactions: Transaction[]): Promise<void> {
+        const restored = transactions.map(({ source, ...transaction }) => transaction);
+        await this.store.addAll(restored);
+        await this.trash.remove('transactions', restored.map(t => t.id));
+        await this.logChanges(restored.map(transaction => ({ after: transaction })));
+        this.eventBus.emit(EVENT_TYPES.TRANSACTION_CHANGED);
+        this.history.record({
+            label: restored.length === 1 ? 'Restore transaction' : `Restore ${restored.length} transactions`,
+            // 撤销恢复时放回回收站
+            undo: async () => {
+                await this.discardTransactions(restored);
+                await this.trash.add('transactions', restored);
+            },
+            redo: () => this.restoreTransactions(restored)
+        });
+    }
+
+    // 撤销添加：直接删除，不进入回收站
+    private async discardTransactions(transactions: Transaction[]): Promise<void> {
+        for (const { id } of transactions) {
+            const transaction = await this.findTransaction(id);
+            if (transaction) {
+                await this.removeTransaction(transaction);
+                await this.logChanges([{ before: transaction }]);
+            }
         }
-        const transaction = this.transactions[index];
-        await this.deleteTransactionFromContent(id, transaction.date);
-        // 重新加载交易数据以确保数据同步
-        await this.loadTransactions();
         this.eventBus.emit(EVENT_TYPES.TRANSACTION_CHANGED);
     }
 
+    // 修改记录写入失败不影响修改本身
+    private async logChanges(changes: { before?: Transaction; after?: Transaction }[]): Promise<void> {
+        try {
+            await this.changeLog.record('transactions', changes);
+        } catch (error) {
+            console.error('Failed to record transaction history:', error);
+        }
+    }
+
+    // 交易的修改记录，按时间先后排列
+    async getTransactionHistory(id: string): Promise<ChangeEntry[]> {
+        return this.changeLog.getChanges('transactions', id);
+    }
+
+    /**
+     * 把交易恢复到某次修改之后的状态；该次修改是删除时删除交易。
+     * 恢复本身也作为一次修改记录，可以撤销。
+     */
+    async revertTransaction(id: string, changeId: string): Promise<Transaction | undefined> {
+        const current = await this.findTransaction(id);
+        const changes = await this.changeLog.getChanges('transactions', id);
+        const version = this.changeLog.getVersion('transactions', current, changes, changeId);
+        if (!version) {
+            if (current) {
+                await this.deleteTransaction(id);
+            }
+            return undefined;
+        }
+        if (current) {
+            return this.updateTransaction(version);
+        }
+        await this.restoreTransactions([version]);
+        return version;
+    }
+
+    private async removeTransaction(transaction: Transaction): Promise<void> {
+        if (transaction.source) {
+            await this.inlineIndex.delete(transaction);
+        } else {
+            await this.store.delete(transaction);
+        }
+    }
+
     async getTransactions(query?: TransactionQuery): Promise<Transaction[]> {
         if (!this.initialized) {
             await this.initialize();
         }
-        let filtered = [...this.transactions];
+        // 只加载与查询日期范围相交的年份，并合并笔记中的行内交易
+        let filtered = [
+            ...await this.store.loadRange(query?.startDate, query?.endDate),
+            ...await this.inlineIndex.getTransactions()
+        ];
 
         if (query) {
             // 应用过滤条件
@@ -281,30 +438,11 @@ export class TransactionService {
             if (query.endDate) {
                 filtered = filtered.filter(t => new Date(t.date) <= query.endDate!);
             }
-            if (query.categories) {
-                filtered = filtered.filter(t => query.categories!.includes(t.category));
-            }
-            if (query.accounts) {
-                filtered = filtered.filter(t => query.accounts!.includes(t.account));
-            }
-            if (query.types) {
-                filtered = filtered.filter(t => query.types!.includes(t.type));
-            }
+            filtered = filtered.filter(t => matchesFilters(t, query));
 
             // 应用排序
             if (query.sort) {
-                filtered.sort((a, b) => {
-                    for (const sort of query.sort!) {
-                        const aValue = String(a[sort.field] ?? '');
-                        const bValue = String(b[sort.field] ?? '');
-                        if (aValue !== bValue) {
-                            return sort.direction === 'asc' ? 
-                                aValue > bValue ? 1 : -1 :
-                                aValue < bValue ? 1 : -1;
-                        }
-                    }
-                    return 0;
-                });
+                filtered.sort((a, b) => compareTransactions(a, b, query.sort!));
             }
 
             // 应用分页
@@ -319,33 +457,236 @@ export class TransactionService {
     }
 
     async loadTransactionsByYear(year: number): Promise<void> {
-        try {
-            const file = await this.getOrCreateFinanceFile(year);
-            const content = await this.app.vault.read(file);
-            this.transactions = this.parseTransactionsFromContent(content);
-        } catch (error) {
-            console.error(`Failed to load transactions for year ${year}:`, error);
-            this.transactions = [];
-        }
+        await this.store.loadRange(new Date(year, 0, 1), new Date(year, 11, 31));
+    }
+
+    /**
+     * 可选的账户列表：账户目录中有账户时为未归档的账户，否则为交易中使用过的账户。
+     * selected 中已选的账户（例如编辑时已归档的账户）总是包含在内。
+     */
+    getAccounts(selected: (string | undefined)[] = []): string[] {
+        const registered = this.accounts.getAccounts(false);
+        const accounts = registered.length > 0 ? registered.map(account => account.name) : this.getUsedAccounts();
+        selected.forEach(account => {
+            if (account && !accounts.includes(account)) {
+                accounts.push(account);
+            }
+        });
+        return accounts;
     }
 
-    // 获取所有账户列表
-    getAccounts(): string[] {
-        // 从交易记录中获取所有使用过的账户
+    // 已加载的交易中使用过的账户和默认账户
+    getUsedAccounts(): string[] {
         const accounts = new Set<string>();
-        this.transactions.forEach(t => accounts.add(t.account));
+        [...this.store.getLoaded(), ...this.inlineIndex.getLoaded()].forEach(t => {
+            accounts.add(t.account);
+            if (t.toAccount) {
+                accounts.add(t.toAccount);
+            }
+        });
         // 添加默认账户
         accounts.add(this.settings.defaultAccount);
         return Array.from(accounts).sort();
     }
 
-    // 获取所有分类列表
+    // 交易所在的文件：行内交易为其源笔记，其余为账本年份文件或交易笔记
+    getSourcePath(transaction: Transaction): string {
+        return transaction.source?.path ?? this.store.getFilePath(transaction);
+    }
+
+    // Links 字段中链接到指定笔记的交易；与反向链接面板一致，链接相对交易所在的文件解析
+    async getLinkedTransactions(path: string): Promise<Transaction[]> {
+        const transactions = await this.getTransactions();
+        return transactions.filter(t => {
+            const sourcePath = this.getSourcePath(t);
+            return t.links?.some(link => this.app.metadataCache.getFirstLinkpathDest(link, sourcePath)?.path === path);
+        });
+    }
+
+    /**
+     * 截至 endDate（缺省为全部）各账户的余额，按账户和货币分别统计。
+     * 转账同时计入转出和转入两个账户，手续费从转出账户扣除。
+     * 账户目录中的账户从开户日期起以期初余额为基础，开户日期之前的交易不计入。
+     * 有手工余额记录时以 endDate 之前最近的一条为准，只累加记录日期之后的交易。
+     */
+    async getAccountBalances(endDate?: Date): Promise<AccountBalance[]> {
+        const postings = await this.getDatedPostings(endDate);
+        return this.sumBalances(postings, endDate);
+    }
+
+    // 各日期结束时的账户余额，只读取一次交易
+    async getAccountBalanceHistory(dates: Date[]): Promise<AccountBalance[][]> {
+        if (dates.length === 0) {
+            return [];
+        }
+        const postings = await this.getDatedPostings(new Date(Math.max(...dates.map(date => date.getTime()))));
+        return dates.map(date => this.sumBalances(postings.filter(posting => posting.date <= date), date));
+    }
+
+    // 截至 endDate 的账户变动，不含开户日期之前的交易
+    private async getDatedPostings(endDate?: Date): Promise<DatedPosting[]> {
+        const transactions = await this.getTransactions({ endDate });
+        return transactions
+            .flatMap(t => getAccountPostings(t).map(posting => ({ ...posting, date: t.date })))
+            .filter(posting => {
+                const openingDate = this.accounts.getAccount(posting.account)?.openingDate;
+                return !openingDate || posting.date >= openingDate;
+            });
+    }
+
+    private sumBalances(postings: DatedPosting[], endDate?: Date): AccountBalance[] {
+        // 每个账户和货币截至 endDate 的最后一条余额记录，记录按日期排序，后面的覆盖前面的
+        const snapshots: Map<string, BalanceSnapshot> = new Map();
+        this.accounts.getSnapshots()
+            .filter(snapshot => !endDate || snapshot.date <= endDate)
+            .forEach(snapshot => snapshots.set(getBalanceKey(snapshot.account, snapshot.balance.currency), snapshot));
+
+        const balances: Map<string, AccountBalance> = new Map();
+        const add = ({ account, amount }: AccountPosting) => {
+            const key = getBalanceKey(account, amount.currency);
+            const current = balances.get(key);
+            balances.set(key, { account, balance: current ? addMoney(current.balance, amount) : amount });
+        };
+        // 已开户的账户即使没有交易也列出；有余额记录时期初余额不再计入
+        this.accounts.getAccounts()
+            .filter(account => !endDate || !account.openingDate || account.openingDate <= endDate)
+            .filter(account => !snapshots.has(getBalanceKey(account.name, account.openingBalance.currency)))
+            .forEach(account => add({ account: account.name, amount: account.openingBalance }));
+        snapshots.forEach(snapshot => add({ account: snapshot.account, amount: snapshot.balance }));
+        // 余额记录是当天结束时的余额，当天及之前的交易已包含在内
+        postings
+            .filter(posting => {
+                const snapshot = snapshots.get(getBalanceKey(posting.account, posting.amount.currency));
+                return !snapshot || posting.date >= addDays(snapshot.date, 1);
+            })
+            .forEach(add);
+        return Array.from(balances.values()).sort((a, b) =>
+            a.account.localeCompare(b.account) || a.balance.currency.localeCompare(b.balance.currency));
+    }
+
+    /**
+     * 各日期结束时按货币统计的净资产：资产账户的余额减去负债账户的欠款，
+     * 收入和支出类账户不计入，不在账户目录中的账户视为资产。
+     * 指定 accounts 或 currencies 时只统计这些账户或货币。
+     */
+    async getNetWorthHistory(dates: Date[], accounts: string[] = [], currencies: string[] = []): Promise<NetWorth[][]> {
+        const history = await this.getAccountBalanceHistory(dates);
+        return history.map(balances => this.sumNetWorth(balances
+            .filter(b => accounts.length === 0 || accounts.includes(b.account))
+            .filter(b => currencies.length === 0 || currencies.includes(b.balance.currency))));
+    }
+
+    private sumNetWorth(balances: AccountBalance[]): NetWorth[] {
+        const totals: Map<string, NetWorth> = new Map();
+        for (const { account, balance } of balances) {
+            const kind = this.accounts.getAccount(account)?.kind ?? 'asset';
+            if (kind !== 'asset' && kind !== 'liability') {
+                continue;
+            }
+            const currency = balance.currency;
+            const total = totals.get(currency) ?? {
+                currency,
+                assets: zeroMoney(currency),
+                liabilities: zeroMoney(currency),
+                netWorth: zeroMoney(currency)
+            };
+            // 负债账户的欠款余额为负数
+            if (kind === 'asset') {
+                total.assets = addMoney(total.assets, balance);
+            } else {
+                total.liabilities = subtractMoney(total.liabilities, balance);
+            }
+            total.netWorth = addMoney(total.netWorth, balance);
+            totals.set(currency, total);
+        }
+        return Array.from(totals.values()).sort((a, b) => a.currency.localeCompare(b.currency));
+    }
+
+    /**
+     * 账户在 currency 下截至 endDate 的对账数据。
+     * 账户目录中的账户从开户日期起以期初余额为基础，与余额的计算方式一致。
+     */
+    async getReconciliation(account: string, currency: string, endDate: Date): Promise<Reconciliation> {
+        const registered = this.accounts.getAccount(account);
+        const openingDate = registered?.openingDate;
+        if (openingDate && openingDate > endDate) {
+            return { reconciledBalance: zeroMoney(currency), transactions: [], inlineTransactions: [] };
+        }
+        const transactions = (await this.getTransactions({ startDate: openingDate, endDate }))
+            .filter(t => affectsAccount(t, account, currency))
+            .sort((a, b) => a.date.getTime() - b.date.getTime());
+        const opening = registered?.currency === currency ? registered.openingBalance : zeroMoney(currency);
+        const isReconciled = (t: Transaction) => getPostingStatus(t, account, currency) === 'reconciled';
+        const reconciled = transactions.filter(isReconciled);
+        return {
+            reconciledBalance: sumMoney([opening, ...reconciled.map(t => getAccountAmount(t, account, currency))], currency),
+            transactions: transactions.filter(t => !isReconciled(t) && !t.source),
+            inlineTransactions: transactions.filter(t => t.source)
+        };
+    }
+
+    /**
+     * 保存对账进度：ticked 标记为已核对，finish 时标记为已对账；unticked 取消核对。
+     * 只改写交易在该账户一侧的状态，转账另一侧账户的对账状态不变。所有修改作为一次修改撤销。
+     */
+    async saveReconciliation(
+        account: string,
+        currency: string,
+        ticked: Transaction[],
+        unticked: Transaction[],
+        finish: boolean
+    ): Promise<void> {
+        const status: ClearedStatus = finish ? 'reconciled' : 'cleared';
+        const changes = [
+            ...ticked.filter(t => getPostingStatus(t, account, currency) !== status)
+                .map(t => setPostingStatus(t, account, currency, status)),
+            ...unticked.filter(t => getPostingStatus(t, account, currency))
+                .map(t => setPostingStatus(t, account, currency, undefined))
+        ];
+        if (changes.length > 0) {
+            await this.updateTransactions(changes);
+        }
+    }
+
+    // 拆分行的金额之和必须等于交易金额，转账必须有转入账户
+    private validateTransaction(transaction: Omit<Transaction, 'id'>): void {
+        const error = getTransferError(transaction)
+            ?? (transaction.splits ? getSplitError(transaction.amount, transaction.splits) : null);
+        if (error) {
+            throw new Error(error);
+        }
+    }
+
+    // 获取已加载交易中使用过的所有标签，用于自动补全
+    getTags(): string[] {
+        const tags = new Set<string>();
+        [...this.store.getLoaded(), ...this.inlineIndex.getLoaded()].forEach(t => t.tags.forEach(tag => tags.add(tag)));
+        return Array.from(tags).sort();
+    }
+
+    // 商户目录中的商户和已加载交易中使用过的收款方，用于自动补全
+    getPayees(): string[] {
+        const payees = new Set(this.merchants.getMerchants().map(m => m.name));
+        [...this.store.getLoaded(), ...this.inlineIndex.getLoaded()].forEach(t => {
+            if (t.payee) {
+                payees.add(t.payee);
+            }
+        });
+        return Array.from(payees).sort();
+    }
+
+    // 描述或收款方在商户目录中对应的商户名称
+    findPayee(text: string): string | undefined {
+        return this.merchants.findMerchant(text)?.name;
+    }
+
+    // 获取所有分类列表，补上缺少的上级分类，下级紧跟在上级之后
     getCategories(): string[] {
-        // 从交易记录中获取所有使用过的分类
+        // 从已加载的交易记录中获取所有使用过的分类
         const categories = new Set<string>();
-        this.transactions.forEach(t => categories.add(t.category));
+        [...this.store.getLoaded(), ...this.inlineIndex.getLoaded()].forEach(t => getCategories(t).forEach(c => categories.add(c)));
         // 添加默认分类
         this.settings.defaultCategories.forEach(c => categories.add(c));
-        return Array.from(categories).sort();
+        return buildCategoryTree(Array.from(categories));
     }
 } 
\ No newline at end of file
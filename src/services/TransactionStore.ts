@@ -0,0 +1,27 @@
+import { Transaction } from '../types/Transaction';
+
+export type TransactionStorage = 'ledger' | 'notes';
+
+/**
+ * 交易数据的存储后端。
+ * TransactionService 负责查询、事件和校验，具体的读写由后端实现。
+ */
+export interface TransactionStore {
+    initialize(): Promise<void>;
+    // 存在交易数据的所有年份（升序）
+    getYears(): number[];
+    // 加载与日期范围相交的交易，未指定边界时视为不限
+    loadRange(startDate?: Date, endDate?: Date): Promise<Transaction[]>;
+    // 已加载到内存的交易
+    getLoaded(): Transaction[];
+    add(transaction: Transaction): Promise<void>;
+    // 批量添加，用于导入和迁移
+    addAll(transactions: Transaction[]): Promise<void>;
+    // existing 为修改前的交易，用于定位原有记录（例如日期跨年）
+    update(existing: Transaction, transaction: Transaction): Promise<void>;
+    delete(transaction: Transaction): Promise<void>;
+    // 保存该交易的文件路径，交易中的链接相对该文件解析
+    getFilePath(transaction: Transaction): string;
+    // 文件属于该后端时重新解析；owned 表示归属，changed 表示内容是否变化
+    refreshPath(path: string): Promise<{ owned: boolean; changed: boolean }>;
+}
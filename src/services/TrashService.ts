@@ -0,0 +1,139 @@
+import { App, TFile } from 'obsidian';
+import { subDays } from 'date-fns';
+import { FinanceSettings } from '../settings';
+import { TrashItem } from '../types/TrashItem';
+import { EventBus, EVENT_TYPES } from './EventBus';
+import { appendBlock, formatBlock, getFieldMap } from './LedgerGrammar';
+import { LEDGER_KINDS, LedgerKind } from './LedgerMigrations';
+import { getLedgerSchema, getSchemaBlocks, parseRecord, removeRecord } from './LedgerSchemas';
+import { withCurrentFormat } from './MigrationService';
+import { WriteQueue } from './WriteQueue';
+
+export const TRASH_FILE_NAME = 'trash.finance.md';
+
+/**
+ * 回收站：删除的交易、预算和定期交易以原有的区块格式写入 `<financeFilePath>/trash.finance.md`，
+ * 附带 `Deleted At` 字段，超过保留天数后清除。
+ */
+export class TrashService {
+    private app: App;
+    private settings: FinanceSettings;
+    private writes: WriteQueue;
+    private eventBus: EventBus;
+
+    constructor(app: App, settings: FinanceSettings) {
+        this.app = app;
+        this.settings = settings;
+        this.eventBus = EventBus.getInstance();
+        this.writes = new WriteQueue(app, async () => this.eventBus.emit(EVENT_TYPES.TRASH_CHANGED));
+    }
+
+    async initialize(): Promise<void> {
+        try {
+            await this.purgeExpired();
+        } catch (error) {
+            console.error('Failed to purge trash:', error);
+        }
+    }
+
+    // 回收站文件被外部修改时通知视图刷新，返回是否为回收站文件
+    handleFileChange(path: string): boolean {
+        if (path !== this.getFilePath()) {
+            return false;
+        }
+        this.eventBus.emit(EVENT_TYPES.TRASH_CHANGED);
+        return true;
+    }
+
+    getFilePath(): string {
+        return `${this.settings.financeFilePath}/${TRASH_FILE_NAME}`;
+    }
+
+    private getFile(): TFile | null {
+        const file = this.app.vault.getAbstractFileByPath(this.getFilePath());
+        return file instanceof TFile ? file : null;
+    }
+
+    private async getOrCreateFile(): Promise<TFile> {
+        const file = this.getFile();
+        if (file) {
+            return file;
+        }
+        try {
+            await this.app.vault.createFolder(this.settings.financeFilePath);
+        } catch (error) {
+            // 目录可能已存在，忽略错误
+        }
+        return await this.app.vault.create(this.getFilePath(), withCurrentFormat('# Trash\n\n'));
+    }
+
+    // 保留天数为 0 时不保留删除的记录
+    async add<T extends { id: string }>(kind: LedgerKind, records: T[]): Promise<void> {
+        if (this.settings.trashRetentionDays <= 0 || records.length === 0) {
+            return;
+        }
+        const schema = getLedgerSchema(kind);
+        const deletedAt = new Date().toISOString();
+        const file = await this.getOrCreateFile();
+        await this.writes.enqueue(file, content => records.reduce((current, record) => {
+            // 行内交易的来源位置不写入回收站，恢复时写入账本
+            const { source, ...stored } = record as T & { source?: unknown };
+            return appendBlock(current, formatBlock(schema.title, record.id, [
+                ...schema.toFields(stored as T),
+                ['Deleted At', deletedAt]
+            ]));
+        }, content));
+    }
+
+    async remove(kind: LedgerKind, ids: string[]): Promise<void> {
+        const file = this.getFile();
+        if (!file || ids.length === 0) {
+            return;
+        }
+        const schema = getLedgerSchema(kind);
+        await this.writes.enqueue(file, content =>
+            ids.reduce((current, id) => removeRecord(current, schema, id), content)
+        );
+    }
+
+    // 经写入队列改写回收站文件，用于校验后的修复等直接改写文件的操作
+    async modifyFile(file: TFile, mutate: (content: string) => string): Promise<void> {
+        await this.writes.enqueue(file, mutate);
+    }
+
+    // 按删除时间倒序返回回收站中的记录
+    async getItems(): Promise<TrashItem[]> {
+        const file = this.getFile();
+        if (!file) {
+            return [];
+        }
+        const content = await this.app.vault.read(file);
+        const items: TrashItem[] = [];
+        for (const kind of LEDGER_KINDS) {
+            const schema = getLedgerSchema(kind);
+            for (const block of getSchemaBlocks(content, schema)) {
+                const record = parseRecord(block, schema, this.settings);
+                const deletedAt = new Date(getFieldMap(block).get('Deleted At') ?? '');
+                if (record && !isNaN(deletedAt.getTime())) {
+                    items.push({ kind, record, deletedAt } as TrashItem);
+                }
+            }
+        }
+        return items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+    }
+
+    async purgeExpired(): Promise<void> {
+        const cutoff = subDays(new Date(), Math.max(this.settings.trashRetentionDays, 0));
+        const expired = (await this.getItems()).filter(item => item.deletedAt < cutoff);
+        for (const kind of LEDGER_KINDS) {
+            await this.remove(kind, expired.filter(item => item.kind === kind).map(item => item.record.id));
+        }
+    }
+
+    async empty(): Promise<void> {
+        const items = await this.getItems();
+        for (const kind of LEDGER_KINDS) {
+            await this.remove(kind, items.filter(item => item.kind === kind).map(item => item.record.id));
+        }
+    }
+}
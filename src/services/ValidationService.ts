@@ -0,0 +1,398 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { isValid, parse } from 'date-fns';
+import { FinanceSettings } from '../settings';
+import { LedgerDiagnostic } from '../types/LedgerDiagnostic';
+import { LedgerBlock, LedgerBlockField, formatField, getFieldMap, parseField } from './LedgerGrammar';
+import { CURRENT_FORMAT_VERSION, LEDGER_KINDS } from './LedgerMigrations';
+import {
+    ACCOUNT_SCHEMA,
+    BALANCE_SNAPSHOT_SCHEMA,
+    DATE_FIELDS,
+    LEDGER_SCHEMAS,
+    LedgerSchema,
+    MERCHANT_SCHEMA,
+    formatLedgerDate,
+    getLedgerSchema,
+    getSchemaBlocks
+} from './LedgerSchemas';
+import { MigrationService, getFormatVersion } from './MigrationService';
+import { TRASH_FILE_NAME, TrashService } from './TrashService';
+import { HISTORY_FILE_NAME } from './ChangeLogService';
+import { MERCHANTS_FILE_NAME, MerchantService } from './MerchantService';
+import { ACCOUNTS_FILE_NAME, AccountService } from './AccountService';
+import { TransactionService } from './TransactionService';
+import { BudgetService } from './BudgetService';
+import { RecurringTransactionService } from './RecurringTransactionService';
+import { findInvalidNoteProperty, readTransactionFrontmatter } from './NoteTransactionStore';
+import { formatMoney, getPrecision, parseMoney } from '../utils/money';
+import { SPLIT_FIELD_PATTERN, getSplitError, parseSplit } from '../utils/splits';
+import { PATTERN_FIELD_PATTERN, compilePattern } from '../utils/merchants';
+import { TransactionSplit } from '../types/Transaction';
+import * as crypto from 'crypto';
+
+const AMOUNT_FIELDS = ['Amount', 'Fee', 'To Amount', 'Opening Balance', 'Balance'];
+
+const STALE_MESSAGE = 'File changed since validation, please run it again';
+
+// 修复前确认字段行和标题行仍是校验时的内容
+function assertField(lines: string[], field: LedgerBlockField): void {
+    const current = parseField((lines[field.line] ?? '').replace(/\r$/, ''));
+    if (!current || current.key !== field.key || current.value !== field.value) {
+        throw new Error(STALE_MESSAGE);
+    }
+}
+
+function assertHeading(lines: string[], block: LedgerBlock): void {
+    if ((lines[block.start] ?? '').trimEnd() !== `## ${block.title} ${block.id}`) {
+        throw new Error(STALE_MESSAGE);
+    }
+}
+
+function setFieldValue(field: LedgerBlockField, value: string): LedgerDiagnostic['fix'] {
+    return {
+        label: `Change to ${value}`,
+        apply: content => {
+            const lines = content.split('\n');
+            assertField(lines, field);
+            lines[field.line] = formatField(field.key, value);
+            return lines.join('\n');
+        }
+    };
+}
+
+/**
+ * 检查所有 `*.finance.md` 账本文件：缺失的必填字段、无法解析的金额和日期、
+ * 未配置的货币、非法的取值以及重复的 ID。可以安全修复的问题附带修复函数。
+ */
+export class ValidationService {
+    private app: App;
+    private settings: FinanceSettings;
+    private migrationService: MigrationService;
+    private transactionService: TransactionService;
+    private budgetService: BudgetService;
+    private recurringTransactionService: RecurringTransactionService;
+    private accountService: AccountService;
+    private merchantService: MerchantService;
+    private trash: TrashService;
+
+    constructor(
+        app: App,
+        settings: FinanceSettings,
+        transactionService: TransactionService,
+        budgetService: BudgetService,
+        recurringTransactionService: RecurringTransactionService,
+        accountService: AccountService,
+        merchantService: MerchantService,
+        trash: TrashService
+    ) {
+        this.app = app;
+        this.settings = settings;
+        this.migrationService = new MigrationService(app, settings);
+        this.transactionService = transactionService;
+        this.budgetService = budgetService;
+        this.recurringTransactionService = recurringTransactionService;
+        this.accountService = accountService;
+        this.merchantService = merchantService;
+        this.trash = trash;
+    }
+
+    async validateAll(): Promise<LedgerDiagnostic[]> {
+        const files = this.app.vault.getFiles()
+            .filter(file => file.name.endsWith('.finance.md'))
+            .sort((a, b) => a.path.localeCompare(b.path));
+        const diagnostics: LedgerDiagnostic[] = [];
+        // 同类账本中已出现的 ID，跨文件检查重复
+        const seenIds: Map<string, { path: string; line: number }> = new Map();
+
+        for (const file of files) {
+            try {
+                const content = await this.app.vault.cachedRead(file);
+                diagnostics.push(...this.validateFile(file, content, seenIds));
+            } catch (error) {
+                console.error(`Failed to validate ${file.path}:`, error);
+            }
+        }
+        if (!this.transactionService.usesLedgerFiles()) {
+            diagnostics.push(...await this.validateTransactionNotes());
+        }
+        return diagnostics;
+    }
+
+    // 笔记存储下逐篇检查 `<transactionNotesPath>/<year>/` 中的交易笔记，无效的笔记不会被加载
+    private async validateTransactionNotes(): Promise<LedgerDiagnostic[]> {
+        const prefix = `${normalizePath(this.settings.transactionNotesPath)}/`;
+        const files = this.app.vault.getMarkdownFiles()
+            .filter(file => file.path.startsWith(prefix) && /^\d{4}\/[^/]+\.md$/.test(file.path.slice(prefix.length)))
+            .sort((a, b) => a.path.localeCompare(b.path));
+        const diagnostics: LedgerDiagnostic[] = [];
+        for (const file of files) {
+            try {
+                const frontmatter = readTransactionFrontmatter(await this.app.vault.cachedRead(file));
+                const property = frontmatter && findInvalidNoteProperty(frontmatter, this.settings);
+                if (property) {
+                    diagnostics.push({
+                        path: file.path,
+                        line: 0,
+                        severity: 'error',
+                        message: `Missing or invalid ${property} property, the transaction is left out until it is fixed`
+                    });
+                }
+            } catch (error) {
+                console.error(`Failed to validate ${file.path}:`, error);
+            }
+        }
+        return diagnostics;
+    }
+
+    async applyFix(diagnostic: LedgerDiagnostic): Promise<void> {
+        const file = this.app.vault.getAbstractFileByPath(diagnostic.path);
+        if (!(file instanceof TFile)) {
+            throw new Error('File not found');
+        }
+        if (!diagnostic.fix) {
+            throw new Error('No fix available');
+        }
+        await this.modifyFile(file, diagnostic.fix.apply);
+    }
+
+    // 经所属服务的写入队列改写文件，与排队中的修改串行执行，写入后由该服务重新加载
+    private async modifyFile(file: TFile, mutate: (content: string) => string): Promise<void> {
+        if (file.name === TRASH_FILE_NAME) {
+            return this.trash.modifyFile(file, mutate);
+        }
+        if (file.name === MERCHANTS_FILE_NAME) {
+            return this.merchantService.modifyFile(file, mutate);
+        }
+        if (file.name === ACCOUNTS_FILE_NAME) {
+            return this.accountService.modifyFile(file, mutate);
+        }
+        switch (this.migrationService.getKind(file.name)) {
+            case 'transactions':
+                if (this.transactionService.usesLedgerFiles()) {
+                    return this.transactionService.modifyLedgerFile(file, mutate);
+                }
+                break;
+            case 'budgets':
+                return this.budgetService.modifyLedgerFile(file, mutate);
+            case 'recurring-transactions':
+                return this.recurringTransactionService.modifyLedgerFile(file, mutate);
+        }
+        // 不由任何服务加载的文件（如笔记存储下的交易账本）
+        await this.app.vault.process(file, mutate);
+    }
+
+    private validateFile(
+        file: TFile,
+        content: string,
+        seenIds: Map<string, { path: string; line: number }>
+    ): LedgerDiagnostic[] {
+        if (file.name === HISTORY_FILE_NAME) {
+            // 修改记录只追加，不包含账本记录
+            return [];
+        }
+        if (file.name === TRASH_FILE_NAME) {
+            // 回收站中混合了各类记录，且允许与账本中的 ID 重复
+            return LEDGER_KINDS.flatMap(kind => getSchemaBlocks(content, getLedgerSchema(kind))
+                .flatMap(block => this.validateBlock(file.path, block, getLedgerSchema(kind))));
+        }
+        if (file.name === MERCHANTS_FILE_NAME) {
+            // 商户目录只有一个文件，不按年份存放
+            return getSchemaBlocks(content, MERCHANT_SCHEMA)
+                .flatMap(block => this.validateBlock(file.path, block, MERCHANT_SCHEMA));
+        }
+        if (file.name === ACCOUNTS_FILE_NAME) {
+            // 账户文件中同时保存账户和余额记录
+            const schemas: LedgerSchema<{ id: string }>[] = [ACCOUNT_SCHEMA, BALANCE_SNAPSHOT_SCHEMA];
+            return schemas.flatMap(schema => getSchemaBlocks(content, schema)
+                .flatMap(block => this.validateBlock(file.path, block, schema)));
+        }
+        const kind = this.migrationService.getKind(file.name);
+        if (!kind) {
+            return [{
+                path: file.path,
+                line: 0,
+                severity: 'warning',
+                message: `Unrecognized ledger file name, expected one of ${Object.keys(LEDGER_SCHEMAS).map(k => `${k}.finance.md`).join(', ')}`
+            }];
+        }
+
+        const diagnostics: LedgerDiagnostic[] = [];
+        const version = getFormatVersion(content);
+        if (version > CURRENT_FORMAT_VERSION) {
+            // 新版本插件写入的文件，字段含义可能不同，不再逐条检查
+            return [{
+                path: file.path,
+                line: 0,
+                severity: 'warning',
+                message: `File uses format ${version}, newer than supported ${CURRENT_FORMAT_VERSION}`
+            }];
+        }
+
+        const schema = getLedgerSchema(kind);
+        for (const block of getSchemaBlocks(content, schema)) {
+            diagnostics.push(...this.validateBlock(file.path, block, schema));
+
+            const id = getFieldMap(block).get('ID') || block.id;
+            const key = `${kind}:${id}`;
+            const first = seenIds.get(key);
+            if (first) {
+                diagnostics.push({
+                    path: file.path,
+                    line: block.start,
+                    severity: 'error',
+                    message: `Duplicate ID ${id}, first used in ${first.path}:${first.line + 1}`,
+                    fix: { label: 'Assign new ID', apply: c => this.reassignId(c, block) }
+                });
+            } else {
+                seenIds.set(key, { path: file.path, line: block.start });
+            }
+        }
+        return diagnostics;
+    }
+
+    private validateBlock(path: string, block: LedgerBlock, schema: LedgerSchema<{ id: string }>): LedgerDiagnostic[] {
+        const diagnostics: LedgerDiagnostic[] = [];
+        const fields = getFieldMap(block);
+        const report = (line: number, severity: LedgerDiagnostic['severity'], message: string, fix?: LedgerDiagnostic['fix']) => {
+            diagnostics.push({ path, line, severity, message, fix });
+        };
+
+        for (const key of schema.required) {
+            if (fields.get(key)) {
+                continue;
+            }
+            if (key === 'ID' && !fields.has('ID')) {
+                // 旧文件只在标题中记录 ID，补上字段即可
+                const last = block.fields[block.fields.length - 1];
+                report(block.start, 'warning', 'Missing ID field, the heading ID is used', last && {
+                    label: 'Add ID field',
+                    apply: content => {
+                        const lines = content.split('\n');
+                        assertField(lines, last);
+                        lines.splice(last.line + 1, 0, formatField('ID', block.id));
+                        return lines.join('\n');
+                    }
+                });
+            } else {
+                report(block.start, 'error', `Missing ${key}`);
+            }
+        }
+
+        const idField = block.fields.find(f => f.key === 'ID');
+        if (idField?.value && idField.value !== block.id) {
+            report(block.start, 'warning', `Heading ID ${block.id} differs from ID field ${idField.value}`, {
+                label: 'Use ID field in heading',
+                apply: content => {
+                    const lines = content.split('\n');
+                    assertHeading(lines, block);
+                    lines[block.start] = `## ${block.title} ${idField.value}`;
+                    return lines.join('\n');
+                }
+            });
+        }
+
+        const currency = fields.get('Currency') || this.settings.defaultCurrency;
+        for (const currencyField of block.fields.filter(f => (f.key === 'Currency' || f.key === 'To Currency') && f.value)) {
+            if (this.settings.currencies.includes(currencyField.value)) {
+                continue;
+            }
+            const upper = currencyField.value.toUpperCase();
+            report(currencyField.line, 'warning', `Unknown currency ${currencyField.value}`,
+                this.settings.currencies.includes(upper) ? setFieldValue(currencyField, upper) : undefined);
+        }
+
+        // 转入金额使用转入货币，其余金额使用记录的货币
+        for (const amountField of block.fields.filter(f => AMOUNT_FIELDS.includes(f.key) && f.value)) {
+            const fieldCurrency = amountField.key === 'To Amount' ? fields.get('To Currency') || currency : currency;
+            const amount = parseMoney(amountField.value, fieldCurrency);
+            if (!amount) {
+                report(amountField.line, 'error', `${amountField.key} ${amountField.value} is not a number`);
+            } else if ((amountField.value.split('.')[1] ?? '').replace(/0+$/, '').length > getPrecision(fieldCurrency)) {
+                report(amountField.line, 'warning', `${amountField.key} ${amountField.value} has more decimals than ${fieldCurrency} allows`,
+                    setFieldValue(amountField, formatMoney(amount)));
+            }
+        }
+
+        if (fields.get('Type') === 'transfer' && !fields.get('To Account')) {
+            report(block.start, 'error', 'Transfer is missing To Account');
+        }
+
+        // 拆分行的格式为 "<金额> <分类>"，金额之和必须等于交易金额
+        const splitFields = block.fields.filter(f => SPLIT_FIELD_PATTERN.test(f.key));
+        const splits = splitFields.map(field => {
+            const split = parseSplit(field.value, currency);
+            if (!split) {
+                report(field.line, 'error', `${field.key} must be an amount followed by a category`);
+            }
+            return split;
+        });
+        const total = parseMoney(fields.get('Amount') ?? '', currency);
+        if (total && splits.length > 0 && splits.every(split => split !== null)) {
+            const error = getSplitError(total, splits as TransactionSplit[]);
+            if (error) {
+                report(splitFields[0].line, 'error', error);
+            }
+        }
+
+        for (const field of block.fields.filter(f => PATTERN_FIELD_PATTERN.test(f.key) && !compilePattern(f.value))) {
+            report(field.line, 'error', `${field.key} ${field.value} is not a valid regular expression`);
+        }
+
+        for (const field of block.fields.filter(f => DATE_FIELDS.includes(f.key) && f.value)) {
+            if (isValid(parse(field.value, 'yyyy-MM-dd', new Date()))) {
+                continue;
+            }
+            const date = new Date(field.value);
+            if (isNaN(date.getTime())) {
+                report(field.line, 'error', `${field.key} ${field.value} is not a valid date`);
+            } else {
+                report(field.line, 'warning', `${field.key} ${field.value} is not in yyyy-MM-dd format`,
+                    setFieldValue(field, formatLedgerDate(date)));
+            }
+        }
+
+        const allowedValues = schema.allowedValues ?? {};
+        for (const field of block.fields.filter(f => allowedValues[f.key] && f.value)) {
+            const allowed = allowedValues[field.key];
+            if (allowed.includes(field.value)) {
+                continue;
+            }
+            const lower = field.value.toLowerCase();
+            report(field.line, 'error', `${field.key} must be one of ${allowed.join(', ')}`,
+                allowed.includes(lower) ? setFieldValue(field, lower) : undefined);
+        }
+
+        // 同名字段只有第一个生效
+        const seenKeys = new Set<string>();
+        for (const field of block.fields) {
+            if (seenKeys.has(field.key)) {
+                report(field.line, 'warning', `Duplicate ${field.key} field is ignored`, {
+                    label: 'Remove field',
+                    apply: content => {
+                        const lines = content.split('\n');
+                        assertField(lines, field);
+                        lines.splice(field.line, 1);
+                        return lines.join('\n');
+                    }
+                });
+            }
+            seenKeys.add(field.key);
+        }
+
+        return diagnostics;
+    }
+
+    // 为重复的记录生成新 ID，同时改写标题和 ID 字段
+    private reassignId(content: string, block: LedgerBlock): string {
+        const id = crypto.randomUUID();
+        const lines = content.split('\n');
+        assertHeading(lines, block);
+        lines[block.start] = `## ${block.title} ${id}`;
+        const idField = block.fields.find(f => f.key === 'ID');
+        if (idField) {
+            assertField(lines, idField);
+            lines[idField.line] = formatField('ID', id);
+        }
+        return lines.join('\n');
+    }
+}
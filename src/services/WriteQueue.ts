@@ -0,0 +1,81 @@
+import { App, TFile } from 'obsidian';
+
+interface PendingMutation {
+    mutate: (content: string) => string;
+    resolve: () => void;
+    reject: (error: unknown) => void;
+}
+
+/**
+ * 按文件串行化的写入队列。
+ * 同一文件的修改依次执行，排队中的修改合并为一次读写，写入后只调用一次 afterWrite，
+ * 避免并发的 读取 → 修改 → 写入 互相覆盖。
+ */
+export class WriteQueue {
+    private app: App;
+    private afterWrite: (file: TFile) => Promise<void>;
+    // 文件路径 -> 尚未开始执行的一批修改
+    private pending: Map<string, PendingMutation[]> = new Map();
+    // 文件路径 -> 最后一批修改，新的批次排在它之后
+    private tails: Map<string, Promise<void>> = new Map();
+
+    constructor(app: App, afterWrite: (file: TFile) => Promise<void>) {
+        this.app = app;
+        this.afterWrite = afterWrite;
+    }
+
+    // 修改写入并回调完成后 resolve；mutate 抛出的错误只影响它自己
+    enqueue(file: TFile, mutate: (content: string) => string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const mutation = { mutate, resolve, reject };
+            const batch = this.pending.get(file.path);
+            if (batch) {
+                batch.push(mutation);
+                return;
+            }
+
+            const mutations = [mutation];
+            this.pending.set(file.path, mutations);
+            const previous = this.tails.get(file.path) ?? Promise.resolve();
+            const tail = previous.then(() => this.flush(file, mutations));
+            this.tails.set(file.path, tail);
+            tail.then(() => {
+                if (this.tails.get(file.path) === tail) {
+                    this.tails.delete(file.path);
+                }
+            });
+        });
+    }
+
+    private async flush(file: TFile, mutations: PendingMutation[]): Promise<void> {
+        // 开始执行后，新的修改进入下一批
+        if (this.pending.get(file.path) === mutations) {
+            this.pending.delete(file.path);
+        }
+
+        const failures: Map<PendingMutation, unknown> = new Map();
+        try {
+            await this.app.vault.process(file, content => mutations.reduce((current, mutation) => {
+                try {
+                    return mutation.mutate(current);
+                } catch (error) {
+                    failures.set(mutation, error);
+                    return current;
+                }
+            }, content));
+            await this.afterWrite(file);
+        } catch (error) {
+            console.error(`Failed to write ${file.path}:`, error);
+            mutations.forEach(mutation => mutation.reject(error));
+            return;
+        }
+
+        mutations.forEach(mutation => {
+            if (failures.has(mutation)) {
+                mutation.reject(failures.get(mutation));
+            } else {
+                mutation.resolve();
+            }
+        });
+    }
+}
@@ -1,5 +1,7 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 import FinancePlugin from './main';
+import { TransactionStorage } from './services/TransactionStore';
+import { TransactionRule } from './types/TransactionRule';
 
 export interface FinanceSettings {
     defaultCurrency: string;
@@ -9,6 +11,13 @@ export interface FinanceSettings {
     financeFilePath: string;
     budgetFilePath: string;
     recurringTransactionsFilePath: string;
+    transactionStorage: TransactionStorage;
+    transactionNotesPath: string;
+    inlineTransactions: boolean;
+    // 删除的记录在回收站中保留的天数，0 表示不保留
+    trashRetentionDays: number;
+    // 自动分类规则，按顺序应用
+    rules: TransactionRule[];
 }
 
 export const DEFAULT_SETTINGS: FinanceSettings = {
@@ -18,7 +27,12 @@ export const DEFAULT_SETTINGS: FinanceSettings = {
     defaultCategories: ['餐饮', '交通', '购物', '娱乐', '住房', '医疗', '教育', '其他'],
     financeFilePath: 'Finance',
     budgetFilePath: 'Finance/Budgets',
-    recurringTransactionsFilePath: 'Finance/RecurringTransactions'
+    recurringTransactionsFilePath: 'Finance/RecurringTransactions',
+    transactionStorage: 'ledger',
+    transactionNotesPath: 'Finance/Transactions',
+    inlineTransactions: true,
+    trashRetentionDays: 30,
+    rules: []
 };
 
 export class FinanceSettingTab extends PluginSettingTab {
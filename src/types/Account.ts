@@ -0,0 +1,29 @@
+import { Money } from './Money';
+
+export type AccountKind = 'asset' | 'liability' | 'income' | 'expense';
+
+export const ACCOUNT_KINDS: AccountKind[] = ['asset', 'liability', 'income', 'expense'];
+
+// 账户目录中的一项；交易的 Account 字段按名称引用
+export interface Account {
+    id: string;
+    name: string;
+    kind: AccountKind;
+    currency: string;
+    // 开户日期当天开始时的余额，货币与账户相同；开户日期之前的交易不计入余额
+    openingBalance: Money;
+    openingDate?: Date;
+    // 归档的账户不再出现在选择列表中，余额和历史交易仍然保留
+    archived: boolean;
+    description?: string;
+}
+
+// 手工记录的账户余额，例如房产估值、养老金账户的对账单余额；
+// 当天结束时账户余额以此为准，之后的交易在此基础上累加
+export interface BalanceSnapshot {
+    id: string;
+    account: string;
+    date: Date;
+    balance: Money;
+    note?: string;
+}
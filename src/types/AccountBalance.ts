@@ -0,0 +1,20 @@
+import { Money } from './Money';
+
+// 账户在某一货币下的余额，同一账户有多种货币时各占一条
+export interface AccountBalance {
+    account: string;
+    balance: Money;
+}
+
+// 某一日期结束时某一货币下的净资产；负债为欠款金额，以正数表示
+export interface NetWorth {
+    currency: string;
+    assets: Money;
+    liabilities: Money;
+    netWorth: Money;
+}
+
+// 期末的净资产及其与期初相比的变化
+export interface NetWorthChange extends NetWorth {
+    change: Money;
+}
@@ -1,9 +1,10 @@
+import { Money } from './Money';
+
 export interface Budget {
     id: string;
-    amount: number;
+    amount: Money;
     category: string;
     period: 'monthly' | 'yearly';
     description?: string;
     status?: 'active' | 'completed' | 'cancelled';
-    currency: string;
 } 
\ No newline at end of file
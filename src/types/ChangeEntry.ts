@@ -0,0 +1,15 @@
+export interface FieldChange {
+    field: string;
+    // undefined 表示修改前或修改后没有该字段
+    before?: string;
+    after?: string;
+}
+
+export interface ChangeEntry {
+    id: string;
+    kind: 'transactions' | 'budgets' | 'recurring-transactions';
+    recordId: string;
+    action: 'add' | 'update' | 'delete';
+    at: Date;
+    changes: FieldChange[];
+}
@@ -0,0 +1,12 @@
+export interface LedgerDiagnostic {
+    path: string;
+    // 行号从 0 开始
+    line: number;
+    severity: 'error' | 'warning';
+    message: string;
+    // 可以安全自动修复时提供，返回修复后的文件内容
+    fix?: {
+        label: string;
+        apply: (content: string) => string;
+    };
+}
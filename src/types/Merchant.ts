@@ -0,0 +1,9 @@
+// 商户目录中的一项：银行流水中的各种写法通过别名和正则表达式归一为同一个收款方
+export interface Merchant {
+    id: string;
+    name: string;
+    // 与描述完全相同（忽略大小写）即匹配，例如 星巴克
+    aliases: string[];
+    // 正则表达式（忽略大小写），例如 ^STARBUCKS\b
+    patterns: string[];
+}
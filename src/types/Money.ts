@@ -0,0 +1,5 @@
+// 精确金额：以最小货币单位（如分）的整数存储，精度由货币决定
+export interface Money {
+    minor: number;
+    currency: string;
+}
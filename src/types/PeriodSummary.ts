@@ -1,14 +1,19 @@
+import { Money } from './Money';
 import { Transaction } from './Transaction';
 
 export interface CurrencySummary {
     currency: string;
-    totalIncome: number;
-    totalExpense: number;
-    netAmount: number;
+    totalIncome: Money;
+    totalExpense: Money;
+    netAmount: Money;
     transactions: Transaction[];
+    // 拆分交易展开为每个拆分行一条，按分类统计时使用
+    lines: Transaction[];
 }
 
 export interface PeriodSummary {
     period: string;
+    start: Date;
+    end: Date;
     summaries: CurrencySummary[];
 } 
\ No newline at end of file
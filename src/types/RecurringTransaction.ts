@@ -1,6 +1,8 @@
+import { Money } from './Money';
+
 export interface RecurringTransaction {
     id: string;
-    amount: number;
+    amount: Money;
     type: 'income' | 'expense';
     category: string;
     account: string;
@@ -8,5 +10,4 @@ export interface RecurringTransaction {
     frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
     startDate: Date;
     endDate?: Date;
-    currency: string;
 } 
\ No newline at end of file
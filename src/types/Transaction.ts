@@ -1,10 +1,55 @@
+import { Money } from './Money';
+
+// 拆分交易中的一行，金额与交易使用同一货币
+export interface TransactionSplit {
+    category: string;
+    amount: Money;
+}
+
+// 转账在两个账户之间移动资金，不计入收入和支出
+export type TransactionType = 'income' | 'expense' | 'transfer';
+
+export const TRANSACTION_TYPES: TransactionType[] = ['income', 'expense', 'transfer'];
+
+// 对账状态：cleared 已与对账单核对，reconciled 已在对账中确认，编辑前需要解锁；缺省为未核对
+export type ClearedStatus = 'cleared' | 'reconciled';
+
+export const CLEARED_STATUSES: ClearedStatus[] = ['cleared', 'reconciled'];
+
 export interface Transaction {
     id: string;
     date: Date;
-    amount: number;
-    type: 'income' | 'expense';
+    amount: Money;
+    type: TransactionType;
     category: string;
+    // 转账时为转出账户
     account: string;
+    // 转账的转入账户
+    toAccount?: string;
+    // 转入账户收到的金额，跨币种转账时与 amount 的货币不同；缺省时等于 amount
+    toAmount?: Money;
+    // 转账手续费，从转出账户扣除，货币与 amount 相同
+    fee?: Money;
     description?: string;
-    currency: string;
+    // 归一后的收款方（商户），例如 Starbucks；描述保留银行流水中的原文
+    payee?: string;
+    // 拆分到多个分类时的明细，金额之和等于 amount；此时 category 为第一行的分类
+    splits?: TransactionSplit[];
+    // 相关笔记（项目、人物、事件）的 wikilink 路径，例如 Trips/Japan 2024
+    links?: string[];
+    // 收据、发票等附件的 wikilink 路径，例如 Receipts/2024-03-20.jpg
+    attachments?: string[];
+    // 不带 # 的标签，例如 trip-japan、trip/japan
+    tags: string[];
+    // 对账状态按账户分别记录：status 为转出账户（非转账时为交易账户），toStatus 为转账的转入账户
+    status?: ClearedStatus;
+    toStatus?: ClearedStatus;
+    // 通过插件创建和最后修改的时间，旧记录可能没有
+    createdAt?: Date;
+    updatedAt?: Date;
+    // 来自笔记中的行内交易时，记录源文件和行号（从 0 开始）
+    source?: {
+        path: string;
+        line: number;
+    };
 } 
\ No newline at end of file
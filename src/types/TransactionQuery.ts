@@ -0,0 +1,36 @@
+import { Transaction, TransactionType } from './Transaction';
+
+// 排序字段，currency 按金额的货币排序
+export type TransactionSortField = keyof Transaction | 'currency';
+
+export interface TransactionSort {
+    field: TransactionSortField;
+    direction: 'asc' | 'desc';
+    // 数值小的先比较，相等时再比较下一个
+    priority: number;
+}
+
+// 图表和汇总代码块共用的筛选条件
+export interface TransactionFilters {
+    categories?: string[];
+    // 排除这些分类；拆分交易只在所有拆分行都被排除时才排除
+    excludeCategories?: string[];
+    accounts?: string[];
+    types?: TransactionType[];
+    // 包含任一标签即匹配，父标签同时匹配其子标签
+    tags?: string[];
+    // 在描述和收款方中搜索，不区分大小写，以空格分隔的每个词都要出现
+    search?: string;
+    // 金额范围（含两端），十进制字符串，按交易的货币解析
+    minAmount?: string;
+    maxAmount?: string;
+    currencies?: string[];
+}
+
+export interface TransactionQuery extends TransactionFilters {
+    startDate?: Date;
+    endDate?: Date;
+    sort?: TransactionSort[];
+    page?: number;
+    pageSize?: number;
+}
@@ -0,0 +1,27 @@
+// 规则的条件，未设置的条件不参与匹配；所有设置了的条件都满足时规则匹配
+export interface TransactionRuleConditions {
+    // 正则表达式（忽略大小写），普通文字即包含匹配
+    description?: string;
+    payee?: string;
+    // 金额范围（含边界），以十进制字符串保存，按交易的货币解析
+    minAmount?: string;
+    maxAmount?: string;
+    account?: string;
+    currency?: string;
+}
+
+// 规则匹配后设置的字段，未设置的字段保持不变；标签追加到已有标签
+export interface TransactionRuleActions {
+    category?: string;
+    tags?: string[];
+    account?: string;
+    type?: 'income' | 'expense';
+}
+
+export interface TransactionRule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    conditions: TransactionRuleConditions;
+    actions: TransactionRuleActions;
+}
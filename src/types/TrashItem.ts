@@ -0,0 +1,8 @@
+import { Transaction } from './Transaction';
+import { Budget } from './Budget';
+import { RecurringTransaction } from './RecurringTransaction';
+
+export type TrashItem =
+    | { kind: 'transactions'; record: Transaction; deletedAt: Date; }
+    | { kind: 'budgets'; record: Budget; deletedAt: Date; }
+    | { kind: 'recurring-transactions'; record: RecurringTransaction; deletedAt: Date; };
@@ -0,0 +1,60 @@
+// 分类以冒号分隔层级，例如 餐饮:午餐
+export const CATEGORY_SEPARATOR = ':';
+
+// 分类路径的各级名称，去掉多余的空格和空的层级
+export function getCategoryPath(category: string): string[] {
+    return category.split(CATEGORY_SEPARATOR).map(part => part.trim()).filter(part => part);
+}
+
+export function normalizeCategory(category: string): string {
+    return getCategoryPath(category).join(CATEGORY_SEPARATOR);
+}
+
+export function getCategoryDepth(category: string): number {
+    return getCategoryPath(category).length;
+}
+
+// 分类本身及其所有上级，从顶层开始：餐饮:午餐 → [餐饮, 餐饮:午餐]
+export function getCategoryAncestors(category: string): string[] {
+    const path = getCategoryPath(category);
+    return path.map((_, i) => path.slice(0, i + 1).join(CATEGORY_SEPARATOR));
+}
+
+// 截取到 depth 层，更深的分类归入其上级；depth 未指定时不截取
+export function truncateCategory(category: string, depth?: number): string {
+    return depth ? getCategoryPath(category).slice(0, depth).join(CATEGORY_SEPARATOR) : category;
+}
+
+// 与 parent 相同或是其下级（餐饮 包含 餐饮:午餐）
+export function isCategoryWithin(category: string, parent: string): boolean {
+    return category === parent || category.startsWith(`${parent}${CATEGORY_SEPARATOR}`);
+}
+
+export function matchesCategories(category: string, filter: string[]): boolean {
+    return filter.some(parent => isCategoryWithin(category, parent));
+}
+
+// 按层级逐级比较，下级紧跟在上级之后
+export function compareCategories(a: string, b: string): number {
+    const aPath = getCategoryPath(a);
+    const bPath = getCategoryPath(b);
+    for (let i = 0; i < Math.min(aPath.length, bPath.length); i++) {
+        const result = aPath[i].localeCompare(bPath[i]);
+        if (result !== 0) {
+            return result;
+        }
+    }
+    return aPath.length - bPath.length;
+}
+
+// 补上缺少的上级后按层级排序，保证每个分类都能在树中找到位置
+export function buildCategoryTree(categories: string[]): string[] {
+    const all = new Set(categories.filter(category => category).flatMap(getCategoryAncestors));
+    return Array.from(all).sort(compareCategories);
+}
+
+// 分类在选择列表中的显示文字：按层级缩进，只显示最后一级名称
+export function formatCategoryOption(category: string): string {
+    const path = getCategoryPath(category);
+    return '　'.repeat(Math.max(path.length - 1, 0)) + (path[path.length - 1] ?? category);
+}
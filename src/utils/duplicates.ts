@@ -0,0 +1,114 @@
+import { differenceInCalendarDays, format } from 'date-fns';
+import { Transaction } from '../types/Transaction';
+import { formatMoney } from './money';
+
+// 日期相差不超过这么多天才可能是重复，银行入账日期常与消费日期相差一两天
+export const DUPLICATE_WINDOW_DAYS = 3;
+
+// 描述的相似度达到此值即视为相似
+const SIMILARITY_THRESHOLD = 0.6;
+
+// 去掉大小写、数字和标点的差异，银行流水中的门店号、流水号不参与比较
+function normalizeText(value: string): string {
+    return value.toLowerCase().replace(/[\d\p{P}\p{S}\s]+/gu, ' ').trim();
+}
+
+function getBigrams(value: string): string[] {
+    const text = value.replace(/ /g, '');
+    if (text.length < 2) {
+        return text ? [text] : [];
+    }
+    return Array.from({ length: text.length - 1 }, (_, i) => text.slice(i, i + 2));
+}
+
+// 按字符二元组计算的 Dice 系数，0 到 1；中文没有空格分词，也能比较
+export function getTextSimilarity(a: string, b: string): number {
+    const aBigrams = getBigrams(normalizeText(a));
+    const bBigrams = getBigrams(normalizeText(b));
+    if (aBigrams.length === 0 && bBigrams.length === 0) {
+        return 1;
+    }
+    const counts = new Map<string, number>();
+    aBigrams.forEach(bigram => counts.set(bigram, (counts.get(bigram) ?? 0) + 1));
+    let common = 0;
+    for (const bigram of bBigrams) {
+        const count = counts.get(bigram) ?? 0;
+        if (count > 0) {
+            common++;
+            counts.set(bigram, count - 1);
+        }
+    }
+    return (2 * common) / (aBigrams.length + bBigrams.length);
+}
+
+/**
+ * 描述是否相似：收款方相同即相似；任一方没有描述时无法区分，也视为相似。
+ */
+function hasSimilarDescription(a: Omit<Transaction, 'id'>, b: Omit<Transaction, 'id'>): boolean {
+    if (a.payee && b.payee && a.payee === b.payee) {
+        return true;
+    }
+    if (!a.description || !b.description) {
+        return true;
+    }
+    return getTextSimilarity(a.description, b.description) >= SIMILARITY_THRESHOLD;
+}
+
+// 疑似重复：类型、金额、账户相同，日期相近，描述相似
+export function isDuplicate(a: Omit<Transaction, 'id'>, b: Omit<Transaction, 'id'>): boolean {
+    return a.type === b.type
+        && a.amount.minor === b.amount.minor
+        && a.amount.currency === b.amount.currency
+        && a.account === b.account
+        && Math.abs(differenceInCalendarDays(a.date, b.date)) <= DUPLICATE_WINDOW_DAYS
+        && hasSimilarDescription(a, b);
+}
+
+// 所有疑似重复的交易对，每对中日期较早的在前
+export function findDuplicatePairs(transactions: Transaction[]): [Transaction, Transaction][] {
+    const sorted = [...transactions].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const pairs: [Transaction, Transaction][] = [];
+    sorted.forEach((transaction, i) => {
+        // 按日期排序后只需向后比较窗口内的交易
+        for (let j = i + 1; j < sorted.length; j++) {
+            const other = sorted[j];
+            if (differenceInCalendarDays(other.date, transaction.date) > DUPLICATE_WINDOW_DAYS) {
+                break;
+            }
+            if (isDuplicate(transaction, other)) {
+                pairs.push([transaction, other]);
+            }
+        }
+    });
+    return pairs;
+}
+
+/**
+ * 合并重复的交易：以 keep 为准，补上它缺少的描述和收款方，
+ * 并合并两者的标签、相关笔记和附件。
+ */
+export function mergeDuplicate(keep: Transaction, duplicate: Transaction): Transaction {
+    const union = (a: string[] = [], b: string[] = []) => Array.from(new Set([...a, ...b]));
+    const links = union(keep.links, duplicate.links);
+    const attachments = union(keep.attachments, duplicate.attachments);
+    return {
+        ...keep,
+        description: keep.description || duplicate.description,
+        payee: keep.payee || duplicate.payee,
+        status: keep.status || duplicate.status,
+        toStatus: keep.toStatus || duplicate.toStatus,
+        tags: union(keep.tags, duplicate.tags),
+        links: links.length > 0 ? links : undefined,
+        attachments: attachments.length > 0 ? attachments : undefined
+    };
+}
+
+// 交易的一行摘要，在重复交易的列表中区分各条交易
+export function describeTransaction(transaction: Omit<Transaction, 'id'>): string {
+    return [
+        format(transaction.date, 'yyyy-MM-dd'),
+        `${formatMoney(transaction.amount)} ${transaction.amount.currency}`,
+        transaction.account,
+        transaction.payee || transaction.description
+    ].filter(Boolean).join(' · ');
+}
@@ -0,0 +1,19 @@
+// [[路径]]、[[路径|别名]] 或 [[路径#标题]]，只取路径部分
+const LINK_PATTERN = /\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|[^\]]*)?\]\]/g;
+
+// 提取文本中的 wikilink 路径，忽略重复的链接
+export function parseLinks(value: string): string[] {
+    const links: string[] = [];
+    for (const match of value.matchAll(LINK_PATTERN)) {
+        const link = match[1].trim();
+        if (link && !links.includes(link)) {
+            links.push(link);
+        }
+    }
+    return links;
+}
+
+// 以 wikilink 写入文件，Obsidian 会把它们计入反向链接并在重命名时更新
+export function formatLinks(links: string[]): string {
+    return links.map(link => `[[${link}]]`).join(' ');
+}
@@ -0,0 +1,39 @@
+import { Merchant } from '../types/Merchant';
+
+// 账本中的正则字段：Pattern 1、Pattern 2……
+export const PATTERN_FIELD_PATTERN = /^Pattern (\d+)$/;
+
+// 别名以分号分隔，别名中可以包含空格和逗号
+export function parseAliases(value: string): string[] {
+    return Array.from(new Set(value.split(';').map(alias => alias.trim()).filter(alias => alias)));
+}
+
+export function formatAliases(aliases: string[]): string {
+    return aliases.join('; ');
+}
+
+// 无法编译的正则返回 null
+export function compilePattern(pattern: string): RegExp | null {
+    try {
+        return new RegExp(pattern, 'i');
+    } catch (error) {
+        return null;
+    }
+}
+
+/**
+ * 在商户目录中查找文本对应的商户：名称或别名完全相同（忽略大小写和首尾空白）优先，
+ * 其次按目录顺序匹配第一个符合正则表达式的商户。
+ */
+export function findMerchant(merchants: Merchant[], text: string): Merchant | undefined {
+    const value = text.trim();
+    if (!value) {
+        return undefined;
+    }
+    const lower = value.toLowerCase();
+    return merchants.find(merchant =>
+        [merchant.name, ...merchant.aliases].some(name => name.toLowerCase() === lower)
+    ) ?? merchants.find(merchant =>
+        merchant.patterns.some(pattern => compilePattern(pattern)?.test(value))
+    );
+}
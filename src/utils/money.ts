@@ -0,0 +1,79 @@
+import { Money } from '../types/Money';
+
+const precisionCache: Map<string, number> = new Map();
+
+// 货币的小数位数，例如 CNY 为 2、JPY 为 0；无法识别的货币代码按 2 位处理
+export function getPrecision(currency: string): number {
+    let precision = precisionCache.get(currency);
+    if (precision === undefined) {
+        try {
+            precision = new Intl.NumberFormat('en', { style: 'currency', currency })
+                .resolvedOptions().maximumFractionDigits ?? 2;
+        } catch (error) {
+            precision = 2;
+        }
+        precisionCache.set(currency, precision);
+    }
+    return precision;
+}
+
+export function zeroMoney(currency: string): Money {
+    return { minor: 0, currency };
+}
+
+/**
+ * 按十进制字符串解析金额，不经过浮点数。
+ * 支持千分位逗号和正负号；超出货币精度的位数四舍五入；无法解析时返回 null。
+ */
+export function parseMoney(value: string, currency: string): Money | null {
+    const match = value.trim().replace(/,/g, '').match(/^([+-])?(\d*)(?:\.(\d*))?$/);
+    if (!match || (!match[2] && !match[3])) {
+        return null;
+    }
+    const [, sign, whole, fraction = ''] = match;
+    const precision = getPrecision(currency);
+    const digits = (whole || '0') + fraction.slice(0, precision).padEnd(precision, '0');
+    let minor = parseInt(digits, 10);
+    if (parseInt(fraction.charAt(precision) || '0', 10) >= 5) {
+        minor += 1;
+    }
+    return { minor: sign === '-' ? -minor : minor, currency };
+}
+
+// 按货币精度输出十进制字符串，例如 "35.00"、"1200"，用于写入文件
+export function formatMoney(money: Money): string {
+    const precision = getPrecision(money.currency);
+    const digits = Math.abs(money.minor).toString().padStart(precision + 1, '0');
+    const whole = digits.slice(0, digits.length - precision);
+    const fraction = digits.slice(digits.length - precision);
+    return `${money.minor < 0 ? '-' : ''}${whole}${precision > 0 ? '.' + fraction : ''}`;
+}
+
+// 转换为数字，只用于图表等展示场景
+export function moneyToNumber(money: Money): number {
+    return money.minor / Math.pow(10, getPrecision(money.currency));
+}
+
+export function addMoney(a: Money, b: Money): Money {
+    if (a.currency !== b.currency) {
+        throw new Error(`Currency mismatch: ${a.currency} and ${b.currency}`);
+    }
+    return { minor: a.minor + b.minor, currency: a.currency };
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+    return addMoney(a, { minor: -b.minor, currency: b.currency });
+}
+
+export function sumMoney(amounts: Money[], currency: string): Money {
+    return amounts.reduce(addMoney, zeroMoney(currency));
+}
+
+// 解析表单输入，无法解析时抛出错误
+export function requireMoney(value: string, currency: string): Money {
+    const money = parseMoney(value, currency);
+    if (!money) {
+        throw new Error(`Invalid amount: ${value}`);
+    }
+    return money;
+}
@@ -0,0 +1,155 @@
+import { Transaction } from '../types/Transaction';
+import { TransactionFilters, TransactionSort, TransactionSortField } from '../types/TransactionQuery';
+import { parseMoney } from './money';
+import { getCategories } from './splits';
+import { matchesCategories } from './categories';
+import { matchesTags, parseTags } from './tags';
+
+// 代码块中可以使用的排序字段
+const SORT_FIELDS: TransactionSortField[] = [
+    'date', 'amount', 'currency', 'type', 'category', 'account', 'payee', 'description', 'createdAt', 'updatedAt', 'id'
+];
+
+// 筛选条件在代码块中的写法，例如 search: coffee、excludeCategories: 房租
+const FILTER_KEYS = ['categories', 'excludeCategories', 'accounts', 'tags', 'search', 'minAmount', 'maxAmount', 'currencies'];
+
+function parseList(value: string): string[] {
+    return value.split(',').map(s => s.trim()).filter(s => s);
+}
+
+// 代码块中的一行 key: value，只按第一个冒号分开，值中可以包含冒号（如 餐饮:午餐）
+export function splitQueryLine(line: string): [string, string] {
+    const index = line.indexOf(':');
+    return index < 0 ? [line.trim(), ''] : [line.slice(0, index).trim(), line.slice(index + 1).trim()];
+}
+
+// 解析代码块中的一行筛选条件，不是筛选条件时返回 false
+export function parseFilter(filters: TransactionFilters, key: string, value: string): boolean {
+    const name = FILTER_KEYS.find(k => k.toLowerCase() === key.toLowerCase());
+    switch (name) {
+        case 'categories':
+        case 'excludeCategories':
+        case 'accounts':
+        case 'currencies':
+            filters[name] = parseList(value);
+            return true;
+        case 'tags':
+            filters.tags = parseTags(value);
+            return true;
+        case 'search':
+            filters.search = value;
+            return true;
+        case 'minAmount':
+        case 'maxAmount':
+            // 只检查格式，比较时按交易的货币解析
+            if (parseMoney(value, 'USD')) {
+                filters[name] = value;
+            }
+            return true;
+        default:
+            return false;
+    }
+}
+
+/**
+ * 解析排序，例如 "amount desc, date"；方向缺省为 asc，无法识别的字段被忽略。
+ * 按书写顺序依次比较。
+ */
+export function parseSort(value: string): TransactionSort[] {
+    const sort: TransactionSort[] = [];
+    for (const part of parseList(value)) {
+        const [field, direction = 'asc'] = part.split(/\s+/);
+        if (SORT_FIELDS.includes(field as TransactionSortField) && ['asc', 'desc'].includes(direction.toLowerCase())) {
+            sort.push({
+                field: field as TransactionSortField,
+                direction: direction.toLowerCase() as 'asc' | 'desc',
+                priority: sort.length
+            });
+        }
+    }
+    return sort;
+}
+
+function matchesSearch(transaction: Transaction, search: string): boolean {
+    const text = `${transaction.description ?? ''} ${transaction.payee ?? ''}`.toLowerCase();
+    return search.toLowerCase().split(/\s+/).filter(word => word).every(word => text.includes(word));
+}
+
+// 交易是否满足除日期以外的筛选条件
+export function matchesFilters(transaction: Transaction, filters: TransactionFilters): boolean {
+    const { amount } = transaction;
+    if (filters.categories && !getCategories(transaction).some(c => matchesCategories(c, filters.categories!))) {
+        // 拆分交易的任一拆分行属于这些分类或其下级即匹配
+        return false;
+    }
+    if (filters.excludeCategories && getCategories(transaction).every(c => matchesCategories(c, filters.excludeCategories!))) {
+        return false;
+    }
+    if (filters.accounts && !filters.accounts.includes(transaction.account)
+        && !(transaction.toAccount && filters.accounts.includes(transaction.toAccount))) {
+        // 转账的转出或转入账户匹配即可
+        return false;
+    }
+    if (filters.types && !filters.types.includes(transaction.type)) {
+        return false;
+    }
+    if (filters.tags && !matchesTags(transaction.tags, filters.tags)) {
+        return false;
+    }
+    if (filters.search && !matchesSearch(transaction, filters.search)) {
+        return false;
+    }
+    const min = filters.minAmount ? parseMoney(filters.minAmount, amount.currency) : null;
+    const max = filters.maxAmount ? parseMoney(filters.maxAmount, amount.currency) : null;
+    if ((min && amount.minor < min.minor) || (max && amount.minor > max.minor)) {
+        return false;
+    }
+    return !filters.currencies || filters.currencies.includes(amount.currency);
+}
+
+// 按拆分行筛选分类：拆分交易展开后，只保留属于 categories 且不在 excludeCategories 中的行，上级分类包含其下级
+export function matchesLineCategory(line: Transaction, filters: TransactionFilters): boolean {
+    return (!filters.categories || matchesCategories(line.category, filters.categories))
+        && !(filters.excludeCategories && matchesCategories(line.category, filters.excludeCategories));
+}
+
+function getSortValue(transaction: Transaction, field: TransactionSortField): string | number | undefined {
+    if (field === 'currency') {
+        return transaction.amount.currency;
+    }
+    const value = transaction[field];
+    if (value instanceof Date) {
+        return value.getTime();
+    }
+    if (field === 'amount') {
+        return transaction.amount.minor;
+    }
+    if (Array.isArray(value)) {
+        return value.length > 0 ? value.join(', ') : undefined;
+    }
+    return typeof value === 'number' || typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * 按类型比较：日期按时间、金额按最小单位、文本按本地化顺序（数字按数值）。
+ * 缺少值的交易无论升降序都排在最后。
+ */
+export function compareTransactions(a: Transaction, b: Transaction, sort: TransactionSort[]): number {
+    for (const { field, direction } of [...sort].sort((x, y) => x.priority - y.priority)) {
+        const aValue = getSortValue(a, field);
+        const bValue = getSortValue(b, field);
+        if (aValue === bValue) {
+            continue;
+        }
+        if (aValue === undefined || bValue === undefined) {
+            return aValue === undefined ? 1 : -1;
+        }
+        const diff = typeof aValue === 'number' && typeof bValue === 'number'
+            ? aValue - bValue
+            : String(aValue).localeCompare(String(bValue), undefined, { numeric: true });
+        if (diff !== 0) {
+            return direction === 'asc' ? diff : -diff;
+        }
+    }
+    return 0;
+}
@@ -0,0 +1,47 @@
+import { Money } from '../types/Money';
+import { ClearedStatus, Transaction } from '../types/Transaction';
+import { sumMoney } from './money';
+import { getAccountPostings } from './transfers';
+
+// 交易对某个账户在某种货币下余额的影响，与该账户无关时为 0
+export function getAccountAmount(transaction: Transaction, account: string, currency: string): Money {
+    return sumMoney(
+        getAccountPostings(transaction)
+            .filter(posting => posting.account === account && posting.amount.currency === currency)
+            .map(posting => posting.amount),
+        currency
+    );
+}
+
+// 交易是否影响该账户在该货币下的余额
+export function affectsAccount(transaction: Transaction, account: string, currency: string): boolean {
+    return getAccountPostings(transaction)
+        .some(posting => posting.account === account && posting.amount.currency === currency);
+}
+
+// 转账的转入一侧单独记录对账状态；同一账户同一货币的两侧按转出一侧处理
+function isReceivingPosting(transaction: Transaction, account: string, currency: string): boolean {
+    if (transaction.type !== 'transfer') {
+        return false;
+    }
+    const [sent, received] = getAccountPostings(transaction);
+    const matches = (posting: typeof sent) => posting.account === account && posting.amount.currency === currency;
+    return matches(received) && !matches(sent);
+}
+
+// 交易在该账户一侧的对账状态
+export function getPostingStatus(transaction: Transaction, account: string, currency: string): ClearedStatus | undefined {
+    return isReceivingPosting(transaction, account, currency) ? transaction.toStatus : transaction.status;
+}
+
+// 只改写该账户一侧的对账状态，另一侧保持不变
+export function setPostingStatus(
+    transaction: Transaction,
+    account: string,
+    currency: string,
+    status: ClearedStatus | undefined
+): Transaction {
+    return isReceivingPosting(transaction, account, currency)
+        ? { ...transaction, toStatus: status }
+        : { ...transaction, status };
+}
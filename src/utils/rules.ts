@@ -0,0 +1,89 @@
+import { Transaction } from '../types/Transaction';
+import { TransactionRule } from '../types/TransactionRule';
+import { compilePattern } from './merchants';
+import { parseMoney } from './money';
+
+// 规则可以修改的字段
+type RuleField = 'category' | 'tags' | 'account' | 'type';
+
+// 正则无法编译时视为不匹配
+function matchesText(pattern: string, value: string | undefined): boolean {
+    return !!compilePattern(pattern)?.test(value ?? '');
+}
+
+export function matchesRule(transaction: Omit<Transaction, 'id'>, rule: TransactionRule): boolean {
+    const { conditions } = rule;
+    const { amount } = transaction;
+    if (conditions.description && !matchesText(conditions.description, transaction.description)) {
+        return false;
+    }
+    if (conditions.payee && !matchesText(conditions.payee, transaction.payee)) {
+        return false;
+    }
+    const min = conditions.minAmount ? parseMoney(conditions.minAmount, amount.currency) : null;
+    const max = conditions.maxAmount ? parseMoney(conditions.maxAmount, amount.currency) : null;
+    if ((min && amount.minor < min.minor) || (max && amount.minor > max.minor)) {
+        return false;
+    }
+    if (conditions.account && conditions.account !== transaction.account) {
+        return false;
+    }
+    return !conditions.currency || conditions.currency === amount.currency;
+}
+
+/**
+ * 按顺序应用所有启用且匹配的规则：分类、账户和类型取第一个设置了该字段的规则，
+ * 标签合并所有规则的标签。拆分交易的分类由拆分行决定，转账的类型不会被修改。
+ */
+export function applyRules<T extends Omit<Transaction, 'id'>>(transaction: T, rules: TransactionRule[]): T {
+    const result = { ...transaction, tags: [...transaction.tags] };
+    const assigned = new Set<RuleField>();
+    for (const rule of rules.filter(r => r.enabled && matchesRule(transaction, r))) {
+        const { category, tags, account, type } = rule.actions;
+        if (category && !assigned.has('category') && !transaction.splits) {
+            result.category = category;
+            assigned.add('category');
+        }
+        if (account && !assigned.has('account')) {
+            result.account = account;
+            assigned.add('account');
+        }
+        if (type && !assigned.has('type') && transaction.type !== 'transfer') {
+            result.type = type;
+            assigned.add('type');
+        }
+        for (const tag of tags ?? []) {
+            if (!result.tags.includes(tag)) {
+                result.tags.push(tag);
+            }
+        }
+    }
+    return result;
+}
+
+// 归一收款方和应用规则后发生变化的字段
+export function getRuleChanges(before: Omit<Transaction, 'id'>, after: Omit<Transaction, 'id'>): string[] {
+    const fields: ('payee' | RuleField)[] = ['payee', 'category', 'account', 'type'];
+    const changed: string[] = fields.filter(field => before[field] !== after[field]);
+    return after.tags.length !== before.tags.length ? [...changed, 'tags'] : changed;
+}
+
+// 规则的一行说明，例如 "description ~ starbucks → category 餐饮, #coffee"
+export function describeRule(rule: TransactionRule): string {
+    const { conditions, actions } = rule;
+    const when = [
+        conditions.description && `description ~ ${conditions.description}`,
+        conditions.payee && `payee ~ ${conditions.payee}`,
+        conditions.minAmount && `amount ≥ ${conditions.minAmount}`,
+        conditions.maxAmount && `amount ≤ ${conditions.maxAmount}`,
+        conditions.account && `account = ${conditions.account}`,
+        conditions.currency && `currency = ${conditions.currency}`
+    ].filter(Boolean);
+    const then = [
+        actions.category && `category ${actions.category}`,
+        ...(actions.tags ?? []).map(tag => `#${tag}`),
+        actions.account && `account ${actions.account}`,
+        actions.type && `type ${actions.type}`
+    ].filter(Boolean);
+    return `${when.length > 0 ? when.join(', ') : 'all transactions'} → ${then.join(', ')}`;
+}
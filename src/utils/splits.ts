@@ -0,0 +1,56 @@
+import { Money } from '../types/Money';
+import { Transaction, TransactionSplit } from '../types/Transaction';
+import { formatMoney, parseMoney, sumMoney } from './money';
+
+// 账本中的拆分字段：Split 1、Split 2……
+export const SPLIT_FIELD_PATTERN = /^Split (\d+)$/;
+
+// 写入为 "<金额> <分类>"，例如 "35.00 餐饮"；分类可以包含空格
+export function formatSplit(split: TransactionSplit): string {
+    return `${formatMoney(split.amount)} ${split.category}`;
+}
+
+export function parseSplit(value: string, currency: string): TransactionSplit | null {
+    const match = value.trim().match(/^(\S+)\s+(.+)$/);
+    const amount = match ? parseMoney(match[1], currency) : null;
+    if (!match || !amount) {
+        return null;
+    }
+    return { category: match[2].trim(), amount };
+}
+
+// 拆分行的金额之和必须等于交易金额，不满足时返回错误信息
+export function getSplitError(amount: Money, splits: TransactionSplit[]): string | null {
+    if (splits.some(split => split.amount.currency !== amount.currency)) {
+        return `Split amounts must be in ${amount.currency}`;
+    }
+    if (splits.some(split => !split.category)) {
+        return 'Every split needs a category';
+    }
+    const total = sumMoney(splits.map(split => split.amount), amount.currency);
+    if (total.minor !== amount.minor) {
+        return `Split amounts add up to ${formatMoney(total)}, expected ${formatMoney(amount)}`;
+    }
+    return null;
+}
+
+/**
+ * 把拆分交易展开为每个拆分行一条交易（分类和金额取自拆分行，其余字段相同），
+ * 没有拆分的交易原样返回。按分类统计时使用，展开后的金额之和与原交易相同。
+ */
+export function getSplitLines(transaction: Transaction): Transaction[] {
+    if (!transaction.splits || transaction.splits.length === 0) {
+        return [transaction];
+    }
+    return transaction.splits.map(split => ({
+        ...transaction,
+        category: split.category,
+        amount: split.amount,
+        splits: undefined
+    }));
+}
+
+// 交易涉及的所有分类
+export function getCategories(transaction: Transaction): string[] {
+    return getSplitLines(transaction).map(line => line.category);
+}
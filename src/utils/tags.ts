@@ -0,0 +1,37 @@
+// 与 Obsidian 的标签规则一致：字母、数字、下划线、连字符和斜杠（嵌套标签），不能全为数字
+const TAG_PATTERN = /^[\p{L}\p{N}_\/-]+$/u;
+
+// 去掉开头的 #，不是合法标签时返回 null
+export function normalizeTag(value: string): string | null {
+    const tag = value.trim().replace(/^#+/, '');
+    if (!TAG_PATTERN.test(tag) || /^\d+$/.test(tag)) {
+        return null;
+    }
+    return tag;
+}
+
+// 解析以空格或逗号分隔的标签，忽略非法和重复的标签
+export function parseTags(value: string): string[] {
+    const tags: string[] = [];
+    for (const part of value.split(/[\s,]+/)) {
+        const tag = normalizeTag(part);
+        if (tag && !tags.includes(tag)) {
+            tags.push(tag);
+        }
+    }
+    return tags;
+}
+
+// 写入文件时带上 #，Obsidian 会把它们识别为标签
+export function formatTags(tags: string[]): string {
+    return tags.map(tag => `#${tag}`).join(' ');
+}
+
+// 标签筛选：与任一筛选标签相同或是其子标签（#trip 匹配 #trip/japan），不区分大小写
+export function matchesTags(tags: string[], filter: string[]): boolean {
+    return tags.some(tag => filter.some(f => {
+        const a = tag.toLowerCase();
+        const b = f.replace(/^#+/, '').toLowerCase();
+        return a === b || a.startsWith(`${b}/`);
+    }));
+}
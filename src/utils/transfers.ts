@@ -0,0 +1,52 @@
+import { Money } from '../types/Money';
+import { Transaction } from '../types/Transaction';
+import { addMoney } from './money';
+
+export interface AccountPosting {
+    account: string;
+    amount: Money;
+}
+
+/**
+ * 交易对各账户余额的影响：收入增加、支出减少账户余额；
+ * 转账从转出账户扣除金额和手续费，转入账户增加收到的金额。
+ */
+export function getAccountPostings(transaction: Transaction): AccountPosting[] {
+    const { amount } = transaction;
+    switch (transaction.type) {
+        case 'income':
+            return [{ account: transaction.account, amount }];
+        case 'expense':
+            return [{ account: transaction.account, amount: { ...amount, minor: -amount.minor } }];
+        case 'transfer': {
+            const sent = transaction.fee ? addMoney(amount, transaction.fee) : amount;
+            const received = transaction.toAmount ?? amount;
+            return [
+                { account: transaction.account, amount: { ...sent, minor: -sent.minor } },
+                { account: transaction.toAccount ?? '', amount: received }
+            ];
+        }
+        default:
+            return [];
+    }
+}
+
+// 转账必须有不同于转出账户的转入账户，不能拆分；返回错误信息
+export function getTransferError(transaction: Omit<Transaction, 'id'>): string | null {
+    if (transaction.type !== 'transfer') {
+        return null;
+    }
+    if (!transaction.toAccount) {
+        return 'Transfers need a destination account';
+    }
+    if (transaction.toAccount === transaction.account && !transaction.toAmount) {
+        return 'Transfers need two different accounts';
+    }
+    if (transaction.fee && transaction.fee.currency !== transaction.amount.currency) {
+        return `Transfer fee must be in ${transaction.amount.currency}`;
+    }
+    if (transaction.splits) {
+        return 'Transfers cannot be split';
+    }
+    return null;
+}
@@ -10,12 +10,18 @@ export class ChartView extends ItemView {
     private chartContainer: HTMLElement;
     private currentQuery: string;
     private eventBus: EventBus;
+    private transactionChangedCallback: () => void;
 
     constructor(leaf: WorkspaceLeaf, chartService: ChartService) {
         super(leaf);
         this.chartService = chartService;
         this.eventBus = EventBus.getInstance();
         this.currentQuery = '';
+        this.transactionChangedCallback = () => {
+            if (this.currentQuery) {
+                this.renderChart(this.currentQuery);
+            }
+        };
     }
 
     getViewType(): string {
@@ -35,22 +41,12 @@ export class ChartView extends ItemView {
         this.chartContainer = container.createDiv('chart-container');
         
         // 监听交易数据变化
-        const handleTransactionChange = () => {
-            if (this.currentQuery) {
-                this.renderChart(this.currentQuery);
-            }
-        };
-        this.eventBus.subscribe(EVENT_TYPES.TRANSACTION_CHANGED, handleTransactionChange);
+        this.eventBus.subscribe(EVENT_TYPES.TRANSACTION_CHANGED, this.transactionChangedCallback);
     }
 
     async onClose(): Promise<void> {
-        // 清理事件监听
-        const handleTransactionChange = () => {
-            if (this.currentQuery) {
-                this.renderChart(this.currentQuery);
-            }
-        };
-        this.eventBus.unsubscribe(EVENT_TYPES.TRANSACTION_CHANGED, handleTransactionChange);
+        // 使用存储的回调函数取消订阅
+        this.eventBus.unsubscribe(EVENT_TYPES.TRANSACTION_CHANGED, this.transactionChangedCallback);
         
         // 清理图表
         const charts = this.chartContainer.querySelectorAll('canvas');
@@ -0,0 +1,49 @@
+import { MarkdownRenderChild, debounce } from 'obsidian';
+import { EventBus } from '../services/EventBus';
+
+/**
+ * `finance` / `finance-summary` 代码块的渲染单元。
+ * 订阅数据变更事件，数据变化时重新渲染，代码块卸载时自动取消订阅。
+ */
+export class FinanceBlockRenderChild extends MarkdownRenderChild {
+    private events: string[];
+    private renderBlock: (el: HTMLElement) => Promise<void>;
+    private teardown?: (el: HTMLElement) => void;
+    private eventBus: EventBus;
+    private refresh: () => void;
+
+    constructor(
+        containerEl: HTMLElement,
+        events: string[],
+        renderBlock: (el: HTMLElement) => Promise<void>,
+        teardown?: (el: HTMLElement) => void
+    ) {
+        super(containerEl);
+        this.events = events;
+        this.renderBlock = renderBlock;
+        this.teardown = teardown;
+        this.eventBus = EventBus.getInstance();
+        // 合并短时间内的多次变更（例如批量写入）
+        this.refresh = debounce(() => this.render(), 300, true);
+    }
+
+    onload(): void {
+        this.events.forEach(event => this.eventBus.subscribe(event, this.refresh));
+        this.render();
+    }
+
+    onunload(): void {
+        this.events.forEach(event => this.eventBus.unsubscribe(event, this.refresh));
+        this.teardown?.(this.containerEl);
+    }
+
+    private async render(): Promise<void> {
+        this.teardown?.(this.containerEl);
+        this.containerEl.empty();
+        try {
+            await this.renderBlock(this.containerEl);
+        } catch (error) {
+            this.containerEl.createDiv({ cls: 'error', text: `Error: ${error.message}` });
+        }
+    }
+}
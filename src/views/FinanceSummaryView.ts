@@ -1,5 +1,6 @@
 import { ItemView, WorkspaceLeaf, MarkdownRenderer } from 'obsidian';
 import { SummaryService } from '../services/SummaryService';
+import { EventBus, EVENT_TYPES } from '../services/EventBus';
 import { format } from 'date-fns';
 
 export const FINANCE_SUMMARY_VIEW = 'finance-summary-view';
@@ -8,10 +9,16 @@ export class FinanceSummaryView extends ItemView {
     private summaryService: SummaryService;
     private currentDate: Date = new Date();
     private currentView: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly' = 'daily';
+    private eventBus: EventBus;
+    private transactionChangedCallback: () => void;
 
     constructor(leaf: WorkspaceLeaf, summaryService: SummaryService) {
         super(leaf);
         this.summaryService = summaryService;
+        this.eventBus = EventBus.getInstance();
+        this.transactionChangedCallback = () => {
+            this.render();
+        };
     }
 
     getViewType(): string {
@@ -23,9 +30,14 @@ export class FinanceSummaryView extends ItemView {
     }
 
     async onOpen(): Promise<void> {
+        this.eventBus.subscribe(EVENT_TYPES.TRANSACTION_CHANGED, this.transactionChangedCallback);
         await this.render();
     }
 
+    async onClose(): Promise<void> {
+        this.eventBus.unsubscribe(EVENT_TYPES.TRANSACTION_CHANGED, this.transactionChangedCallback);
+    }
+
     async render(): Promise<void> {
         const container = this.containerEl.children[1];
         container.empty();
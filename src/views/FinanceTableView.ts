@@ -1,29 +1,48 @@
-import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { ItemView, Notice, TFile, WorkspaceLeaf } from 'obsidian';
 import { TransactionService } from '../services/TransactionService';
 import { BudgetService } from '../services/BudgetService';
 import { RecurringTransactionService } from '../services/RecurringTransactionService';
 import { ExcelService } from '../services/ExcelService';
+import { TrashService } from '../services/TrashService';
+import { AccountService } from '../services/AccountService';
 import { EditTransactionModal } from '../modals/EditTransactionModal';
 import { EditBudgetModal } from '../modals/EditBudgetModal';
 import { EditRecurringTransactionModal } from '../modals/EditRecurringTransactionModal';
-import { Transaction } from '../types/Transaction';
+import { ClearedStatus, Transaction } from '../types/Transaction';
 import { Budget } from '../types/Budget';
 import { RecurringTransaction } from '../types/RecurringTransaction';
+import { TrashItem } from '../types/TrashItem';
+import { Account } from '../types/Account';
+import { AccountBalance } from '../types/AccountBalance';
+import { formatMoney } from '../utils/money';
+import { getCategories } from '../utils/splits';
 import { AddTransactionModal } from '../modals/AddTransactionModal';
+import { ImportDuplicatesModal } from '../modals/ImportDuplicatesModal';
+import { ATTACHMENT_EXTENSIONS } from '../modals/AttachmentEditor';
 import { AddBudgetModal } from '../modals/AddBudgetModal';
 import { AddRecurringTransactionModal } from '../modals/AddRecurringTransactionModal';
+import { AccountModal } from '../modals/AccountModal';
+import { ReconcileModal } from '../modals/ReconcileModal';
+import { BalanceSnapshotModal } from '../modals/BalanceSnapshotModal';
 import { EventBus, EVENT_TYPES } from '../services/EventBus';
 
 export const FINANCE_TABLE_VIEW = 'finance-table-view';
 
+const STATUS_LABELS: Record<ClearedStatus, string> = {
+    cleared: '✓ Cleared',
+    reconciled: '🔒 Reconciled'
+};
+
 export class FinanceTableView extends ItemView {
     static icon = 'dollar';
     private transactionService: TransactionService;
     private budgetService: BudgetService;
     private recurringTransactionService: RecurringTransactionService;
     private excelService: ExcelService;
+    private trashService: TrashService;
+    private accountService: AccountService;
     private eventBus: EventBus;
-    private currentType: 'transaction' | 'budget' | 'recurring' = 'transaction';
+    private currentType: 'transaction' | 'budget' | 'recurring' | 'account' | 'trash' = 'transaction';
     private currentYear: number = new Date().getFullYear();
     private currentPage: number = 1;
     private itemsPerPage: number = 10;
@@ -32,24 +51,31 @@ export class FinanceTableView extends ItemView {
     private transactionChangedCallback: () => void;
     private budgetChangedCallback: () => void;
     private recurringTransactionChangedCallback: () => void;
+    private trashChangedCallback: () => void;
+    private accountChangedCallback: () => void;
 
     constructor(
         leaf: WorkspaceLeaf,
         transactionService: TransactionService,
         budgetService: BudgetService,
         recurringTransactionService: RecurringTransactionService,
-        excelService: ExcelService
+        excelService: ExcelService,
+        trashService: TrashService,
+        accountService: AccountService
     ) {
         super(leaf);
         this.transactionService = transactionService;
         this.budgetService = budgetService;
         this.recurringTransactionService = recurringTransactionService;
         this.excelService = excelService;
+        this.trashService = trashService;
+        this.accountService = accountService;
         this.eventBus = EventBus.getInstance();
 
         // 初始化回调函数
+        // 账户余额随交易变化
         this.transactionChangedCallback = () => {
-            if (this.currentType === 'transaction') {
+            if (this.currentType === 'transaction' || this.currentType === 'account') {
                 this.render();
             }
         };
@@ -63,6 +89,16 @@ export class FinanceTableView extends ItemView {
                 this.render();
             }
         };
+        this.trashChangedCallback = () => {
+            if (this.currentType === 'trash') {
+                this.render();
+            }
+        };
+        this.accountChangedCallback = () => {
+            if (this.currentType === 'account') {
+                this.render();
+            }
+        };
 
         this.setupEventListeners();
     }
@@ -71,6 +107,8 @@ export class FinanceTableView extends ItemView {
         this.eventBus.subscribe(EVENT_TYPES.TRANSACTION_CHANGED, this.transactionChangedCallback);
         this.eventBus.subscribe(EVENT_TYPES.BUDGET_CHANGED, this.budgetChangedCallback);
         this.eventBus.subscribe(EVENT_TYPES.RECURRING_TRANSACTION_CHANGED, this.recurringTransactionChangedCallback);
+        this.eventBus.subscribe(EVENT_TYPES.TRASH_CHANGED, this.trashChangedCallback);
+        this.eventBus.subscribe(EVENT_TYPES.ACCOUNT_CHANGED, this.accountChangedCallback);
     }
 
     getViewType(): string {
@@ -90,6 +128,8 @@ export class FinanceTableView extends ItemView {
         this.eventBus.unsubscribe(EVENT_TYPES.TRANSACTION_CHANGED, this.transactionChangedCallback);
         this.eventBus.unsubscribe(EVENT_TYPES.BUDGET_CHANGED, this.budgetChangedCallback);
         this.eventBus.unsubscribe(EVENT_TYPES.RECURRING_TRANSACTION_CHANGED, this.recurringTransactionChangedCallback);
+        this.eventBus.unsubscribe(EVENT_TYPES.TRASH_CHANGED, this.trashChangedCallback);
+        this.eventBus.unsubscribe(EVENT_TYPES.ACCOUNT_CHANGED, this.accountChangedCallback);
     }
 
     private render(): void {
@@ -111,6 +151,12 @@ export class FinanceTableView extends ItemView {
             case 'recurring':
                 this.renderRecurringTable(container);
                 break;
+            case 'account':
+                this.renderAccountTable(container);
+                break;
+            case 'trash':
+                this.renderTrashTable(container);
+                break;
         }
     }
 
@@ -120,9 +166,13 @@ export class FinanceTableView extends ItemView {
         // 年份选择器
         const yearSelect = toolbar.createEl('select', { cls: 'finance-year-select' });
         const currentYear = new Date().getFullYear();
+        const years = new Set<number>(this.transactionService.getYears());
         for (let year = currentYear - 5; year <= currentYear + 5; year++) {
-            yearSelect.createEl('option', { text: year.toString(), value: year.toString() });
+            years.add(year);
         }
+        Array.from(years).sort((a, b) => a - b).forEach(year => {
+            yearSelect.createEl('option', { text: year.toString(), value: year.toString() });
+        });
         yearSelect.value = this.currentYear.toString();
         yearSelect.addEventListener('change', () => {
             this.currentYear = parseInt(yearSelect.value);
@@ -135,13 +185,30 @@ export class FinanceTableView extends ItemView {
         typeSelect.createEl('option', { text: 'Transactions', value: 'transaction' });
         typeSelect.createEl('option', { text: 'Budgets', value: 'budget' });
         typeSelect.createEl('option', { text: 'Recurring', value: 'recurring' });
+        typeSelect.createEl('option', { text: 'Accounts', value: 'account' });
+        typeSelect.createEl('option', { text: 'Trash', value: 'trash' });
         typeSelect.value = this.currentType;
         typeSelect.addEventListener('change', () => {
-            this.currentType = typeSelect.value as 'transaction' | 'budget' | 'recurring';
+            this.currentType = typeSelect.value as 'transaction' | 'budget' | 'recurring' | 'account' | 'trash';
             this.currentPage = 1;
             this.render();
         });
 
+        // 回收站只提供恢复和清空
+        if (this.currentType === 'trash') {
+            const emptyButton = toolbar.createEl('button', { text: 'Empty Trash', cls: 'btn-danger' });
+            emptyButton.addEventListener('click', async () => {
+                if (confirm('Permanently delete all records in the trash?')) {
+                    try {
+                        await this.trashService.empty();
+                    } catch (error) {
+                        console.error('Failed to empty trash:', error);
+                    }
+                }
+            });
+            return;
+        }
+
         // 添加按钮
         const addButton = toolbar.createEl('button', {
             text: 'Add',
@@ -162,9 +229,17 @@ export class FinanceTableView extends ItemView {
                         this.transactionService
                     ).open();
                     break;
+                case 'account':
+                    new AccountModal(this.app, this.accountService, this.transactionService.getSettings().currencies).open();
+                    break;
             }
         });
 
+        // 账户目录直接编辑文件，不提供导入导出
+        if (this.currentType === 'account') {
+            return;
+        }
+
         // 导入按钮
         const importButton = toolbar.createEl('button', {
             text: 'Import',
@@ -182,7 +257,15 @@ export class FinanceTableView extends ItemView {
             const file = (e.target as HTMLInputElement).files?.[0];
             if (file) {
                 try {
-                    await this.excelService.importFromExcel(file);
+                    // 疑似重复的行由用户选择跳过或保留
+                    const result = await this.excelService.importFromExcel(file, duplicates => new Promise(resolve =>
+                        new ImportDuplicatesModal(this.app, duplicates, resolve).open()));
+                    // 跳过的行连同行号一起提示，保持显示直到点击
+                    if (result.errors.length > 0) {
+                        new Notice(`Imported ${result.imported} records, skipped ${result.errors.length} rows:\n${result.errors.join('\n')}`, 0);
+                    } else {
+                        new Notice(`Imported ${result.imported} records`);
+                    }
                     this.render();
                 } catch (error) {
                     console.error('Failed to import file:', error);
@@ -196,7 +279,9 @@ export class FinanceTableView extends ItemView {
             cls: 'finance-export-button'
         });
         exportButton.addEventListener('click', () => {
-            this.excelService.exportToExcel(this.currentType);
+            if (this.currentType !== 'trash' && this.currentType !== 'account') {
+                this.excelService.exportToExcel(this.currentType);
+            }
         });
     }
 
@@ -204,7 +289,7 @@ export class FinanceTableView extends ItemView {
         const table = container.createEl('table', { cls: 'finance-table' });
         const thead = table.createEl('thead');
         const headerRow = thead.createEl('tr');
-        ['Date', 'Amount', 'Type', 'Category', 'Account', 'Description', 'Currency', 'Actions'].forEach(header => {
+        ['Date', 'Amount', 'Type', 'Category', 'Account', 'Payee', 'Description', 'Currency', 'Status', 'Actions'].forEach(header => {
             headerRow.createEl('th', { text: header });
         });
 
@@ -224,12 +309,30 @@ export class FinanceTableView extends ItemView {
         pageTransactions.forEach((transaction: Transaction) => {
             const row = tbody.createEl('tr');
             row.createEl('td', { text: new Date(transaction.date).toLocaleDateString() });
-            row.createEl('td', { text: transaction.amount.toString() });
+            row.createEl('td', { text: this.formatTransactionAmount(transaction) });
             row.createEl('td', { text: transaction.type });
-            row.createEl('td', { text: transaction.category });
-            row.createEl('td', { text: transaction.account });
-            row.createEl('td', { text: transaction.description || '' });
-            row.createEl('td', { text: transaction.currency });
+            row.createEl('td', { text: getCategories(transaction).join(', ') });
+            // 转账显示转出和转入账户
+            row.createEl('td', {
+                text: transaction.type === 'transfer' ? `${transaction.account} → ${transaction.toAccount}` : transaction.account
+            });
+            row.createEl('td', { text: transaction.payee || '' });
+            const descriptionCell = row.createEl('td', { text: transaction.description || '' });
+            if (transaction.source) {
+                this.renderSourceLink(descriptionCell, transaction.source);
+            }
+            if (transaction.links) {
+                this.renderLinks(descriptionCell, transaction.links, this.transactionService.getSourcePath(transaction));
+            }
+            if (transaction.attachments) {
+                this.renderAttachments(descriptionCell, transaction.attachments, this.transactionService.getSourcePath(transaction));
+            }
+            row.createEl('td', { text: transaction.amount.currency });
+            // 转账的两个账户分别对账，依次显示转出和转入一侧的状态
+            const statuses = transaction.type === 'transfer' ? [transaction.status, transaction.toStatus] : [transaction.status];
+            row.createEl('td', {
+                text: statuses.some(Boolean) ? statuses.map(s => s ? STATUS_LABELS[s] : '–').join(' → ') : ''
+            });
 
             // 添加操作按钮
             const actionsCell = row.createEl('td');
@@ -240,19 +343,101 @@ export class FinanceTableView extends ItemView {
                 new EditTransactionModal(this.app, this.transactionService, transaction).open();
             });
 
+            // 删除的交易进入回收站，可以撤销
             deleteButton.addEventListener('click', async () => {
-                if (confirm('Are you sure you want to delete this transaction?')) {
-                    try {
-                        await this.transactionService.deleteTransaction(transaction.id);
-                    } catch (error) {
-                        console.error('Failed to delete transaction:', error);
-                    }
+                try {
+                    await this.transactionService.deleteTransaction(transaction.id);
+                    new Notice('Transaction moved to trash');
+                } catch (error) {
+                    console.error('Failed to delete transaction:', error);
                 }
             });
         });
 
         // 添加分页控件
         this.renderPagination(container, transactions.length);
+
+        await this.renderAccountBalances(container);
+    }
+
+    // 转账附带手续费和跨币种的转入金额
+    private formatTransactionAmount(transaction: Transaction): string {
+        let text = formatMoney(transaction.amount);
+        if (transaction.toAmount) {
+            text += ` → ${formatMoney(transaction.toAmount)} ${transaction.toAmount.currency}`;
+        }
+        if (transaction.fee) {
+            text += ` (fee ${formatMoney(transaction.fee)})`;
+        }
+        return text;
+    }
+
+    // 截至当前年份年底的账户余额
+    private async renderAccountBalances(container: HTMLElement): Promise<void> {
+        const balances = await this.transactionService.getAccountBalances(new Date(this.currentYear, 11, 31, 23, 59, 59, 999));
+        if (balances.length === 0) {
+            return;
+        }
+        const section = container.createDiv('finance-account-balances');
+        section.createEl('h4', { text: `Account balances at end of ${this.currentYear}` });
+        const list = section.createEl('ul');
+        for (const { account, balance } of balances) {
+            list.createEl('li', { text: `${account}: ${formatMoney(balance)} ${balance.currency}` });
+        }
+    }
+
+    // 行内交易显示指向源笔记的链接
+    private renderSourceLink(container: HTMLElement, source: { path: string; line: number }): void {
+        const link = container.createEl('a', {
+            text: ' ↗',
+            cls: 'finance-source-link',
+            attr: { 'aria-label': `${source.path}:${source.line + 1}` }
+        });
+        link.addEventListener('click', async (e) => {
+            e.preventDefault();
+            const file = this.app.vault.getAbstractFileByPath(source.path);
+            if (file instanceof TFile) {
+                await this.app.workspace.getLeaf(false).openFile(file, {
+                    eState: { line: source.line }
+                });
+            }
+        });
+    }
+
+    // 相关笔记显示为内部链接，相对交易所在的文件 sourcePath 解析
+    private renderLinks(container: HTMLElement, links: string[], sourcePath: string): void {
+        const list = container.createDiv('finance-links');
+        for (const link of links) {
+            const anchor = list.createEl('a', { text: link, cls: 'internal-link', attr: { 'data-href': link } });
+            anchor.addEventListener('click', async (e) => {
+                e.preventDefault();
+                await this.app.workspace.openLinkText(link, sourcePath);
+            });
+        }
+    }
+
+    // 图片附件显示缩略图，其他文件显示链接，点击打开
+    private renderAttachments(container: HTMLElement, attachments: string[], sourcePath: string): void {
+        const list = container.createDiv('finance-attachments');
+        for (const link of attachments) {
+            const file = this.app.metadataCache.getFirstLinkpathDest(link, sourcePath);
+            if (!file) {
+                list.createEl('span', { text: `📎 ${link}`, cls: 'finance-attachment-missing' });
+                continue;
+            }
+            const extension = file.extension.toLowerCase();
+            const item = extension === 'pdf' || !ATTACHMENT_EXTENSIONS.includes(extension)
+                ? list.createEl('a', { text: `📎 ${file.name}`, cls: 'finance-attachment-link' })
+                : list.createEl('img', {
+                    cls: 'finance-attachment-thumb',
+                    attr: { src: this.app.vault.getResourcePath(file), alt: file.name }
+                });
+            item.setAttribute('aria-label', file.path);
+            item.addEventListener('click', async (e) => {
+                e.preventDefault();
+                await this.app.workspace.getLeaf(false).openFile(file);
+            });
+        }
     }
 
     private async renderBudgetTable(container: HTMLElement): Promise<void> {
@@ -274,7 +459,7 @@ export class FinanceTableView extends ItemView {
 
         pageBudgets.forEach(budget => {
             const row = tbody.createEl('tr');
-            row.createEl('td', { text: budget.amount.toString() });
+            row.createEl('td', { text: `${formatMoney(budget.amount)} ${budget.amount.currency}` });
             row.createEl('td', { text: budget.category });
             row.createEl('td', { text: budget.period });
             row.createEl('td', { text: budget.description || '' });
@@ -293,13 +478,12 @@ export class FinanceTableView extends ItemView {
                 cls: 'finance-delete-button'
             });
             deleteButton.addEventListener('click', async () => {
-                if (confirm('Are you sure you want to delete this budget?')) {
-                    try {
-                        await this.budgetService.deleteBudget(budget.id);
-                        this.render();
-                    } catch (error) {
-                        console.error('Failed to delete budget:', error);
-                    }
+                try {
+                    await this.budgetService.deleteBudget(budget.id);
+                    new Notice('Budget moved to trash');
+                    this.render();
+                } catch (error) {
+                    console.error('Failed to delete budget:', error);
                 }
             });
         });
@@ -326,7 +510,7 @@ export class FinanceTableView extends ItemView {
 
         pageRecurringTransactions.forEach(recurringTransaction => {
             const row = tbody.createEl('tr');
-            row.createEl('td', { text: recurringTransaction.amount.toString() });
+            row.createEl('td', { text: `${formatMoney(recurringTransaction.amount)} ${recurringTransaction.amount.currency}` });
             row.createEl('td', { text: recurringTransaction.type });
             row.createEl('td', { text: recurringTransaction.category });
             row.createEl('td', { text: recurringTransaction.account });
@@ -353,17 +537,190 @@ export class FinanceTableView extends ItemView {
                 cls: 'finance-delete-button'
             });
             deleteButton.addEventListener('click', async () => {
-                if (confirm('Are you sure you want to delete this recurring transaction?')) {
+                try {
+                    await this.recurringTransactionService.deleteRecurringTransaction(recurringTransaction.id);
+                    new Notice('Recurring transaction moved to trash');
+                } catch (error) {
+                    console.error('Failed to delete recurring transaction:', error);
+                }
+            });
+        });
+
+        this.renderPagination(container, recurringTransactions.length);
+    }
+
+    /**
+     * 账户目录中的账户和交易中使用过但未加入目录的账户，
+     * 显示当前余额、所选年份年底的余额，以及该年每月月底的余额。
+     */
+    private async renderAccountTable(container: HTMLElement): Promise<void> {
+        const now = new Date();
+        const yearEnd = new Date(this.currentYear, 11, 31, 23, 59, 59, 999);
+        // 只统计已经开始的月份
+        const monthEnds = Array.from({ length: 12 }, (_, month) => new Date(this.currentYear, month + 1, 0, 23, 59, 59, 999))
+            .filter(date => new Date(date.getFullYear(), date.getMonth(), 1) <= now);
+        const [current, atYearEnd, ...history] = await this.transactionService.getAccountBalanceHistory([now, yearEnd, ...monthEnds]);
+
+        const registered = this.accountService.getAccounts();
+        const unregistered = Array.from(new Set(current.map(b => b.account)))
+            .filter(name => name && !this.accountService.getAccount(name));
+
+        const table = container.createEl('table', { cls: 'finance-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        ['Name', 'Kind', 'Currency', 'Opening Balance', 'Opening Date', 'Balance', `End of ${this.currentYear}`, 'Actions'].forEach(text => {
+            headerRow.createEl('th', { text });
+        });
+
+        const tbody = table.createEl('tbody');
+        const currencies = this.transactionService.getSettings().currencies;
+        for (const account of registered) {
+            const row = tbody.createEl('tr', { cls: account.archived ? 'finance-account-archived' : '' });
+            row.createEl('td', { text: account.archived ? `${account.name} (archived)` : account.name });
+            row.createEl('td', { text: account.kind });
+            row.createEl('td', { text: account.currency });
+            row.createEl('td', { text: formatMoney(account.openingBalance) });
+            row.createEl('td', { text: account.openingDate ? account.openingDate.toLocaleDateString() : '' });
+            row.createEl('td', { text: this.formatBalances(current, account.name) });
+            row.createEl('td', { text: this.formatBalances(atYearEnd, account.name) });
+
+            const actionsCell = row.createEl('td');
+            const editButton = actionsCell.createEl('button', { text: 'Edit', cls: 'finance-edit-button' });
+            editButton.addEventListener('click', () => {
+                new AccountModal(this.app, this.accountService, currencies, account).open();
+            });
+            const reconcileButton = actionsCell.createEl('button', { text: 'Reconcile' });
+            reconcileButton.addEventListener('click', () => {
+                new ReconcileModal(this.app, this.transactionService, this.accountService, account.name).open();
+            });
+            const snapshotButton = actionsCell.createEl('button', { text: 'Record Balance' });
+            snapshotButton.addEventListener('click', () => {
+                new BalanceSnapshotModal(this.app, this.accountService, account).open();
+            });
+            const archiveButton = actionsCell.createEl('button', { text: account.archived ? 'Unarchive' : 'Archive' });
+            archiveButton.addEventListener('click', async () => {
+                try {
+                    await this.accountService.setArchived(account.id, !account.archived);
+                } catch (error) {
+                    console.error('Failed to archive account:', error);
+                }
+            });
+        }
+
+        // 尚未加入目录的账户可以一键加入，货币取余额中的第一种
+        for (const name of unregistered) {
+            const row = tbody.createEl('tr', { cls: 'finance-account-unregistered' });
+            row.createEl('td', { text: name });
+            row.createEl('td', { text: 'not in directory' });
+            row.createEl('td');
+            row.createEl('td');
+            row.createEl('td');
+            row.createEl('td', { text: this.formatBalances(current, name) });
+            row.createEl('td', { text: this.formatBalances(atYearEnd, name) });
+            const addButton = row.createEl('td').createEl('button', { text: 'Add to directory' });
+            addButton.addEventListener('click', () => {
+                const currency = current.find(b => b.account === name)?.balance.currency;
+                const initial: Partial<Account> = { name, currency };
+                new AccountModal(this.app, this.accountService, currencies, initial).open();
+            });
+        }
+
+        this.renderBalanceHistory(container, [...registered.map(a => a.name), ...unregistered], monthEnds, history);
+    }
+
+    // 每月月底的余额，每行一个月，每列一个账户
+    private renderBalanceHistory(container: HTMLElement, accounts: string[], dates: Date[], history: AccountBalance[][]): void {
+        if (accounts.length === 0 || dates.length === 0) {
+            return;
+        }
+        const section = container.createDiv('finance-account-balances');
+        section.createEl('h4', { text: `Month-end balances in ${this.currentYear}` });
+        const table = section.createEl('table', { cls: 'finance-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        headerRow.createEl('th', { text: 'Month' });
+        accounts.forEach(account => headerRow.createEl('th', { text: account }));
+        const tbody = table.createEl('tbody');
+        dates.forEach((date, i) => {
+            const row = tbody.createEl('tr');
+            row.createEl('td', { text: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}` });
+            accounts.forEach(account => row.createEl('td', { text: this.formatBalances(history[i], account) }));
+        });
+    }
+
+    // 账户在各货币下的余额
+    private formatBalances(balances: AccountBalance[], account: string): string {
+        return balances
+            .filter(b => b.account === account)
+            .map(({ balance }) => `${formatMoney(balance)} ${balance.currency}`)
+            .join(', ');
+    }
+
+    private async renderTrashTable(container: HTMLElement): Promise<void> {
+        const retention = this.transactionService.getSettings().trashRetentionDays;
+        container.createEl('p', {
+            text: retention > 0
+                ? `Deleted records are kept for ${retention} days.`
+                : 'The trash is disabled, deleted records are not kept.',
+            cls: 'finance-trash-hint'
+        });
+
+        const table = container.createEl('table', { cls: 'finance-table' });
+        const thead = table.createEl('thead');
+        const headerRow = thead.createEl('tr');
+        ['Deleted', 'Kind', 'Amount', 'Category', 'Description', 'Actions'].forEach(text => {
+            headerRow.createEl('th', { text });
+        });
+
+        const tbody = table.createEl('tbody');
+        const items = await this.trashService.getItems();
+        const startIndex = (this.currentPage - 1) * this.itemsPerPage;
+        const pageItems = items.slice(startIndex, startIndex + this.itemsPerPage);
+
+        pageItems.forEach(item => {
+            const row = tbody.createEl('tr');
+            row.createEl('td', { text: item.deletedAt.toLocaleString() });
+            row.createEl('td', { text: item.kind });
+            row.createEl('td', { text: `${formatMoney(item.record.amount)} ${item.record.amount.currency}` });
+            row.createEl('td', { text: item.record.category });
+            row.createEl('td', { text: item.record.description || '' });
+
+            const actionsCell = row.createEl('td');
+            const restoreButton = actionsCell.createEl('button', { text: 'Restore', cls: 'btn btn-small' });
+            restoreButton.addEventListener('click', async () => {
+                try {
+                    await this.restoreTrashItem(item);
+                    new Notice('Record restored');
+                } catch (error) {
+                    console.error('Failed to restore record:', error);
+                }
+            });
+
+            const deleteButton = actionsCell.createEl('button', { text: 'Delete Forever', cls: 'btn btn-small btn-danger' });
+            deleteButton.addEventListener('click', async () => {
+                if (confirm('Permanently delete this record?')) {
                     try {
-                        await this.recurringTransactionService.deleteRecurringTransaction(recurringTransaction.id);
+                        await this.trashService.remove(item.kind, [item.record.id]);
                     } catch (error) {
-                        console.error('Failed to delete recurring transaction:', error);
+                        console.error('Failed to delete record:', error);
                     }
                 }
             });
         });
 
-        this.renderPagination(container, recurringTransactions.length);
+        this.renderPagination(container, items.length);
+    }
+
+    private async restoreTrashItem(item: TrashItem): Promise<void> {
+        switch (item.kind) {
+            case 'transactions':
+                await this.transactionService.restoreTransactions([item.record]);
+                break;
+            case 'budgets':
+                await this.budgetService.restoreBudgets([item.record]);
+                break;
+            case 'recurring-transactions':
+                await this.recurringTransactionService.restoreRecurringTransactions([item.record]);
+                break;
+        }
     }
 
     private renderPagination(container: HTMLElement, totalItems: number): void {
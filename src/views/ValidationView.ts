@@ -0,0 +1,129 @@
+import { ItemView, Notice, TFile, WorkspaceLeaf } from 'obsidian';
+import { ValidationService } from '../services/ValidationService';
+import { EventBus, EVENT_TYPES } from '../services/EventBus';
+import { LedgerDiagnostic } from '../types/LedgerDiagnostic';
+
+export const VALIDATION_VIEW = 'finance-validation-view';
+
+export class ValidationView extends ItemView {
+    private validationService: ValidationService;
+    private eventBus: EventBus;
+    private changedCallback: () => void;
+    private running: boolean = false;
+
+    constructor(leaf: WorkspaceLeaf, validationService: ValidationService) {
+        super(leaf);
+        this.validationService = validationService;
+        this.eventBus = EventBus.getInstance();
+        this.changedCallback = () => this.refresh();
+    }
+
+    getViewType(): string {
+        return VALIDATION_VIEW;
+    }
+
+    getDisplayText(): string {
+        return 'Finance Validation';
+    }
+
+    getIcon(): string {
+        return 'check-circle';
+    }
+
+    async onOpen(): Promise<void> {
+        // 账本变化（包括应用修复之后）时重新校验
+        this.eventBus.subscribe(EVENT_TYPES.TRANSACTION_CHANGED, this.changedCallback);
+        this.eventBus.subscribe(EVENT_TYPES.BUDGET_CHANGED, this.changedCallback);
+        this.eventBus.subscribe(EVENT_TYPES.RECURRING_TRANSACTION_CHANGED, this.changedCallback);
+        await this.refresh();
+    }
+
+    async onClose(): Promise<void> {
+        this.eventBus.unsubscribe(EVENT_TYPES.TRANSACTION_CHANGED, this.changedCallback);
+        this.eventBus.unsubscribe(EVENT_TYPES.BUDGET_CHANGED, this.changedCallback);
+        this.eventBus.unsubscribe(EVENT_TYPES.RECURRING_TRANSACTION_CHANGED, this.changedCallback);
+    }
+
+    async refresh(): Promise<void> {
+        if (this.running) {
+            return;
+        }
+        this.running = true;
+        try {
+            const diagnostics = await this.validationService.validateAll();
+            this.render(diagnostics);
+        } catch (error) {
+            console.error('Failed to validate finance files:', error);
+        } finally {
+            this.running = false;
+        }
+    }
+
+    private render(diagnostics: LedgerDiagnostic[]): void {
+        const container = this.containerEl.children[1] as HTMLElement;
+        container.empty();
+        container.addClass('finance-validation-view');
+
+        const header = container.createDiv('finance-validation-header');
+        const errors = diagnostics.filter(d => d.severity === 'error').length;
+        header.createEl('span', {
+            text: diagnostics.length === 0
+                ? 'No problems found'
+                : `${errors} errors, ${diagnostics.length - errors} warnings`
+        });
+        const rerunButton = header.createEl('button', { text: 'Run again', cls: 'btn btn-small' });
+        rerunButton.addEventListener('click', () => this.refresh());
+
+        if (errors > 0) {
+            container.createEl('p', {
+                text: 'Records with errors are ignored until they are fixed.',
+                cls: 'finance-validation-hint'
+            });
+        }
+
+        // 按文件分组
+        const byPath: Map<string, LedgerDiagnostic[]> = new Map();
+        for (const diagnostic of diagnostics) {
+            const group = byPath.get(diagnostic.path) ?? [];
+            group.push(diagnostic);
+            byPath.set(diagnostic.path, group);
+        }
+
+        for (const [path, group] of byPath) {
+            container.createEl('h4', { text: path });
+            const list = container.createEl('ul', { cls: 'finance-validation-list' });
+            for (const diagnostic of group) {
+                this.renderDiagnostic(list.createEl('li', { cls: `finance-validation-${diagnostic.severity}` }), diagnostic);
+            }
+        }
+    }
+
+    private renderDiagnostic(item: HTMLElement, diagnostic: LedgerDiagnostic): void {
+        const link = item.createEl('a', { text: `Line ${diagnostic.line + 1}`, cls: 'finance-source-link' });
+        link.addEventListener('click', async (e) => {
+            e.preventDefault();
+            const file = this.app.vault.getAbstractFileByPath(diagnostic.path);
+            if (file instanceof TFile) {
+                await this.app.workspace.getLeaf(false).openFile(file, {
+                    eState: { line: diagnostic.line }
+                });
+            }
+        });
+        item.createEl('span', { text: ` ${diagnostic.message}` });
+
+        const fix = diagnostic.fix;
+        if (fix) {
+            const fixButton = item.createEl('button', { text: fix.label, cls: 'btn btn-small' });
+            fixButton.addEventListener('click', async () => {
+                try {
+                    await this.validationService.applyFix(diagnostic);
+                    new Notice(`Fixed: ${diagnostic.message}`);
+                } catch (error) {
+                    console.error('Failed to apply fix:', error);
+                    new Notice(error.message);
+                }
+                await this.refresh();
+            });
+        }
+    }
+}